@@ -19,7 +19,7 @@ import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC798
  * @custom:concept Sealed-bid auction with encrypted bids and public reveal
  * @custom:difficulty advanced
  * @custom:depends-on AuctionPaymentToken,PrizeItem,PublicDecryptSingleValue
- * @custom:deploy-plan [{"contract":"PrizeItem","saveAs":"prizeItem"},{"contract":"AuctionPaymentToken","saveAs":"paymentToken","args":["$deployer","Auction USD","AUSD",""]},{"contract":"BlindAuction","saveAs":"auction","args":["@prizeItem","@paymentToken",0,"#Math.floor(Date.now()/1000)","#Math.floor(Date.now()/1000)+3600"],"afterDeploy":["await prizeItem.approve(await auction.getAddress(), 0);","await auction.depositPrize();"]}]
+ * @custom:deploy-plan [{"contract":"PrizeItem","saveAs":"prizeItem"},{"contract":"AuctionPaymentToken","saveAs":"paymentToken","args":["$deployer","Auction USD","AUSD",""]},{"contract":"BlindAuction","saveAs":"auction","args":["@prizeItem","@paymentToken",0,"#Math.floor(Date.now() / 1000)","#Math.floor(Date.now() / 1000) + 3600"],"afterDeploy":[{"call":"prizeItem.approve","args":["@auction",0]},{"call":"auction.depositPrize"}]}]
  */
 contract BlindAuction is ZamaEthereumConfig, ReentrancyGuard {
 // solhint-enable max-line-length
@@ -219,8 +219,10 @@ contract BlindAuction is ZamaEthereumConfig, ReentrancyGuard {
         if (!FHE.isInitialized(winningAddress) || !FHE.isInitialized(highestBid)) {
             revert NoWinnerToReveal();
         }
+        // @exercise-begin Make the winning address and the highest bid publicly decryptable
         FHE.makePubliclyDecryptable(winningAddress);
         FHE.makePubliclyDecryptable(highestBid);
+        // @exercise-end
     }
 
     /// @notice Return the handle for the encrypted winning address.
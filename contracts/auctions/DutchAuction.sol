@@ -23,7 +23,7 @@ import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC798
  * @custom:concept Dutch auction with descending price and encrypted reserve
  * @custom:difficulty intermediate
  * @custom:depends-on AuctionPaymentToken,PrizeItem
- * @custom:deploy-plan [{"contract":"PrizeItem","saveAs":"prizeItem"},{"contract":"AuctionPaymentToken","saveAs":"paymentToken","args":["$deployer","Auction USD","AUSD",""]},{"contract":"DutchAuction","saveAs":"auction","args":["@prizeItem","@paymentToken",0,"#Math.floor(Date.now()/1000)","#Math.floor(Date.now()/1000)+3600",1000000,100000,10000],"afterDeploy":["await prizeItem.approve(await auction.getAddress(), 0);","await auction.depositPrize();"]}]
+ * @custom:deploy-plan [{"contract":"PrizeItem","saveAs":"prizeItem"},{"contract":"AuctionPaymentToken","saveAs":"paymentToken","args":["$deployer","Auction USD","AUSD",""]},{"contract":"DutchAuction","saveAs":"auction","args":["@prizeItem","@paymentToken",0,"#Math.floor(Date.now() / 1000)","#Math.floor(Date.now() / 1000) + 3600",1000000,100000,10000],"afterDeploy":[{"call":"prizeItem.approve","args":["@auction",0]},{"call":"auction.depositPrize"},{"call":"auction.setReservePrice","args":[{"encrypted":{"type":"euint64","value":500000}}]}]}]
  */
 contract DutchAuction is ZamaEthereumConfig, ReentrancyGuard {
     // solhint-enable max-line-length
@@ -166,12 +166,15 @@ contract DutchAuction is ZamaEthereumConfig, ReentrancyGuard {
 
         uint256 currentPrice = getCurrentPrice();
 
+        // @exercise-begin Set `actualPrice` to `currentPrice` if it meets the reserve, else to 0
+        // @exercise-stub euint64 actualPrice = FHE.asEuint64(uint64(currentPrice));
         // Check if current price meets the reserve (encrypted comparison)
         euint64 encCurrentPrice = FHE.asEuint64(uint64(currentPrice));
         ebool meetsReserve = FHE.ge(encCurrentPrice, reservePrice);
 
         // Branch-free: if reserve not met, the price would be 0
         euint64 actualPrice = FHE.select(meetsReserve, encCurrentPrice, FHE.asEuint64(0));
+        // @exercise-end
 
         // Transfer payment from buyer to this contract
         FHE.allowTransient(actualPrice, address(paymentToken));
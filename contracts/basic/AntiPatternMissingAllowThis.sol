@@ -33,10 +33,12 @@ contract AntiPatternMissingAllowThis is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function addToStored(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Add `value` to the caller's value, then allow the contract and the caller to use it
         euint64 updated = FHE.add(storedValues[msg.sender], value);
         storedValues[msg.sender] = updated;
         FHE.allowThis(updated);
         FHE.allow(updated, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Retrieve the stored value.
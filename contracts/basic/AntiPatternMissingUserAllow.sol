@@ -23,8 +23,10 @@ contract AntiPatternMissingUserAllow is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function storeValue(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Store `value` and allow only the contract to use it (the caller is left out)
         stored[msg.sender] = value;
         FHE.allowThis(value);
+        // @exercise-end
     }
 
     /// @notice Return the stored encrypted value.
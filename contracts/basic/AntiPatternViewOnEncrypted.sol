@@ -23,9 +23,11 @@ contract AntiPatternViewOnEncrypted is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function storeValue(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Store `value` for the caller, then allow the contract and the caller to use it
         storedValues[msg.sender] = value;
         FHE.allowThis(value);
         FHE.allow(value, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Read the encrypted value from a view function.
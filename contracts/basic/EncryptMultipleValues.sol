@@ -31,6 +31,7 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
         euint64 first = FHE.fromExternal(encFirst, inputProof);
         euint64 second = FHE.fromExternal(encSecond, inputProof);
 
+        // @exercise-begin Store both values for the caller, then allow the contract and the caller to use them
         firstValues[msg.sender] = first;
         secondValues[msg.sender] = second;
 
@@ -38,6 +39,7 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
         FHE.allowThis(second);
         FHE.allow(first, msg.sender);
         FHE.allow(second, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Retrieve both encrypted values for a user.
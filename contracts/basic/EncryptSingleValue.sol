@@ -23,9 +23,11 @@ contract EncryptSingleValue is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function storeValue(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Store `value` for the caller, then allow the contract and the caller to use it
         values[msg.sender] = value;
         FHE.allowThis(value);
         FHE.allow(value, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Retrieve the encrypted value for a user.
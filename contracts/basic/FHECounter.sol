@@ -29,9 +29,11 @@ contract FHECounter is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function increment(externalEuint64 encAmount, bytes calldata inputProof) external {
         euint64 amount = FHE.fromExternal(encAmount, inputProof);
+        // @exercise-begin Add `amount` to `count`, then allow the contract and the caller to use it
         count = FHE.add(count, amount);
         FHE.allowThis(count);
         FHE.allow(count, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Decrement the counter by an encrypted amount.
@@ -39,8 +41,10 @@ contract FHECounter is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function decrement(externalEuint64 encAmount, bytes calldata inputProof) external {
         euint64 amount = FHE.fromExternal(encAmount, inputProof);
+        // @exercise-begin Subtract `amount` from `count`, then allow the contract and the caller to use it
         count = FHE.sub(count, amount);
         FHE.allowThis(count);
         FHE.allow(count, msg.sender);
+        // @exercise-end
     }
 }
@@ -42,8 +42,10 @@ contract FHEIfThenElse is ZamaEthereumConfig {
         euint64 rightValue = FHE.fromExternal(right, inputProof);
         euint64 thresholdValue = FHE.fromExternal(threshold, inputProof);
 
+        // @exercise-begin Store `leftValue` in `lastResult` when it is at most `thresholdValue`, else `rightValue`
         ebool takeLeft = FHE.le(leftValue, thresholdValue);
         lastResult = FHE.select(takeLeft, leftValue, rightValue);
+        // @exercise-end
 
         FHE.allowThis(lastResult);
         FHE.allow(lastResult, msg.sender);
@@ -35,8 +35,10 @@ contract FHESub is ZamaEthereumConfig {
     ) external {
         euint64 a = FHE.fromExternal(encA, inputProof);
         euint64 b = FHE.fromExternal(encB, inputProof);
+        // @exercise-begin Store `a - b` in `lastResult`, then allow the contract and the caller to use it
         lastResult = FHE.sub(a, b);
         FHE.allowThis(lastResult);
         FHE.allow(lastResult, msg.sender);
+        // @exercise-end
     }
 }
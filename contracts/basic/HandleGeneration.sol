@@ -33,11 +33,13 @@ contract HandleGeneration is ZamaEthereumConfig {
     /// @param addend Plaintext addend applied to the stored encrypted value
     function deriveValue(uint64 addend) external {
         euint64 baseValue = stored[msg.sender];
+        // @exercise-begin Store `(stored + addend) * 2`, then allow the contract and the caller to use it
         euint64 withAdd = FHE.add(baseValue, addend);
         euint64 doubled = FHE.add(withAdd, withAdd);
         derived[msg.sender] = doubled;
         FHE.allowThis(doubled);
         FHE.allow(doubled, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Return the stored encrypted value.
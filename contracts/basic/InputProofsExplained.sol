@@ -23,9 +23,11 @@ contract InputProofsExplained is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function storeSecret(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Store the verified `value` for the caller, then allow the contract and the caller to use it
         secrets[msg.sender] = value;
         FHE.allowThis(value);
         FHE.allow(value, msg.sender);
+        // @exercise-end
     }
 
     /// @notice Retrieve the encrypted secret for a user.
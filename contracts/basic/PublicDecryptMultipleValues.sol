@@ -39,8 +39,10 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
 
     /// @notice Publish both values for public decryption.
     function publishValues() external {
+        // @exercise-begin Make both stored values publicly decryptable
         FHE.makePubliclyDecryptable(lastFirst);
         FHE.makePubliclyDecryptable(lastSecond);
+        // @exercise-end
     }
 
     /// @notice Returns the handles for public decryption.
@@ -35,7 +35,9 @@ contract PublicDecryptSingleValue is ZamaEthereumConfig {
 
     /// @notice Publish the encrypted value for public decryption.
     function publishValue() external {
+        // @exercise-begin Make `lastValue` publicly decryptable
         FHE.makePubliclyDecryptable(lastValue);
+        // @exercise-end
     }
 
     /// @notice Returns the handle for public decryption.
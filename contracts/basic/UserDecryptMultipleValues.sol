@@ -43,6 +43,7 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
         euint64 a = FHE.fromExternal(encA, inputProof);
         euint64 b = FHE.fromExternal(encB, inputProof);
 
+        // @exercise-begin Store `a + b` and `a - b`, then allow the contract and the caller to use both
         lastSum = FHE.add(a, b);
         lastDifference = FHE.sub(a, b);
 
@@ -50,5 +51,6 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
         FHE.allowThis(lastDifference);
         FHE.allow(lastSum, msg.sender);
         FHE.allow(lastDifference, msg.sender);
+        // @exercise-end
     }
 }
@@ -29,8 +29,10 @@ contract UserDecryptSingleValue is ZamaEthereumConfig {
     /// @param inputProof Proof for the encrypted input
     function computePlusOne(externalEuint64 encValue, bytes calldata inputProof) external {
         euint64 value = FHE.fromExternal(encValue, inputProof);
+        // @exercise-begin Store `value + 1` in `lastResult`, then allow the contract and the caller to decrypt it
         lastResult = FHE.add(value, FHE.asEuint64(1));
         FHE.allowThis(lastResult);
         FHE.allow(lastResult, msg.sender);
+        // @exercise-end
     }
 }
@@ -20,6 +20,7 @@ import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
  * @custom:chapter games
  * @custom:concept Encrypted letter comparison with branch-free feedback
  * @custom:difficulty intermediate
+ * @custom:deploy-plan [{"contract":"FHEWordle","saveAs":"game","args":["$deployer"],"afterDeploy":[{"call":"game.setSecretWord","args":[{"encrypted":{"type":"euint8","value":[87,79,82,76,68]}}]}]}]
  */
 contract FHEWordle is ZamaEthereumConfig, Ownable {
     /// @notice The 5 encrypted letters of the secret word (ASCII codes)
@@ -127,6 +128,8 @@ contract FHEWordle is ZamaEthereumConfig, Ownable {
             }
         }
 
+        // @exercise-begin Set `result` to 2 for an exact match, 1 for a letter found elsewhere, 0 otherwise
+        // @exercise-stub euint8 result = FHE.asEuint8(0);
         // Build feedback: green(2) > yellow(1) > gray(0)
         euint8 green = FHE.asEuint8(2);
         euint8 yellow = FHE.asEuint8(1);
@@ -135,6 +138,7 @@ contract FHEWordle is ZamaEthereumConfig, Ownable {
         // If green, return 2; else if yellow, return 1; else return 0
         euint8 yellowOrGray = FHE.select(existsInWord, yellow, gray);
         euint8 result = FHE.select(isGreen, green, yellowOrGray);
+        // @exercise-end
 
         return result;
     }
@@ -122,8 +122,10 @@ contract AccessControlGrants is ZamaEthereumConfig {
             revert AlreadyGranted();
         }
 
+        // @exercise-begin Allow `grantee` to use the caller's encrypted credential score
         // Grant access to the encrypted value
         FHE.allow(credentialScores[msg.sender], grantee);
+        // @exercise-end
 
         hasAccess[msg.sender][grantee] = true;
         granteeList[msg.sender].push(grantee);
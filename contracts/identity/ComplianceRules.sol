@@ -17,7 +17,7 @@ import {IIdentityRegistry} from "./IIdentityRegistry.sol";
  * @custom:concept Combining encrypted compliance checks with FHE.and()
  * @custom:difficulty intermediate
  * @custom:depends-on IdentityRegistry,IIdentityRegistry,CompliantERC20
- * @custom:deploy-plan [{"contract":"IdentityRegistry","saveAs":"registry"},{"contract":"ComplianceRules","saveAs":"complianceRules","args":["@registry",1]},{"contract":"CompliantERC20","saveAs":"token","args":["Compliant Token","CPL","@complianceRules"],"afterDeploy":["await complianceRules.setAuthorizedCaller(await token.getAddress(), true);","console.log(\"Authorized CompliantERC20 as compliance caller:\", await token.getAddress());"]}]
+ * @custom:deploy-plan [{"contract":"IdentityRegistry","saveAs":"registry"},{"contract":"ComplianceRules","saveAs":"complianceRules","args":["@registry",1]},{"contract":"CompliantERC20","saveAs":"token","args":["Compliant Token","CPL","@complianceRules"],"afterDeploy":[{"call":"complianceRules.setAuthorizedCaller","args":["@token",true]},{"log":"Authorized CompliantERC20 as compliance caller:","value":"@token"}]}]
  *
  * This contract aggregates compliance checks from IdentityRegistry and returns
  * encrypted boolean results. Consumer contracts (like CompliantERC20) can use
@@ -189,8 +189,11 @@ contract ComplianceRules is ZamaEthereumConfig {
         ebool hasKyc = identityRegistry.hasMinKycLevel(user, minKycLevel);
         ebool notBlacklisted = identityRegistry.isNotBlacklisted(user);
 
+        // @exercise-begin Combine `hasKyc` and `notBlacklisted` into `result`
+        // @exercise-stub ebool result = FHE.asEbool(false);
         // Combine all conditions
         ebool result = FHE.and(hasKyc, notBlacklisted);
+        // @exercise-end
 
         // Store and grant permissions
         complianceResults[user] = result;
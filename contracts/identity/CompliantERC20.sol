@@ -17,7 +17,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @custom:concept FHE.select() for branch-free compliant transfers
  * @custom:difficulty advanced
  * @custom:depends-on IdentityRegistry,IIdentityRegistry,ComplianceRules
- * @custom:deploy-plan [{"contract":"IdentityRegistry","saveAs":"registry"},{"contract":"ComplianceRules","saveAs":"complianceRules","args":["@registry",1]},{"contract":"CompliantERC20","saveAs":"token","args":["Compliant Token","CPL","@complianceRules"],"afterDeploy":["await complianceRules.setAuthorizedCaller(await token.getAddress(), true);","console.log(\"Authorized CompliantERC20 as compliance caller:\", await token.getAddress());"]}]
+ * @custom:deploy-plan [{"contract":"IdentityRegistry","saveAs":"registry"},{"contract":"ComplianceRules","saveAs":"complianceRules","args":["@registry",1]},{"contract":"CompliantERC20","saveAs":"token","args":["Compliant Token","CPL","@complianceRules"],"afterDeploy":[{"call":"complianceRules.setAuthorizedCaller","args":["@token",true]},{"log":"Authorized CompliantERC20 as compliance caller:","value":"@token"}]}]
  *
  * This contract implements a compliant token with encrypted balances.
  * Transfers only succeed if both parties pass compliance checks, but
@@ -358,11 +358,13 @@ contract CompliantERC20 is ZamaEthereumConfig {
         balances[from] = newFromBalance;
         balances[to] = newToBalance;
 
+        // @exercise-begin Allow the contract and each account to use its new balance
         // Set permissions
         FHE.allowThis(newFromBalance);
         FHE.allowThis(newToBalance);
         FHE.allow(newFromBalance, from);
         FHE.allow(newToBalance, to);
+        // @exercise-end
 
         // Always emit (hides success/failure)
         emit Transfer(from, to);
@@ -22,7 +22,7 @@ import {SimpleKycRegistry} from "./helpers/SimpleKycRegistry.sol";
  * @custom:concept ERC7984ERC20Wrapper (ERC20 ↔ ERC7984) + KYC-gated wrap/unwrap
  * @custom:difficulty advanced
  * @custom:depends-on SimpleKycRegistry,MockUSDC
- * @custom:deploy-plan [{"contract":"SimpleKycRegistry","saveAs":"kyc","args":["$deployer"]},{"contract":"MockUSDC","saveAs":"usdc","args":["$deployer",0]},{"contract":"ERC7984ERC20WrapperExample","saveAs":"wrapper","args":["$deployer","@usdc","@kyc"],"afterDeploy":["await kyc.setKyc(deployer.address, true);"]}]
+ * @custom:deploy-plan [{"contract":"SimpleKycRegistry","saveAs":"kyc","args":["$deployer"]},{"contract":"MockUSDC","saveAs":"usdc","args":["$deployer",0]},{"contract":"ERC7984ERC20WrapperExample","saveAs":"wrapper","args":["$deployer","@usdc","@kyc"],"afterDeploy":[{"call":"kyc.setKyc","args":["$deployer",true]}]}]
  *
  * Production alignment:
  * - Onboarding/offboarding flows often require moving between public assets and confidential balances.
@@ -63,8 +63,10 @@ contract ERC7984ERC20WrapperExample is ERC7984ERC20Wrapper, Ownable, ZamaEthereu
      * @param amount Cleartext ERC20 amount to wrap
      */
     function wrap(address to, uint256 amount) public override {
+        // @exercise-begin Revert with `NotKycApproved` unless both the caller and `to` are KYC-approved
         if (!kyc.isKycApproved(msg.sender)) revert NotKycApproved(msg.sender);
         if (!kyc.isKycApproved(to)) revert NotKycApproved(to);
+        // @exercise-end
         super.wrap(to, amount);
     }
 
@@ -18,7 +18,7 @@ import {ERC7984Restricted} from "@openzeppelin/confidential-contracts/token/ERC7
  * @custom:chapter erc7984
  * @custom:concept OpenZeppelin ERC7984Restricted + public KYC allowlist (revert-based compliance)
  * @custom:difficulty intermediate
- * @custom:deploy-plan [{"contract":"ERC7984KycRestricted","saveAs":"token","args":["$deployer","KYC Token","KYCT","ipfs://kyc-token"],"afterDeploy":["await token.approveKyc(deployer.address);","console.log(\"Approved KYC for deployer:\", deployer.address);"]}]
+ * @custom:deploy-plan [{"contract":"ERC7984KycRestricted","saveAs":"token","args":["$deployer","KYC Token","KYCT","ipfs://kyc-token"],"afterDeploy":[{"call":"token.approveKyc","args":["$deployer"]},{"log":"Approved KYC for deployer:","value":"$deployer"}]}]
  *
  * Production alignment:
  * - Model KYC as a public boolean/allowlist (attestation is public)
@@ -81,7 +81,10 @@ contract ERC7984KycRestricted is ERC7984Restricted, Ownable, ZamaEthereumConfig
      * @return Whether the account is KYC-approved (ALLOWED status)
      */
     function isUserAllowed(address account) public view override returns (bool) {
+        // @exercise-begin Return whether `account` has been explicitly allowed
+        // @exercise-stub return false;
         return getRestriction(account) == Restriction.ALLOWED;
+        // @exercise-end
     }
 
     // ============ Token Admin ============
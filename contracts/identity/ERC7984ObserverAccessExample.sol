@@ -47,6 +47,8 @@ contract ERC7984ObserverAccessExample is ERC7984ObserverAccess, Ownable, ZamaEth
      * @param inputProof Proof for the encrypted input
      */
     function mint(address to, externalEuint64 amount, bytes calldata inputProof) external onlyOwner {
+        // @exercise-begin Mint the verified encrypted `amount` to `to`
         _mint(to, FHE.fromExternal(amount, inputProof));
+        // @exercise-end
     }
 }
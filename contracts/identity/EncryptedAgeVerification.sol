@@ -145,6 +145,7 @@ contract EncryptedAgeVerification is ZamaEthereumConfig {
             revert NotRegistered();
         }
 
+        // @exercise-begin Set `meetsAge` to whether the user is at least `minAge` years old
         // Calculate: currentYearOffset - minAge
         // This gives us the maximum birth year offset for someone to be minAge years old
         euint8 maxBirthYearOffset = FHE.sub(currentYearOffset, FHE.asEuint8(minAge));
@@ -152,6 +153,7 @@ contract EncryptedAgeVerification is ZamaEthereumConfig {
         // User is at least minAge if their birth year offset <= maxBirthYearOffset
         // (Earlier birth year = older person)
         meetsAge = FHE.le(birthYearOffsets[user], maxBirthYearOffset);
+        // @exercise-end
 
         // Store result for later retrieval
         bytes32 key = keccak256(abi.encodePacked(user, minAge));
@@ -294,10 +294,12 @@ contract IdentityRegistry is IIdentityRegistry, ZamaEthereumConfig {
     function grantAccessTo(address grantee) external {
         if (attestationTimestamp[msg.sender] == 0) revert NotAttested();
 
+        // @exercise-begin Allow `grantee` to use each of the caller's encrypted attributes
         FHE.allow(birthYearOffsets[msg.sender], grantee);
         FHE.allow(countryCodes[msg.sender], grantee);
         FHE.allow(kycLevels[msg.sender], grantee);
         FHE.allow(isBlacklisted[msg.sender], grantee);
+        // @exercise-end
 
         emit AccessGranted(msg.sender, grantee);
     }
@@ -92,8 +92,10 @@ contract SwapERC7984ToERC20 is Ownable, ZamaEthereumConfig {
         // Requires: msg.sender setOperator(this, until)
         euint64 amountTransferred = fromToken.confidentialTransferFrom(msg.sender, address(this), amount);
 
+        // @exercise-begin Make `amountTransferred` publicly decryptable so the swap can be finalized off-chain
         // Make result publicly decryptable for off-chain finalization.
         FHE.makePubliclyDecryptable(amountTransferred);
+        // @exercise-end
         receivers[amountTransferred] = msg.sender;
     }
 
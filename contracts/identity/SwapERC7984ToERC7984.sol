@@ -72,8 +72,10 @@ contract SwapERC7984ToERC7984 is ZamaEthereumConfig {
         FHE.allowTransient(amount, address(fromToken));
         euint64 amountTransferred = fromToken.confidentialTransferFrom(msg.sender, address(this), amount);
 
+        // @exercise-begin Allow `toToken` to use `amountTransferred` for this transaction
         // Allow token B to consume the transferred handle in this tx.
         FHE.allowTransient(amountTransferred, address(toToken));
+        // @exercise-end
         toToken.confidentialTransfer(msg.sender, amountTransferred);
     }
 
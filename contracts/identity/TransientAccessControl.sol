@@ -77,8 +77,10 @@ contract TransientAccessRegistry is ZamaEthereumConfig {
         euint8 score = scores[user];
         if (!FHE.isInitialized(score)) revert NoScore();
 
+        // @exercise-begin Allow the calling contract to use `score` for this transaction only
         // Key idea: allow the calling contract to operate on this handle only in this tx.
         FHE.allowTransient(score, msg.sender);
+        // @exercise-end
 
         return score;
     }
@@ -81,8 +81,10 @@ contract KycVestingWalletConfidential is VestingWalletConfidential, ZamaEthereum
      * @param token ERC7984 token address
      */
     function release(address token) public override {
+        // @exercise-begin Revert with `NotKycApproved` unless the beneficiary is KYC-approved
         address beneficiary = owner();
         if (!kyc.isKycApproved(beneficiary)) revert NotKycApproved(beneficiary);
+        // @exercise-end
         super.release(token);
     }
 }
@@ -0,0 +1,83 @@
+import * as path from "node:path";
+
+import { createBundle, planBundle } from "../create-fhevm-bundle";
+import { deployPlanErrors } from "../example-registry";
+import { CliError, type CommandDefinition, UsageError } from "../lib/cli";
+import { type ExampleFilters, selectExamples } from "../lib/example-selection";
+import { describeFilePlan, formatFilePlan } from "../lib/file-plan";
+import { formatDiagnostic } from "../lib/metadata-schema";
+
+export const bundleCommand: CommandDefinition = {
+  name: "bundle",
+  summary: "Generate one repo combining a selection of examples",
+  description:
+    "Merge the selected examples into one repo: shared helpers written once, clashing files moved under the example's slug, one package.json, README and deploy script. Filters combine.",
+  arguments: [
+    { name: "output-dir", description: "Target directory (default: ./output/bundle-<name>)" },
+  ],
+  options: [
+    { name: "examples", valueName: "slugs", description: "Comma-separated example slugs" },
+    { name: "chapter", valueName: "chapter", description: "Examples of this chapter" },
+    {
+      name: "difficulty",
+      valueName: "level",
+      description: "Examples of this difficulty (Beginner, Intermediate, Advanced)",
+    },
+    {
+      name: "name",
+      valueName: "name",
+      description: "Bundle name, used for the package name (default: the chapter or difficulty)",
+    },
+    {
+      name: "dry-run",
+      description: "Print the file plan (path, source, size) without writing anything",
+    },
+  ],
+  examples: [
+    "fhevm-hub bundle --examples blind-auction,dutch-auction",
+    "fhevm-hub bundle ./output/acl --chapter access-control",
+    "fhevm-hub bundle --difficulty Beginner --name starter --dry-run",
+  ],
+  run(ctx) {
+    const [outputArg] = ctx.args;
+    const option = (name: string) =>
+      typeof ctx.options[name] === "string" ? (ctx.options[name] as string) : undefined;
+    const filters: ExampleFilters = {
+      examples: option("examples"),
+      chapter: option("chapter"),
+      difficulty: option("difficulty"),
+    };
+    if (!filters.examples && !filters.chapter && !filters.difficulty) {
+      throw new UsageError("Select examples with --examples, --chapter or --difficulty");
+    }
+
+    const registry = ctx.registry();
+    const examples = selectExamples(registry, filters);
+    if (examples.length === 0) {
+      throw new UsageError("No example matches the given filters");
+    }
+
+    const planErrors = deployPlanErrors(ctx.rootDir, registry, examples);
+    if (planErrors.length > 0) {
+      throw new CliError(
+        `Invalid @custom:deploy-plan, fix it before generating:\n${planErrors.map(formatDiagnostic).join("\n")}`,
+      );
+    }
+
+    const name = option("name") ?? filters.chapter ?? filters.difficulty?.toLowerCase() ?? "custom";
+    const outputDir = path.resolve(ctx.rootDir, outputArg ?? path.join("output", `bundle-${name}`));
+    const slugs = examples.map((example) => example.slug);
+    if (ctx.options["dry-run"]) {
+      const { plan, renamed } = planBundle(ctx.rootDir, name, examples, ctx.logger, {
+        offline: true,
+      });
+      const files = describeFilePlan(plan, ctx.rootDir);
+      ctx.print(`File plan for bundle ${name} (${outputDir}):`);
+      ctx.print(formatFilePlan(files));
+      return { result: { bundle: name, outputDir, examples: slugs, renamed, dryRun: true, files } };
+    }
+
+    const { renamed } = createBundle(ctx.rootDir, name, examples, outputDir, ctx.logger);
+    return { result: { bundle: name, outputDir, examples: slugs, renamed } };
+  },
+};
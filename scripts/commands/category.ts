@@ -0,0 +1,83 @@
+import * as path from "node:path";
+
+import { createCategory, planCategory } from "../create-fhevm-category";
+import { deployPlanErrors } from "../example-registry";
+import { CliError, type CommandDefinition, UsageError } from "../lib/cli";
+import { describeFilePlan, formatFilePlan } from "../lib/file-plan";
+import { formatDiagnostic } from "../lib/metadata-schema";
+
+export const categoryCommand: CommandDefinition = {
+  name: "category",
+  summary: "Generate a category bundle of standalone repos",
+  description:
+    "Generate a bundle with a README, a GitBook SUMMARY.md and one standalone repo per example of a category.",
+  arguments: [
+    {
+      name: "category",
+      description: "Category name (see `fhevm-hub list categories`)",
+      required: true,
+    },
+    { name: "output-dir", description: "Target directory (default: ./output/category-<category>)" },
+  ],
+  options: [
+    {
+      name: "workspace",
+      description:
+        "Emit one npm workspaces monorepo (hoisted deps, shared configs and helper contracts)",
+    },
+    {
+      name: "dry-run",
+      description: "Print the file plan (path, source, size) without writing anything",
+    },
+  ],
+  examples: [
+    "fhevm-hub category identity ./output/category-identity",
+    "fhevm-hub category auctions --workspace",
+    "fhevm-hub category identity --dry-run",
+  ],
+  run(ctx) {
+    const [categoryName, outputArg] = ctx.args;
+    const registry = ctx.registry();
+    const examples = registry.categories.get(categoryName);
+    if (!examples) {
+      throw new UsageError(
+        `Unknown category: ${categoryName}\nAvailable categories: ${Array.from(registry.categories.keys()).join(", ")}`,
+      );
+    }
+
+    const planErrors = deployPlanErrors(ctx.rootDir, registry, examples);
+    if (planErrors.length > 0) {
+      throw new CliError(
+        `Invalid @custom:deploy-plan, fix it before generating:\n${planErrors.map(formatDiagnostic).join("\n")}`,
+      );
+    }
+
+    const outputDir = path.resolve(
+      ctx.rootDir,
+      outputArg ?? path.join("output", `category-${categoryName}`),
+    );
+    const options = { workspace: Boolean(ctx.options.workspace) };
+    if (ctx.options["dry-run"]) {
+      const files = describeFilePlan(
+        planCategory(ctx.rootDir, categoryName, examples, ctx.logger, {
+          ...options,
+          offline: true,
+        }),
+        ctx.rootDir,
+      );
+      ctx.print(`File plan for category ${categoryName} (${outputDir}):`);
+      ctx.print(formatFilePlan(files));
+      return { result: { category: categoryName, outputDir, dryRun: true, files } };
+    }
+
+    createCategory(ctx.rootDir, categoryName, examples, outputDir, ctx.logger, options);
+    return {
+      result: {
+        category: categoryName,
+        outputDir,
+        workspace: options.workspace,
+        examples: examples.map((ex) => ex.slug),
+      },
+    };
+  },
+};
@@ -0,0 +1,86 @@
+import * as path from "node:path";
+
+import { createCourse, planCourse } from "../create-fhevm-course";
+import { deployPlanErrors } from "../example-registry";
+import { CliError, type CommandDefinition, UsageError } from "../lib/cli";
+import { type ExampleFilters, learningPath, selectExamples } from "../lib/example-selection";
+import { describeFilePlan, formatFilePlan } from "../lib/file-plan";
+import { formatDiagnostic } from "../lib/metadata-schema";
+
+export const courseCommand: CommandDefinition = {
+  name: "course",
+  summary: "Generate a workshop repo from a learning path",
+  description:
+    "Generate a workshop repo with one numbered lesson per example: a starter contract with its exercise regions replaced by TODOs, the solution, the example's tests and a progress checker. Lessons follow the learning path (difficulty, then title) unless --examples sets the order.",
+  arguments: [
+    { name: "output-dir", description: "Target directory (default: ./output/course-<name>)" },
+  ],
+  options: [
+    {
+      name: "examples",
+      valueName: "slugs",
+      description: "Comma-separated example slugs, in order",
+    },
+    { name: "chapter", valueName: "chapter", description: "Lessons from this chapter" },
+    {
+      name: "difficulty",
+      valueName: "level",
+      description: "Lessons of this difficulty (Beginner, Intermediate, Advanced)",
+    },
+    {
+      name: "name",
+      valueName: "name",
+      description: "Course name (default: the chapter, the difficulty or `workshop`)",
+    },
+    {
+      name: "dry-run",
+      description: "Print the file plan (path, source, size) without writing anything",
+    },
+  ],
+  examples: [
+    "fhevm-hub course --difficulty Beginner",
+    "fhevm-hub course ./output/acl-workshop --chapter access-control",
+    "fhevm-hub course --examples fhe-counter,fhe-add,fhe-if-then-else --name intro --dry-run",
+  ],
+  run(ctx) {
+    const [outputArg] = ctx.args;
+    const option = (name: string) =>
+      typeof ctx.options[name] === "string" ? (ctx.options[name] as string) : undefined;
+    const filters: ExampleFilters = {
+      examples: option("examples"),
+      chapter: option("chapter"),
+      difficulty: option("difficulty"),
+    };
+
+    const registry = ctx.registry();
+    const selected = selectExamples(registry, filters);
+    const examples = filters.examples ? selected : learningPath(selected);
+    if (examples.length === 0) {
+      throw new UsageError("No example matches the given filters");
+    }
+
+    const planErrors = deployPlanErrors(ctx.rootDir, registry, examples);
+    if (planErrors.length > 0) {
+      throw new CliError(
+        `Invalid @custom:deploy-plan, fix it before generating:\n${planErrors.map(formatDiagnostic).join("\n")}`,
+      );
+    }
+
+    const name =
+      option("name") ?? filters.chapter ?? filters.difficulty?.toLowerCase() ?? "workshop";
+    const outputDir = path.resolve(ctx.rootDir, outputArg ?? path.join("output", `course-${name}`));
+    const lessons = examples.map((example) => example.slug);
+    if (ctx.options["dry-run"]) {
+      const files = describeFilePlan(
+        planCourse(ctx.rootDir, name, examples, ctx.logger, { offline: true }),
+        ctx.rootDir,
+      );
+      ctx.print(`File plan for course ${name} (${outputDir}):`);
+      ctx.print(formatFilePlan(files));
+      return { result: { course: name, outputDir, lessons, dryRun: true, files } };
+    }
+
+    createCourse(ctx.rootDir, name, examples, outputDir, ctx.logger);
+    return { result: { course: name, outputDir, lessons } };
+  },
+};
@@ -0,0 +1,128 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { createExample, planExample, updateExample } from "../create-fhevm-example";
+import { deployPlanErrors } from "../example-registry";
+import {
+  CliError,
+  type CommandContext,
+  type CommandDefinition,
+  EXIT_FAILURE,
+  UsageError,
+} from "../lib/cli";
+import { describeFilePlan, formatFilePlan } from "../lib/file-plan";
+import { formatDiagnostic } from "../lib/metadata-schema";
+import type { UpdateReport } from "../lib/repo-update";
+
+function printUpdateReport(ctx: CommandContext, report: UpdateReport) {
+  const sections: [string, string[]][] = [
+    ["Updated", report.updated],
+    ["Added", report.added],
+    ["Removed", report.removed],
+    ["Merged", report.merged],
+  ];
+  for (const [label, files] of sections) {
+    for (const file of files) ctx.print(`  ${label}: ${file}`);
+  }
+  for (const conflict of report.conflicts) {
+    ctx.print(`  Conflict: ${conflict.file} (${conflict.reason})`);
+  }
+
+  const changed = sections.reduce((count, [, files]) => count + files.length, 0);
+  if (changed === 0 && report.conflicts.length === 0) {
+    ctx.print("Already up to date.");
+  } else if (report.conflicts.length > 0) {
+    // Only text merges leave markers; deleted, binary and JSON conflicts just need a review.
+    const total = report.conflicts.length;
+    const marked = report.conflicts.filter((conflict) => conflict.marked).length;
+    const advice =
+      marked === 0
+        ? "review the files listed above"
+        : marked === total
+          ? "resolve the <<<<<<< markers in them"
+          : `resolve the <<<<<<< markers in ${marked} of them and review the others listed above`;
+    ctx.print(`\n${total} file(s) need attention; ${advice}.`);
+  } else {
+    ctx.print(`\nUpdated ${changed} file(s) without conflicts.`);
+  }
+}
+
+export const createCommand: CommandDefinition = {
+  name: "create",
+  summary: "Generate a standalone example repo",
+  description:
+    "Generate a standalone, forkable Hardhat repo for one example (contract, tests, deploy script and DX configs). With --exercise, the contract's exercise regions become TODOs and the full contract and its tests move under .exercise/ (`npm run check` runs them). With --update, regenerate an existing repo and three-way merge the changes against the baseline recorded at generation; files changed on both sides get conflict markers.",
+  arguments: [
+    { name: "slug", description: "Example slug (see `fhevm-hub list`)", required: true },
+    { name: "output-dir", description: "Target directory (default: ./output/<slug>)" },
+  ],
+  options: [
+    {
+      name: "update",
+      description:
+        "Update a previously generated repo in place, merging hub changes with local edits",
+    },
+    {
+      name: "exercise",
+      description: "Generate a starter with exercise regions as TODOs, plus hidden solution tests",
+    },
+    {
+      name: "dry-run",
+      description: "Print the file plan (path, source, size) without writing anything",
+    },
+  ],
+  examples: [
+    "fhevm-hub create fhe-counter",
+    "fhevm-hub create encrypted-age-verification ./output/age-verification",
+    "fhevm-hub create fhe-counter ./my-counter --update",
+    "fhevm-hub create fhe-counter ./counter-exercise --exercise",
+    "fhevm-hub create fhe-counter --dry-run --json",
+  ],
+  run(ctx) {
+    const [slug, outputArg] = ctx.args;
+    const registry = ctx.registry();
+    const example = registry.bySlug.get(slug);
+    if (!example) {
+      throw new UsageError(
+        `Unknown example: ${slug}\nAvailable examples: ${registry.examples.map((ex) => ex.slug).join(", ")}`,
+      );
+    }
+
+    const planErrors = deployPlanErrors(ctx.rootDir, registry, [example]);
+    if (planErrors.length > 0) {
+      throw new CliError(
+        `Invalid @custom:deploy-plan, fix it before generating:\n${planErrors.map(formatDiagnostic).join("\n")}`,
+      );
+    }
+
+    const exercise = Boolean(ctx.options.exercise);
+    const outputDir = path.resolve(ctx.rootDir, outputArg ?? path.join("output", slug));
+    if (ctx.options["dry-run"]) {
+      if (ctx.options.update) throw new UsageError("--dry-run cannot be combined with --update");
+      const plan = planExample(ctx.rootDir, example, ctx.logger, { exercise, offline: true });
+      const files = describeFilePlan(plan, ctx.rootDir);
+      ctx.print(`File plan for ${slug} (${outputDir}):`);
+      ctx.print(formatFilePlan(files));
+      return { result: { example: slug, outputDir, exercise, dryRun: true, files } };
+    }
+    if (ctx.options.update) {
+      if (exercise) {
+        throw new UsageError(
+          "--exercise cannot be combined with --update (the repo's manifest records its mode)",
+        );
+      }
+      if (!fs.existsSync(outputDir)) {
+        throw new UsageError(`Nothing to update, directory does not exist: ${outputDir}`);
+      }
+      const report = updateExample(ctx.rootDir, example, outputDir, ctx.logger);
+      printUpdateReport(ctx, report);
+      return {
+        result: { example: slug, outputDir, ...report },
+        exitCode: report.conflicts.length > 0 ? EXIT_FAILURE : undefined,
+      };
+    }
+
+    createExample(ctx.rootDir, example, outputDir, ctx.logger, { exercise });
+    return { result: { example: slug, outputDir, exercise } };
+  },
+};
@@ -0,0 +1,65 @@
+import { deployPlanErrors, type ExampleMeta } from "../example-registry";
+import { CliError, type CommandDefinition, UsageError } from "../lib/cli";
+import { formatDiagnostic } from "../lib/metadata-schema";
+
+export const deployPlanCommand: CommandDefinition = {
+  name: "deploy-plan",
+  summary: "Execute example deploy plans on the in-process Hardhat network",
+  description:
+    "Interpret an example's @custom:deploy-plan directly against the in-process Hardhat network with the fhEVM mock: deploy each step, print addresses and run afterDeploy lines. No standalone repo is generated.",
+  arguments: [
+    { name: "action", description: "run", required: true },
+    { name: "slug", description: "Example slug (omit with --all)" },
+  ],
+  options: [{ name: "all", description: "Run the deploy plan of every example" }],
+  examples: ["fhevm-hub deploy-plan run compliant-erc20", "fhevm-hub deploy-plan run --all --json"],
+  async run(ctx) {
+    const [action, slug] = ctx.args;
+    if (action !== "run") {
+      throw new UsageError(`Unknown deploy-plan action: ${action} (expected run)`);
+    }
+    if (!slug && ctx.options.all !== true) {
+      throw new UsageError("Pass an example slug or --all");
+    }
+
+    const registry = ctx.registry();
+    let examples: ExampleMeta[] = registry.examples;
+    if (slug) {
+      const example = registry.bySlug.get(slug);
+      if (!example) {
+        throw new UsageError(
+          `Unknown example: ${slug}\nAvailable examples: ${registry.examples.map((ex) => ex.slug).join(", ")}`,
+        );
+      }
+      examples = [example];
+    }
+
+    const planErrors = deployPlanErrors(ctx.rootDir, registry, examples);
+    if (planErrors.length > 0) {
+      throw new CliError(
+        `Invalid @custom:deploy-plan, fix it before running:\n${planErrors.map(formatDiagnostic).join("\n")}`,
+      );
+    }
+
+    // Hardhat reads its config from the working directory and is slow to load, so it is only
+    // required once a plan is actually run.
+    process.env.HARDHAT_NETWORK = "hardhat";
+    process.chdir(ctx.rootDir);
+    const [{ default: hre }, { runDeployPlan }] = await Promise.all([
+      import("hardhat"),
+      import("../deploy-plan-runner"),
+    ]);
+
+    const results = [];
+    for (const example of examples) {
+      const deployed = await runDeployPlan(hre, example, ctx.logger);
+      for (const entry of deployed) {
+        ctx.print(`${example.slug}  ${entry.variable}  ${entry.contract}  ${entry.address}`);
+      }
+      results.push({ example: example.slug, deployed });
+    }
+
+    ctx.logger.info(`\n✓ ${examples.length} deploy plan(s) ran successfully`);
+    return { result: results };
+  },
+};
@@ -0,0 +1,58 @@
+import * as path from "node:path";
+
+import { type CommandDefinition, EXIT_FAILURE } from "../lib/cli";
+import { applyDependencyUpdates, checkDependencies } from "../update-deps";
+
+export const depsCommand: CommandDefinition = {
+  name: "deps",
+  summary: "Check or update core dependency versions in generated repos",
+  description:
+    "Compare @fhevm/* and OpenZeppelin versions of repos under ./output with the hub. Exits with 1 when any repo is outdated, unless --apply is given.",
+  options: [{ name: "apply", description: "Update package.json in generated repos" }],
+  examples: ["fhevm-hub deps", "fhevm-hub deps --apply"],
+  run(ctx) {
+    if (ctx.options.apply) {
+      const updated = applyDependencyUpdates(ctx.rootDir);
+      for (const repo of updated) {
+        ctx.logger.info(`  ✓ Updated ${path.basename(repo)}`);
+      }
+      ctx.logger.info(
+        updated.length > 0
+          ? "\nDone. Run 'npm install' in each repo to apply changes."
+          : "No generated repos needed updates.",
+      );
+      return { result: { updated } };
+    }
+
+    const report = checkDependencies(ctx.rootDir);
+    ctx.logger.info("Hub dependency versions:");
+    ctx.logger.info("========================");
+    for (const [dep, version] of Object.entries(report.hubVersions)) {
+      ctx.logger.info(`  ${dep}: ${version}`);
+    }
+
+    if (report.repos.length === 0) {
+      ctx.logger.info("\nNo generated repos found in output/");
+      return { result: report };
+    }
+
+    ctx.logger.info(`\nChecking ${report.repos.length} generated repos...`);
+    const outdated = report.repos.filter((repo) => repo.issues.length > 0);
+    for (const repo of outdated) {
+      ctx.print(`\n${path.basename(repo.repo)}:`);
+      for (const issue of repo.issues) {
+        ctx.print(`  ⚠ ${issue.dependency}: ${issue.repoVersion} → ${issue.hubVersion}`);
+      }
+    }
+
+    if (outdated.length === 0) {
+      ctx.logger.info("\n✓ All generated repos are up to date");
+      return { result: report };
+    }
+
+    ctx.print(`\n${outdated.length} repo(s) have outdated dependencies`);
+    ctx.print("Run with --apply to update, or regenerate repos with:");
+    ctx.print("  npm run create <name> ./output/<name>");
+    return { result: report, exitCode: EXIT_FAILURE };
+  },
+};
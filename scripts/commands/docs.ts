@@ -0,0 +1,137 @@
+import { spawnSync } from "node:child_process";
+import * as path from "node:path";
+
+import { generateCatalog } from "../generate-catalog";
+import { generateGitbook } from "../generate-gitbook";
+import { generateSummary } from "../generate-summary";
+import { affectedSince, describeAffected } from "../lib/affected-examples";
+import { CliError, type CommandDefinition, UsageError } from "../lib/cli";
+import { buildExampleGraph, examplesShowing } from "../lib/example-graph";
+
+const DOC_STEPS = ["docgen", "gitbook", "summary", "catalog"] as const;
+type DocStep = (typeof DOC_STEPS)[number];
+
+function parseSteps(raw: string): DocStep[] {
+  const steps = raw
+    .split(",")
+    .map((step) => step.trim())
+    .filter(Boolean);
+  for (const step of steps) {
+    if (!DOC_STEPS.includes(step as DocStep)) {
+      throw new UsageError(`Unknown docs step: ${step} (expected ${DOC_STEPS.join(", ")})`);
+    }
+  }
+  return steps as DocStep[];
+}
+
+export const docsCommand: CommandDefinition = {
+  name: "docs",
+  summary: "Regenerate GitBook docs, SUMMARY.md and catalog.json",
+  description:
+    "Regenerate documentation. Without a slug (or with --all) runs Solidity docgen and rebuilds every page; with a slug only that example's category pages are rebuilt. With --since, only the pages of examples affected by changes since the ref and of the examples linked to them in the dependency graph, plus docgen when a contract changed (everything when generators or the template changed).",
+  arguments: [{ name: "slug", description: "Only regenerate this example" }],
+  options: [
+    { name: "all", description: "Regenerate everything, including the API reference" },
+    {
+      name: "only",
+      valueName: "steps",
+      description: `Comma-separated subset of steps to run (${DOC_STEPS.join(", ")})`,
+    },
+    {
+      name: "since",
+      valueName: "git-ref",
+      description: "Only regenerate the pages of examples affected by changes since this ref",
+    },
+  ],
+  examples: [
+    "fhevm-hub docs",
+    "fhevm-hub docs fhe-counter",
+    "fhevm-hub docs --only catalog",
+    "fhevm-hub docs --since origin/main",
+  ],
+  run(ctx) {
+    const slug = ctx.options.all ? undefined : ctx.args[0];
+    const registry = ctx.registry();
+    if (slug && !registry.bySlug.has(slug)) {
+      throw new UsageError(`Unknown example: ${slug}`);
+    }
+
+    // Examples whose pages are rebuilt; undefined rebuilds them all.
+    let examples = slug ? [slug] : undefined;
+    // Whether the Solidity API reference is out of date too.
+    let docgen = !examples;
+    const since = typeof ctx.options.since === "string" ? ctx.options.since : undefined;
+    if (since) {
+      if (slug || ctx.options.all)
+        throw new UsageError("--since cannot be combined with a slug or --all");
+      const affected = affectedSince(ctx.rootDir, registry, since);
+      ctx.logger.info(describeAffected(since, affected));
+      if (!affected.global) {
+        // The dependency diagrams of linked examples show the affected ones too.
+        const affectedSlugs = affected.examples.map((example) => example.slug);
+        const showing = examplesShowing(buildExampleGraph(ctx.rootDir, registry), affectedSlugs);
+        examples = registry.examples
+          .map((example) => example.slug)
+          .filter((candidate) => showing.has(candidate));
+        const linked = examples.filter((candidate) => !affectedSlugs.includes(candidate));
+        if (linked.length > 0) {
+          ctx.logger.info(`Also regenerating the pages linking to them: ${linked.join(", ")}`);
+        }
+        docgen = affected.changedFiles.some(
+          (file) => file.startsWith("contracts/") && file.endsWith(".sol"),
+        );
+      }
+    }
+
+    const defaultSteps: DocStep[] = docgen
+      ? ["docgen", "gitbook", "summary", "catalog"]
+      : ["gitbook", "summary", "catalog"];
+    const steps =
+      typeof ctx.options.only === "string" ? parseSteps(ctx.options.only) : defaultSteps;
+    const docsDir = path.join(ctx.rootDir, "docs");
+    const written: string[] = [];
+
+    if (steps.includes("docgen")) {
+      ctx.logger.info("Generating Solidity API reference...");
+      const result = spawnSync("npm", ["run", "docgen"], {
+        cwd: ctx.rootDir,
+        stdio: ["inherit", ctx.quiet ? "ignore" : "inherit", "inherit"],
+      });
+      if (result.error) {
+        throw new CliError(result.error.message);
+      }
+      if (result.status !== 0) {
+        throw new CliError(`npm run docgen failed with exit code ${result.status}`);
+      }
+    }
+
+    if (steps.includes("gitbook")) {
+      const pages = generateGitbook(ctx.rootDir, registry, { examples });
+      written.push(...pages.map((page) => path.join(docsDir, page)));
+      ctx.logger.info(
+        examples
+          ? `Generated GitBook docs for ${examples.length > 0 ? examples.join(", ") : "shared pages only"}`
+          : "Generated GitBook docs from registry",
+      );
+    }
+
+    if (steps.includes("summary")) {
+      written.push(generateSummary(docsDir));
+      ctx.logger.info("Generated SUMMARY.md from docs/ file structure");
+    }
+
+    if (steps.includes("catalog")) {
+      written.push(generateCatalog(ctx.rootDir, registry));
+      ctx.logger.info("Generated docs/catalog.json");
+    }
+
+    return {
+      result: {
+        steps,
+        example: slug ?? null,
+        examples: examples ?? null,
+        files: written.map((file) => path.relative(ctx.rootDir, file)),
+      },
+    };
+  },
+};
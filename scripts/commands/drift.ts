@@ -0,0 +1,62 @@
+import * as path from "node:path";
+
+import { detectDrift, findGeneratedRepos } from "../detect-drift";
+import { type CommandDefinition, EXIT_FAILURE } from "../lib/cli";
+
+const KIND_LABELS = {
+  upstream: "upstream change",
+  local: "local edit",
+  both: "upstream change + local edit",
+} as const;
+
+export const driftCommand: CommandDefinition = {
+  name: "drift",
+  summary: "Compare generated repos with what the hub generates today",
+  description:
+    "Find generated repos (by their .fhevm-example.json) under the given directories, regenerate each example and report per-file drift as upstream change, local edit or both. Exits with 1 when a repo is behind the hub (upstream changes) or cannot be compared.",
+  arguments: [
+    {
+      name: "dir",
+      description: "Directories to search for generated repos (default: ./output)",
+      variadic: true,
+    },
+  ],
+  examples: ["fhevm-hub drift", "fhevm-hub drift ~/projects ./output"],
+  run(ctx) {
+    const searchDirs =
+      ctx.args.length > 0
+        ? ctx.args.map((dir) => path.resolve(dir))
+        : [path.join(ctx.rootDir, "output")];
+    const repos = findGeneratedRepos(searchDirs);
+    if (repos.length === 0) {
+      ctx.logger.info(`No generated repos found in ${searchDirs.join(", ")}`);
+      return { result: [] };
+    }
+
+    ctx.logger.info(`Checking ${repos.length} generated repo(s)...`);
+    const report = detectDrift(ctx.rootDir, ctx.registry(), repos);
+
+    let behind = 0;
+    for (const repo of report) {
+      const upstream = repo.files.some((file) => file.kind !== "local");
+      if (repo.error || upstream) behind += 1;
+      if (!repo.error && repo.files.length === 0) {
+        ctx.logger.info(`\n✓ ${repo.repo} (${repo.slug})`);
+        continue;
+      }
+      ctx.print(`\n${repo.repo}${repo.slug ? ` (${repo.slug})` : ""}:`);
+      if (repo.error) ctx.print(`  ✗ ${repo.error}`);
+      for (const file of repo.files) {
+        ctx.print(`  ${file.file}: ${KIND_LABELS[file.kind]}`);
+      }
+    }
+
+    if (behind === 0) {
+      ctx.logger.info("\n✓ No generated repo is behind the hub");
+      return { result: report };
+    }
+    ctx.print(`\n${behind} repo(s) are behind the hub or could not be compared`);
+    ctx.print("Pull hub changes with: npm run create <slug> <dir> -- --update");
+    return { result: report, exitCode: EXIT_FAILURE };
+  },
+};
@@ -0,0 +1,81 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { type CommandDefinition, EXIT_FAILURE, UsageError } from "../lib/cli";
+import {
+  buildExampleGraph,
+  type ExampleGraph,
+  exampleSubgraph,
+  formatDot,
+  formatMermaid,
+} from "../lib/example-graph";
+
+const FORMATS = ["json", "dot", "mermaid"] as const;
+type GraphFormat = (typeof FORMATS)[number];
+
+function formatGraph(graph: ExampleGraph, format: GraphFormat): string {
+  if (format === "dot") return formatDot(graph);
+  if (format === "mermaid") return formatMermaid(graph);
+  return `${JSON.stringify(graph, null, 2)}\n`;
+}
+
+export const graphCommand: CommandDefinition = {
+  name: "graph",
+  summary: "Export the example dependency graph and check it for cycles and orphans",
+  description:
+    "Print the graph of examples and the helpers, mocks and contracts they use (edges: helper, mock, extra, depends-on) as JSON, Graphviz DOT or Mermaid. Reports examples depending on each other in a cycle and helpers or mocks no example uses; with --check, exits with 1 when there are any.",
+  arguments: [{ name: "slug", description: "Only this example's neighbourhood" }],
+  options: [
+    {
+      name: "format",
+      valueName: "format",
+      description: `Output format (${FORMATS.join(", ")}; default: mermaid)`,
+    },
+    { name: "output", valueName: "file", description: "Write the graph to a file" },
+    { name: "check", description: "Exit with 1 on cycles or orphans" },
+  ],
+  examples: [
+    "fhevm-hub graph",
+    "fhevm-hub graph --format dot --output graph.dot",
+    "fhevm-hub graph blind-auction",
+    "fhevm-hub graph --check --json",
+  ],
+  run(ctx) {
+    const [slug] = ctx.args;
+    const format = (
+      typeof ctx.options.format === "string" ? ctx.options.format : "mermaid"
+    ) as GraphFormat;
+    if (!FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format: ${format} (expected ${FORMATS.join(", ")})`);
+    }
+    const registry = ctx.registry();
+    if (slug && !registry.bySlug.has(slug)) {
+      throw new UsageError(`Unknown example: ${slug}`);
+    }
+
+    const fullGraph = buildExampleGraph(ctx.rootDir, registry);
+    const graph = slug ? exampleSubgraph(fullGraph, slug) : fullGraph;
+    const output = typeof ctx.options.output === "string" ? ctx.options.output : undefined;
+    if (output) {
+      const outputPath = path.resolve(ctx.rootDir, output);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, formatGraph(graph, format));
+      ctx.logger.info(
+        `Wrote ${graph.nodes.length} nodes and ${graph.edges.length} edges to ${outputPath}`,
+      );
+    } else {
+      ctx.print(formatGraph(graph, format).trimEnd());
+    }
+
+    for (const cycle of graph.cycles) {
+      ctx.logger.warn(`Cycle: ${[...cycle, cycle[0]].join(" -> ")}`);
+    }
+    for (const orphan of graph.orphans) {
+      ctx.logger.warn(`Orphan: ${orphan} (no example uses it)`);
+    }
+
+    const failed =
+      ctx.options.check === true && (graph.cycles.length > 0 || graph.orphans.length > 0);
+    return { result: graph, exitCode: failed ? EXIT_FAILURE : undefined };
+  },
+};
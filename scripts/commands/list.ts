@@ -0,0 +1,59 @@
+import { type CommandDefinition, UsageError } from "../lib/cli";
+
+const LIST_TARGETS = ["examples", "categories"] as const;
+
+export const listCommand: CommandDefinition = {
+  name: "list",
+  summary: "List examples or categories",
+  arguments: [{ name: "target", description: "examples (default) or categories" }],
+  options: [
+    { name: "category", valueName: "name", description: "Only list examples in this category" },
+  ],
+  examples: [
+    "fhevm-hub list",
+    "fhevm-hub list categories",
+    "fhevm-hub list --category basic --json",
+  ],
+  run(ctx) {
+    const target = ctx.args[0] ?? "examples";
+    if (!LIST_TARGETS.includes(target as (typeof LIST_TARGETS)[number])) {
+      throw new UsageError(
+        `Unknown list target: ${target} (expected ${LIST_TARGETS.join(" or ")})`,
+      );
+    }
+
+    const registry = ctx.registry();
+
+    if (target === "categories") {
+      const categories = Array.from(registry.categories.entries()).map(([name, examples]) => ({
+        name,
+        examples: examples.length,
+      }));
+      for (const category of categories) {
+        ctx.print(category.name);
+      }
+      return { result: categories };
+    }
+
+    const categoryFilter = ctx.options.category;
+    if (typeof categoryFilter === "string" && !registry.categories.has(categoryFilter)) {
+      throw new UsageError(`Unknown category: ${categoryFilter}`);
+    }
+    const examples = registry.examples
+      .filter(
+        (example) => typeof categoryFilter !== "string" || example.category === categoryFilter,
+      )
+      .map((example) => ({
+        slug: example.slug,
+        title: example.title,
+        category: example.category,
+        difficulty: example.difficulty,
+        concept: example.concept,
+      }));
+
+    for (const example of examples) {
+      ctx.print(`${example.slug} - ${example.title} (${example.difficulty})`);
+    }
+    return { result: examples };
+  },
+};
@@ -0,0 +1,33 @@
+import { TEST_COVERAGES, validateRegistryMetadata } from "../example-registry";
+import { type CommandDefinition, EXIT_FAILURE } from "../lib/cli";
+import { formatDiagnostic } from "../lib/metadata-schema";
+
+export const metadataCommand: CommandDefinition = {
+  name: "metadata",
+  summary: "Validate @custom:* NatSpec metadata against the schema",
+  description:
+    "Check every example's NatSpec tags (category, chapter, concept, difficulty, depends-on, deploy-plan, test) and report file, line, tag and problem. Also warns about examples without a dedicated test: none found, shared with another example, or never deploying the contract by name. Exits with 1 on any error, or on warnings with --strict.",
+  options: [{ name: "strict", description: "Treat warnings (e.g. unknown tags) as errors" }],
+  examples: ["fhevm-hub metadata", "fhevm-hub metadata --strict --json"],
+  run(ctx) {
+    const report = validateRegistryMetadata(ctx.registry(), {
+      strict: ctx.options.strict === true,
+    });
+
+    for (const diagnostic of report.diagnostics) {
+      ctx.print(formatDiagnostic(diagnostic));
+    }
+
+    const coverage = TEST_COVERAGES.filter((name) => report.testCoverage[name] > 0)
+      .map((name) => `${report.testCoverage[name]} ${name}`)
+      .join(", ");
+    const summary = `${report.examples} examples checked: ${report.errors} error(s), ${report.warnings} warning(s); tests: ${coverage}`;
+    if (!report.ok) {
+      ctx.print(`\n${summary}`);
+    } else {
+      ctx.logger.info(`${report.diagnostics.length > 0 ? "\n" : ""}✓ ${summary}`);
+    }
+
+    return { result: report, exitCode: report.ok ? undefined : EXIT_FAILURE };
+  },
+};
@@ -0,0 +1,39 @@
+import * as path from "node:path";
+
+import { loadExampleRegistry } from "../example-registry";
+import { type CommandDefinition, UsageError } from "../lib/cli";
+
+export const registryCommand: CommandDefinition = {
+  name: "registry",
+  summary: "Build the cached example registry",
+  description:
+    "Parse contracts and tests into .cache/registry.json. Unchanged files (same content hash) are reused; --no-cache re-parses everything and rewrites the cache.",
+  arguments: [{ name: "action", description: "build (default)" }],
+  examples: ["fhevm-hub registry build", "fhevm-hub registry build --no-cache --json"],
+  run(ctx) {
+    const action = ctx.args[0] ?? "build";
+    if (action !== "build") {
+      throw new UsageError(`Unknown registry action: ${action} (expected build)`);
+    }
+
+    const registry = loadExampleRegistry(ctx.rootDir, { cache: true, refresh: ctx.noCache });
+    const { cacheFile, parsed, reused } = registry.cacheStats;
+    const relativeCacheFile = cacheFile ? path.relative(ctx.rootDir, cacheFile) : undefined;
+
+    ctx.logger.info(
+      `Registry: ${registry.examples.length} examples in ${registry.categories.size} categories`,
+    );
+    ctx.logger.info(`Files: ${parsed} parsed, ${reused} reused from cache`);
+    ctx.logger.info(`Cache: ${relativeCacheFile}`);
+
+    return {
+      result: {
+        examples: registry.examples.length,
+        categories: registry.categories.size,
+        parsed,
+        reused,
+        cacheFile: relativeCacheFile,
+      },
+    };
+  },
+};
@@ -0,0 +1,107 @@
+import * as path from "node:path";
+
+import { affectedSince, describeAffected } from "../lib/affected-examples";
+import { type CommandDefinition, EXIT_FAILURE, UsageError } from "../lib/cli";
+import { validateAll } from "../validate-all";
+
+function positiveInteger(raw: string, option: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new UsageError(`--${option} expects a positive integer, got: ${raw}`);
+  }
+  return value;
+}
+
+export const validateAllCommand: CommandDefinition = {
+  name: "validate-all",
+  summary: "Generate, install and test every example's repo concurrently",
+  description:
+    "Generate each example's standalone repo, install it and run its tests, several at a time. Installs share one npm cache and a lockfile seeded by the first example. Failures do not stop the run (unless --bail); each example gets a log, and report.json plus a JUnit report.xml are written to the output dir. Exits with 1 when an example fails.",
+  options: [
+    {
+      name: "examples",
+      valueName: "slugs",
+      description: "Comma-separated examples to validate (default: all)",
+    },
+    {
+      name: "since",
+      valueName: "git-ref",
+      description: "Validate only the examples affected by changes since this ref",
+    },
+    {
+      name: "workers",
+      valueName: "n",
+      description: "Examples validated at once (default: half the CPUs)",
+    },
+    { name: "bail", description: "Skip the remaining examples after the first failure" },
+    { name: "offline", description: "Install from the npm cache only" },
+    { name: "npm-cache", valueName: "dir", description: "npm cache directory shared by installs" },
+    {
+      name: "timeout",
+      valueName: "seconds",
+      description: "Timeout of each install and test step (default: 900)",
+    },
+    {
+      name: "output",
+      valueName: "dir",
+      description: "Repos, logs and reports (default: ./test-output/validate-all)",
+    },
+  ],
+  examples: [
+    "fhevm-hub validate-all",
+    "fhevm-hub validate-all --workers 4 --npm-cache ~/.npm-fhevm",
+    "fhevm-hub validate-all --examples fhe-counter,blind-auction --bail --json",
+    "fhevm-hub validate-all --since origin/main",
+  ],
+  async run(ctx) {
+    const option = (name: string) =>
+      typeof ctx.options[name] === "string" ? (ctx.options[name] as string) : undefined;
+    const registry = ctx.registry();
+    let examples = option("examples")
+      ?.split(",")
+      .map((slug) => slug.trim())
+      .filter(Boolean);
+    const unknown = (examples ?? []).filter((slug) => !registry.bySlug.has(slug));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown example(s): ${unknown.join(", ")}`);
+    }
+    const since = option("since");
+    if (since) {
+      if (examples) throw new UsageError("--since cannot be combined with --examples");
+      const affected = affectedSince(ctx.rootDir, registry, since);
+      ctx.logger.info(describeAffected(since, affected));
+      examples = affected.examples.map((example) => example.slug);
+    }
+
+    const workers = option("workers");
+    const timeout = option("timeout");
+    const output = option("output");
+    const outputDir = path.resolve(ctx.rootDir, output ?? path.join("test-output", "validate-all"));
+    const report = await validateAll(
+      ctx.rootDir,
+      registry,
+      {
+        examples,
+        workers: workers ? positiveInteger(workers, "workers") : undefined,
+        bail: ctx.options.bail === true,
+        offline: ctx.options.offline === true,
+        npmCache: option("npm-cache"),
+        timeoutMs: timeout ? positiveInteger(timeout, "timeout") * 1000 : undefined,
+        outputDir,
+      },
+      ctx.logger,
+    );
+
+    const summary = `${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped in ${(report.durationMs / 1000).toFixed(1)}s`;
+    ctx.print(`\n${summary}`);
+    for (const result of report.examples.filter((example) => example.status === "failed")) {
+      ctx.print(
+        `  ✘ ${result.slug}: ${result.message} (log: ${path.join(outputDir, result.log ?? "")})`,
+      );
+    }
+    ctx.print(
+      `Reports: ${path.join(outputDir, "report.json")}, ${path.join(outputDir, "report.xml")}`,
+    );
+    return { result: report, exitCode: report.failed > 0 ? EXIT_FAILURE : undefined };
+  },
+};
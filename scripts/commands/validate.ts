@@ -0,0 +1,75 @@
+import * as path from "node:path";
+
+import { affectedSince, describeAffected } from "../lib/affected-examples";
+import { type CommandDefinition, EXIT_FAILURE, UsageError } from "../lib/cli";
+import { validateHub } from "../validate";
+
+export const validateCommand: CommandDefinition = {
+  name: "validate",
+  summary: "Run verify, docs and generated-repo smoke tests",
+  description:
+    "Repeatable end-to-end validation: lint + typecheck + compile + tests, docs generation, then generate and test a few standalone repos. Stops at the first failing step; command output goes to test-output/validate/logs/ and the failing step's last lines are printed. Exits with 1 when a step fails.",
+  options: [
+    { name: "clean", description: "Remove build artifacts before validating" },
+    { name: "scratch", description: "Like --clean, and reinstall node_modules" },
+    { name: "from-scratch", description: "Alias of --scratch" },
+    { name: "no-docs", description: "Skip docs generation" },
+    { name: "no-generated", description: "Skip the generated-repo smoke tests" },
+    {
+      name: "examples",
+      valueName: "slugs",
+      description: "Comma-separated examples to smoke-test (default: the first two)",
+    },
+    {
+      name: "since",
+      valueName: "git-ref",
+      description: "Smoke-test only the examples affected by changes since this ref",
+    },
+  ],
+  examples: [
+    "fhevm-hub validate --clean",
+    "fhevm-hub validate --examples fhe-counter,fhe-add",
+    "fhevm-hub validate --since origin/main",
+  ],
+  run(ctx) {
+    const registry = ctx.registry();
+    const since = typeof ctx.options.since === "string" ? ctx.options.since : undefined;
+    let examples =
+      typeof ctx.options.examples === "string"
+        ? ctx.options.examples
+            .split(",")
+            .map((slug) => slug.trim())
+            .filter(Boolean)
+        : undefined;
+    if (since) {
+      if (examples) throw new UsageError("--since cannot be combined with --examples");
+      const affected = affectedSince(ctx.rootDir, registry, since);
+      ctx.logger.info(describeAffected(since, affected));
+      examples = affected.examples.map((example) => example.slug);
+    }
+
+    const unknown = (examples ?? []).filter((slug) => !registry.bySlug.has(slug));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown example(s): ${unknown.join(", ")}`);
+    }
+
+    const report = validateHub(
+      ctx.rootDir,
+      registry,
+      {
+        scratch: ctx.options.scratch === true || ctx.options["from-scratch"] === true,
+        clean: ctx.options.clean === true,
+        noDocs: ctx.options["no-docs"] === true,
+        noGenerated: ctx.options["no-generated"] === true,
+        examples,
+      },
+      ctx.logger,
+    );
+    const failed = report.steps.find((step) => step.status === "failed");
+    if (failed) {
+      if (failed.outputTail) ctx.logger.warn(failed.outputTail);
+      if (failed.log) ctx.logger.warn(`Full output: ${path.join(ctx.rootDir, failed.log)}`);
+    }
+    return { result: report, exitCode: report.ok ? undefined : EXIT_FAILURE };
+  },
+};
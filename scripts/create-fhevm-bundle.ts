@@ -0,0 +1,241 @@
+/**
+ * @title Create fhEVM Bundle
+ * @description Generates one repository combining any selection of examples
+ *
+ * Usage: npm run create:bundle [output-directory] -- --examples a,b,c | --chapter <chapter> |
+ *        --difficulty <level> [--name <name>] [--dry-run]
+ * (dispatched through the `bundle` command in `fhevm-hub.ts`)
+ *
+ * This script:
+ * 1. Scaffolds each selected example like `create` would (`lib/scaffold.ts`)
+ * 2. Merges their contracts and tests into one repo, writing shared helpers once and moving
+ *    clashing files under the example's slug (`lib/example-bundle.ts`)
+ * 3. Generates one package.json (union of the examples' dependencies)
+ * 4. Generates one deploy script running every example's deploy plan in turn
+ * 5. Generates a combined README
+ *
+ * A bundle is not the standalone repo of any one example, so it gets no generation manifest
+ * (`drift` and `create --update` do not apply to it).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import {
+  generateDeployScriptForExample,
+  mergeDeployPlans,
+  normalizePlan,
+  toVarName,
+} from "./deploy-script-generators";
+import type { ExampleMeta } from "./example-registry";
+import { CliError } from "./lib/cli";
+import { type BundleRename, type MergedBundle, mergeExamplePlans } from "./lib/example-bundle";
+import { type FilePlan, planGenerated, writeFilePlan } from "./lib/file-plan";
+import { resolveGeneratorSteps } from "./lib/generator-pipeline";
+import { formatPackageJson } from "./lib/json-format";
+import { consoleLogger, type Logger, silentLogger } from "./lib/logger";
+import { assertEmptyDirectory, scaffoldExample } from "./lib/scaffold";
+
+export type BundleOptions = {
+  /** Plan only what is already on disk (`--dry-run`); see `ScaffoldOptions.offline`. */
+  offline?: boolean;
+};
+
+type PackageJson = {
+  keywords?: string[];
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+};
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** The first example's package.json with the union of every example's keywords and dependencies. */
+function mergePackageJson(name: string, plans: FilePlan[], examples: ExampleMeta[]): string {
+  const packages = plans.map((plan, index) => {
+    const file = plan.get("package.json");
+    if (!file) throw new CliError(`Bundle example ${examples[index].slug} has no package.json`);
+    return JSON.parse(file.content.toString()) as PackageJson;
+  });
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  for (const pkg of packages) {
+    Object.assign(dependencies, pkg.dependencies);
+    Object.assign(devDependencies, pkg.devDependencies);
+  }
+  for (const dep of Object.keys(dependencies)) delete devDependencies[dep];
+
+  return formatPackageJson({
+    ...packages[0],
+    name: `fhevm-examples-${name}`,
+    description: `fhEVM examples: ${examples.map((example) => example.title).join(", ")}`,
+    keywords: [...new Set(packages.flatMap((pkg) => pkg.keywords ?? []))],
+    dependencies: sortKeys(dependencies),
+    devDependencies: sortKeys(devDependencies),
+  });
+}
+
+function generateBundleReadme(
+  name: string,
+  examples: ExampleMeta[],
+  renamed: BundleRename[],
+  variables: Map<string, string[]>,
+): string {
+  const rows = examples
+    .map(
+      (ex) =>
+        `| ${ex.title} | \`contracts/${path.basename(ex.contractFile)}\` | ${ex.concept} | ${ex.difficulty} |`,
+    )
+    .join("\n");
+  const sections = examples
+    .map((ex) => {
+      const test = ex.testFile ? `\`test/${path.basename(ex.testFile)}\`` : "(no test)";
+      return `### ${ex.title}
+
+${ex.notice ?? ex.concept}
+
+- Contract: \`contracts/${path.basename(ex.contractFile)}\`
+- Test: ${test}
+- Deployed as: ${(variables.get(ex.slug) ?? []).map((variable) => `\`${variable}\``).join(", ")}`;
+    })
+    .join("\n\n");
+  const clashes =
+    renamed.length === 0
+      ? ""
+      : `
+## Renamed Files
+
+These files differ between examples, so the later example's copy lives under its slug. Contracts
+declared in both copies share a name: refer to them by fully qualified name
+(\`contracts/<slug>/File.sol:Name\`) in tests and scripts.
+
+${renamed.map((entry) => `- \`${entry.from}\` of ${entry.slug} → \`${entry.to}\``).join("\n")}
+`;
+
+  return `# fhEVM Examples: ${name}
+
+${examples.length} fhEVM examples in one repository.
+
+| Example | Contract | Concept | Difficulty |
+|---------|----------|---------|------------|
+${rows}
+
+## Quick Start
+
+\`\`\`bash
+npm install
+npm run compile
+npm run test:mocked
+\`\`\`
+
+## Deploying
+
+\`scripts/deploy.ts\` runs the deploy plan of every example in the order above and records each
+contract in \`deployments/<network>.json\`:
+
+\`\`\`bash
+npm run deploy:localhost
+npm run deploy -- --network sepolia
+\`\`\`
+
+Helpers shared by several examples are deployed once per example, so every example gets its own
+instances; variables that clash with an earlier example are prefixed with the example's name.
+
+## Examples
+
+${sections}
+${clashes}
+## Learn More
+
+- [Zama fhEVM Documentation](https://docs.zama.ai/fhevm)
+
+## License
+
+MIT
+`;
+}
+
+/** Plans the merged repository of `examples` without writing anything. */
+export function planBundle(
+  rootDir: string,
+  name: string,
+  examples: ExampleMeta[],
+  logger: Logger = consoleLogger,
+  options: BundleOptions = {},
+): MergedBundle {
+  const steps = resolveGeneratorSteps(rootDir);
+  const { offline = false } = options;
+  const plans = examples.map((example) =>
+    scaffoldExample(example, "", { rootDir, logger, steps, dryRun: true, offline }),
+  );
+  const merged = mergeExamplePlans(
+    examples.map((example, index) => ({ example, plan: plans[index] })),
+  );
+
+  const deployPlans = examples.map((example) => ({
+    id: example.slug,
+    steps: normalizePlan({
+      contract: path.basename(example.contractFile),
+      deployPlan: example.deployPlan,
+    }),
+  }));
+  const deploySteps = mergeDeployPlans(deployPlans);
+  const variables = new Map<string, string[]>();
+  let offset = 0;
+  for (const plan of deployPlans) {
+    const planSteps = deploySteps.slice(offset, offset + plan.steps.length);
+    variables.set(
+      plan.id,
+      planSteps.map((step) => step.saveAs ?? toVarName(step.contract)),
+    );
+    offset += plan.steps.length;
+  }
+
+  planGenerated(merged.plan, "package.json", mergePackageJson(name, plans, examples));
+  planGenerated(
+    merged.plan,
+    "scripts/deploy.ts",
+    generateDeployScriptForExample({
+      contract: path.basename(examples[0].contractFile),
+      deployPlan: deploySteps,
+    }),
+  );
+  planGenerated(
+    merged.plan,
+    "README.md",
+    generateBundleReadme(name, examples, merged.renamed, variables),
+  );
+  return merged;
+}
+
+/**
+ * Generates one repository combining `examples` into `outputDir`.
+ * Throws if `outputDir` already contains files.
+ */
+export function createBundle(
+  rootDir: string,
+  name: string,
+  examples: ExampleMeta[],
+  outputDir: string,
+  logger: Logger = consoleLogger,
+): MergedBundle {
+  logger.info(`Creating bundle: ${name} (${examples.map((example) => example.slug).join(", ")})`);
+  logger.info(`Output directory: ${outputDir}`);
+
+  assertEmptyDirectory(outputDir);
+  const merged = planBundle(rootDir, name, examples, { info: () => {}, warn: logger.warn });
+  for (const entry of merged.renamed) {
+    logger.warn(
+      `  Warning: ${entry.from} differs between examples; ${entry.slug}'s copy: ${entry.to}`,
+    );
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  writeFilePlan(merged.plan, outputDir, silentLogger);
+
+  logger.info("\nBundle created successfully!");
+  return merged;
+}
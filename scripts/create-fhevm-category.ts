@@ -2,44 +2,69 @@
  * @title Create fhEVM Category
  * @description Generates a complete category with all examples and documentation
  *
- * Usage: npm run create:category <category-name> [output-directory]
+ * Usage: npm run create:category <category-name> [output-directory] [--workspace] [--dry-run]
+ * (dispatched through the `category` command in `fhevm-hub.ts`)
  *
  * This script:
  * 1. Creates a category directory with all related examples
  * 2. Generates category-level documentation
  * 3. Creates a SUMMARY.md for GitBook integration
  * 4. Sets up Biome, Solhint, Husky, and VS Code configs for each example
+ * 5. Writes a `.fhevm-example.json` generation manifest into each example
  *
- * Note: Each example is scaffolded from a local Hardhat template directory
- * (typically `base-template/` as a git submodule of `zama-ai/fhevm-hardhat-template`)
- * and then customized.
+ * Each example repo is built by `scaffoldExample` (`lib/scaffold.ts`), exactly as `create` builds
+ * a standalone one (including the baseline for `create --update`). With `--workspace` the repos
+ * are combined into one npm workspaces monorepo instead (`lib/category-workspace.ts`).
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { generateDeployScriptForExample } from "./deploy-script-generators";
-import { type ExampleMeta, loadExampleRegistry } from "./example-registry";
+import type { ExampleMeta } from "./example-registry";
+import { planCategoryWorkspace } from "./lib/category-workspace";
 import {
-  generateBiomeJson,
-  generateCommitlintConfig,
-  generateExampleReadme,
-  generateGitignore,
-  generateHardhatConfig,
-  generateHuskyCommitMsg,
-  generateHuskyPreCommit,
-  generateHuskyPrePush,
-  generateLintStagedConfig,
-  generatePackageJson,
-  generateSolhintIgnore,
-  generateSolhintJson,
-  generateTsConfig,
-  generateVSCodeExtensions,
-  generateVSCodeSettings,
-  getRootPackageVersions,
-} from "./lib/generators";
-import { ensureHardhatTemplateDir } from "./template-utils";
+  addPlan,
+  createFilePlan,
+  type FilePlan,
+  planGenerated,
+  writeFilePlan,
+} from "./lib/file-plan";
+import { resolveGeneratorSteps } from "./lib/generator-pipeline";
+import { consoleLogger, type Logger, silentLogger } from "./lib/logger";
+import { assertEmptyDirectory, scaffoldExample } from "./lib/scaffold";
+
+export type CategoryOptions = {
+  /** One npm workspaces monorepo (hoisted dependencies, shared configs and helpers). */
+  workspace?: boolean;
+  /** Plan only what is already on disk (`--dry-run`); see `ScaffoldOptions.offline`. */
+  offline?: boolean;
+};
+
+const STANDALONE_GETTING_STARTED = `Each example is self-contained and can be run independently:
 
-function generateCategoryReadme(categoryName: string, examples: ExampleMeta[]): string {
+\`\`\`bash
+cd <example-name>
+npm install
+npm run compile
+npm run test:mocked
+\`\`\``;
+
+const WORKSPACE_GETTING_STARTED = `The examples are npm workspaces sharing one install, lint setup and Hardhat config
+(\`hardhat.config.shared.ts\`). From the bundle root:
+
+\`\`\`bash
+npm install
+npm run compile
+npm run test:mocked   # every example
+npm run test:mocked -w fhevm-example-<example-name>   # one example
+\`\`\`
+
+Helper and mock contracts used by several examples live once in \`shared/\`.`;
+
+function generateCategoryReadme(
+  categoryName: string,
+  examples: ExampleMeta[],
+  workspace = false,
+): string {
   const examplesList = examples
     .map((ex) => `| [${ex.title}](./${ex.slug}/README.md) | ${ex.concept} | ${ex.difficulty} |`)
     .join("\n");
@@ -56,14 +81,7 @@ ${examplesList}
 
 ## Getting Started
 
-Each example is self-contained and can be run independently:
-
-\`\`\`bash
-cd <example-name>
-npm install
-npm run compile
-npm run test:mocked
-\`\`\`
+${workspace ? WORKSPACE_GETTING_STARTED : STANDALONE_GETTING_STARTED}
 
 ## Learn More
 
@@ -84,198 +102,105 @@ ${exampleLinks}
 `;
 }
 
-function copyBaseTemplate(rootDir: string, outputDir: string) {
-  const templateDir = ensureHardhatTemplateDir(rootDir);
-
-  if (!fs.existsSync(templateDir)) {
-    throw new Error(`Hardhat template directory not found: ${templateDir}`);
-  }
-
-  const templateContents = fs.readdirSync(templateDir);
-  for (const entry of templateContents) {
-    if (entry === ".git") continue;
-    const srcPath = path.join(templateDir, entry);
-    const destPath = path.join(outputDir, entry);
-
-    if (fs.lstatSync(srcPath).isDirectory()) {
-      fs.mkdirSync(destPath, { recursive: true });
-      fs.cpSync(srcPath, destPath, { recursive: true });
-    } else {
-      fs.copyFileSync(srcPath, destPath);
-    }
-  }
+/** The bundle's own files: the category README and the GitBook SUMMARY.md. */
+function planCategoryIndex(
+  categoryName: string,
+  examples: ExampleMeta[],
+  workspace = false,
+): FilePlan {
+  const plan = createFilePlan();
+  planGenerated(
+    plan,
+    `${categoryName}/README.md`,
+    generateCategoryReadme(categoryName, examples, workspace),
+  );
+  planGenerated(plan, "SUMMARY.md", generateSummary(categoryName, examples));
+  return plan;
 }
 
-function assertEmptyDirectory(dirPath: string) {
-  if (!fs.existsSync(dirPath)) {
-    return;
-  }
-  const entries = fs.readdirSync(dirPath);
-  if (entries.length > 0) {
-    throw new Error(`Output directory is not empty: ${dirPath}`);
-  }
+/** The category's examples combined into one npm workspaces monorepo, plus the index files. */
+function planWorkspaceBundle(
+  rootDir: string,
+  categoryName: string,
+  examples: ExampleMeta[],
+  logger: Logger,
+  offline = false,
+): FilePlan {
+  const steps = resolveGeneratorSteps(rootDir);
+  const members = examples.map((example) => ({
+    slug: example.slug,
+    plan: scaffoldExample(example, "", { rootDir, logger, steps, dryRun: true, offline }),
+  }));
+  const plan = planCategoryWorkspace(categoryName, members);
+  addPlan(plan, planCategoryIndex(categoryName, examples, true));
+  return plan;
 }
 
-function copyFileToDir(src: string, destDir: string) {
-  if (!fs.existsSync(src)) {
-    console.warn(`  Warning: File not found: ${src}`);
-    return;
+/** Plans the whole bundle (category README, SUMMARY.md, one repo per example) without writing. */
+export function planCategory(
+  rootDir: string,
+  categoryName: string,
+  examples: ExampleMeta[],
+  logger: Logger = consoleLogger,
+  options: CategoryOptions = {},
+): FilePlan {
+  const { offline = false } = options;
+  if (options.workspace) {
+    return planWorkspaceBundle(rootDir, categoryName, examples, logger, offline);
   }
-  const destPath = path.join(destDir, path.basename(src));
-  fs.copyFileSync(src, destPath);
-}
 
-function removeDirIfExists(dirPath: string) {
-  if (!fs.existsSync(dirPath)) return;
-  fs.rmSync(dirPath, { recursive: true, force: true });
-}
-
-async function main() {
-  const args = process.argv.slice(2);
-  const rootDir = path.resolve(__dirname, "..");
-  const registry = loadExampleRegistry(rootDir);
-
-  if (args.length < 1) {
-    console.log("Usage: npm run create:category <category-name> [output-directory]");
-    console.log("\nAvailable categories:");
-    for (const category of registry.categories.keys()) {
-      console.log(`  ${category}`);
-    }
-    process.exit(1);
-  }
-
-  const categoryName = args[0];
-  const outputDir = args[1] || `./output/category-${categoryName}`;
-
-  const examples = registry.categories.get(categoryName);
-  if (!examples) {
-    console.error(`Unknown category: ${categoryName}`);
-    console.log("Available categories:", Array.from(registry.categories.keys()).join(", "));
-    process.exit(1);
+  const plan = planCategoryIndex(categoryName, examples);
+  const steps = resolveGeneratorSteps(rootDir);
+  for (const example of examples) {
+    const prefix = `${categoryName}/${example.slug}`;
+    addPlan(
+      plan,
+      scaffoldExample(example, prefix, { rootDir, logger, steps, dryRun: true, offline }),
+      prefix,
+    );
   }
+  return plan;
+}
 
-  console.log(`Creating category: ${categoryName}`);
-  console.log(`Output directory: ${outputDir}`);
+/**
+ * Generates a bundle with one standalone repository per example of `categoryName`, or one
+ * workspaces monorepo with `options.workspace`.
+ * Throws if `outputDir` already contains files.
+ */
+export function createCategory(
+  rootDir: string,
+  categoryName: string,
+  examples: ExampleMeta[],
+  outputDir: string,
+  logger: Logger = consoleLogger,
+  options: CategoryOptions = {},
+): void {
+  logger.info(`Creating category: ${categoryName}${options.workspace ? " (workspace)" : ""}`);
+  logger.info(`Output directory: ${outputDir}`);
 
   assertEmptyDirectory(outputDir);
-
-  // Scaffold top-level structure
   fs.mkdirSync(outputDir, { recursive: true });
-  fs.mkdirSync(path.join(outputDir, categoryName), { recursive: true });
-
-  const categoryDir = path.join(outputDir, categoryName);
-
-  // Generate category README + SUMMARY.md
-  fs.writeFileSync(
-    path.join(categoryDir, "README.md"),
-    generateCategoryReadme(categoryName, examples),
-  );
-  fs.writeFileSync(path.join(outputDir, "SUMMARY.md"), generateSummary(categoryName, examples));
-
-  const rootVersions = getRootPackageVersions(rootDir);
-
-  // Create each example subdirectory with full DX setup
-  for (const example of examples) {
-    const exampleDir = path.join(categoryDir, example.slug);
-
-    // Scaffold from shared base template first.
-    fs.mkdirSync(exampleDir, { recursive: true });
-    copyBaseTemplate(rootDir, exampleDir);
-
-    // Remove template example contract/tests to avoid duplicates.
-    removeDirIfExists(path.join(exampleDir, "contracts"));
-    removeDirIfExists(path.join(exampleDir, "test"));
+  const warnings: Logger = { info: () => {}, warn: logger.warn };
 
-    fs.mkdirSync(path.join(exampleDir, "contracts"), { recursive: true });
-    fs.mkdirSync(path.join(exampleDir, "test"), { recursive: true });
-    fs.mkdirSync(path.join(exampleDir, "scripts"), { recursive: true });
-    fs.mkdirSync(path.join(exampleDir, ".vscode"), { recursive: true });
-    fs.mkdirSync(path.join(exampleDir, ".husky"), { recursive: true });
-
-    // Copy main contract
-    copyFileToDir(example.contractFile, path.join(exampleDir, "contracts"));
-
-    // Copy extra contract dependencies
-    for (const extra of example.extraContractFiles) {
-      if (path.basename(extra) === path.basename(example.contractFile)) {
-        continue;
-      }
-      copyFileToDir(extra, path.join(exampleDir, "contracts"));
-    }
-
-    // Copy helper contracts (if any)
-    if (example.helperFiles.length > 0) {
-      const helpersDir = path.join(exampleDir, "contracts", "helpers");
-      fs.mkdirSync(helpersDir, { recursive: true });
-      for (const helper of example.helperFiles) {
-        copyFileToDir(helper, helpersDir);
-      }
-    }
-
-    // Copy mock contracts (if any)
-    if (example.mockFiles.length > 0) {
-      const mocksDir = path.join(exampleDir, "contracts", "mocks");
-      fs.mkdirSync(mocksDir, { recursive: true });
-      for (const mock of example.mockFiles) {
-        copyFileToDir(mock, mocksDir);
-      }
-    }
-
-    // Copy test if exists
-    if (example.testFile) {
-      copyFileToDir(example.testFile, path.join(exampleDir, "test"));
-    }
-
-    // Generate core files
-    fs.writeFileSync(
-      path.join(exampleDir, "package.json"),
-      generatePackageJson(example, rootVersions),
-    );
-    fs.writeFileSync(path.join(exampleDir, "hardhat.config.ts"), generateHardhatConfig());
-    fs.writeFileSync(path.join(exampleDir, "tsconfig.json"), generateTsConfig());
-    fs.writeFileSync(path.join(exampleDir, ".gitignore"), generateGitignore());
-    fs.writeFileSync(path.join(exampleDir, "README.md"), generateExampleReadme(example));
-
-    fs.writeFileSync(
-      path.join(exampleDir, "scripts", "deploy.ts"),
-      generateDeployScriptForExample({
-        contract: path.basename(example.contractFile),
-        deployPlan: example.deployPlan,
-      }),
+  if (options.workspace) {
+    writeFilePlan(
+      planWorkspaceBundle(rootDir, categoryName, examples, warnings),
+      outputDir,
+      silentLogger,
     );
+    logger.info("\nCategory workspace created successfully!");
+    return;
+  }
 
-    // Generate DX configs
-    fs.writeFileSync(path.join(exampleDir, "biome.json"), generateBiomeJson());
-    fs.writeFileSync(path.join(exampleDir, ".solhint.json"), generateSolhintJson());
-    fs.writeFileSync(path.join(exampleDir, ".solhintignore"), generateSolhintIgnore());
-    fs.writeFileSync(path.join(exampleDir, "commitlint.config.js"), generateCommitlintConfig());
-    fs.writeFileSync(path.join(exampleDir, "lint-staged.config.js"), generateLintStagedConfig());
-
-    // VS Code configs
-    fs.writeFileSync(path.join(exampleDir, ".vscode", "settings.json"), generateVSCodeSettings());
-    fs.writeFileSync(
-      path.join(exampleDir, ".vscode", "extensions.json"),
-      generateVSCodeExtensions(),
-    );
-
-    // Husky hooks
-    const preCommitPath = path.join(exampleDir, ".husky", "pre-commit");
-    const commitMsgPath = path.join(exampleDir, ".husky", "commit-msg");
-    const prePushPath = path.join(exampleDir, ".husky", "pre-push");
-
-    fs.writeFileSync(preCommitPath, generateHuskyPreCommit());
-    fs.writeFileSync(commitMsgPath, generateHuskyCommitMsg());
-    fs.writeFileSync(prePushPath, generateHuskyPrePush());
+  // Scaffold top-level structure
+  writeFilePlan(planCategoryIndex(categoryName, examples), outputDir, silentLogger);
 
-    fs.chmodSync(preCommitPath, 0o755);
-    fs.chmodSync(commitMsgPath, 0o755);
-    fs.chmodSync(prePushPath, 0o755);
+  // Create each example subdirectory with full DX setup (warnings only, no per-file logs)
+  const steps = resolveGeneratorSteps(rootDir);
+  for (const example of examples) {
+    const exampleDir = path.join(outputDir, categoryName, example.slug);
+    scaffoldExample(example, exampleDir, { rootDir, logger: warnings, steps });
   }
 
-  console.log("\nCategory bundle created successfully!");
+  logger.info("\nCategory bundle created successfully!");
 }
-
-main().catch((error) => {
-  console.error(error);
-  process.exit(1);
-});
@@ -0,0 +1,230 @@
+/**
+ * @title Create fhEVM Course
+ * @description Generates a workshop repository from an ordered learning path
+ *
+ * Usage: npm run create:course [output-directory] -- [--examples a,b,c | --chapter <chapter> |
+ *        --difficulty <level>] [--name <name>] [--dry-run]
+ * (dispatched through the `course` command in `fhevm-hub.ts`)
+ *
+ * This script:
+ * 1. Scaffolds each lesson's example like `create` would (`lib/scaffold.ts`)
+ * 2. Replaces the exercise regions of its main contract with TODOs (`lib/exercise.ts`), keeping
+ *    the full contract under `solution/`; the example's tests fail until the TODOs are solved
+ * 3. Numbers the lessons (`lessons/01-<slug>`, ...) and combines them into an npm workspaces repo
+ *    (`lib/category-workspace.ts`) with one install and shared configs
+ * 4. Generates a course README, a README per lesson and a `npm run progress` checker
+ */
+
+import * as fs from "node:fs";
+
+import type { ExampleMeta } from "./example-registry";
+import { planCategoryWorkspace } from "./lib/category-workspace";
+import { type Exercise, planExerciseStarters } from "./lib/exercise";
+import { type FilePlan, planGenerated, writeFilePlan } from "./lib/file-plan";
+import { resolveGeneratorSteps } from "./lib/generator-pipeline";
+import { consoleLogger, type Logger, silentLogger } from "./lib/logger";
+import { assertEmptyDirectory, scaffoldExample } from "./lib/scaffold";
+
+export type CourseOptions = {
+  /** Plan only what is already on disk (`--dry-run`); see `ScaffoldOptions.offline`. */
+  offline?: boolean;
+};
+
+const LESSONS_DIR = "lessons";
+
+type Lesson = {
+  number: number;
+  dir: string;
+  example: ExampleMeta;
+  exercises: Exercise[];
+};
+
+function lessonDir(index: number, example: ExampleMeta): string {
+  return `${String(index + 1).padStart(2, "0")}-${example.slug}`;
+}
+
+function generateLessonReadme(lesson: Lesson, total: number): string {
+  const { example, exercises } = lesson;
+  const task =
+    exercises.length === 0
+      ? "This lesson has no exercise regions: read the contract, then run its tests."
+      : `Complete the TODOs:
+
+${exercises
+  .map(
+    (exercise) =>
+      `- \`${exercise.file}\`\n${exercise.hints.map((hint) => `  - ${hint}`).join("\n")}`,
+  )
+  .join("\n")}
+
+The tests in \`test/\` fail until the TODOs are solved.`;
+  const solutions = exercises
+    .map((exercise) => `\`solution/${exercise.file.slice("contracts/".length)}\``)
+    .join(", ");
+
+  return `# Lesson ${lesson.number} of ${total}: ${example.title}
+
+> **Difficulty**: ${example.difficulty}
+> **Concept**: ${example.concept}
+
+${example.notice ?? example.concept}
+
+## Your Task
+
+${task}
+
+## Check Your Work
+
+\`\`\`bash
+npm run test:mocked   # in this folder
+npm run progress -- ${lesson.number}   # from the course root
+\`\`\`
+${solutions ? `\n## Solution\n\nStuck? The full contract is in ${solutions}.\n` : ""}`;
+}
+
+function generateCourseReadme(name: string, lessons: Lesson[]): string {
+  const rows = lessons
+    .map(
+      (lesson) =>
+        `| ${lesson.number} | [${lesson.example.title}](./${LESSONS_DIR}/${lesson.dir}/README.md) | ${lesson.example.difficulty} | ${lesson.example.concept} | ${lesson.exercises.reduce((count, exercise) => count + exercise.hints.length, 0)} |`,
+    )
+    .join("\n");
+
+  return `# fhEVM Course: ${name}
+
+A hands-on fhEVM workshop in ${lessons.length} lessons. Each lesson is a Hardhat project whose
+contract has parts left as TODOs; its tests pass once they are filled in.
+
+| # | Lesson | Difficulty | Concept | TODOs |
+|---|--------|------------|---------|-------|
+${rows}
+
+## Getting Started
+
+\`\`\`bash
+npm install
+npm run compile
+npm run progress        # which lessons are solved
+\`\`\`
+
+Work through \`${LESSONS_DIR}/\` in order: read the lesson README, complete the TODOs in its
+contract, then check it with \`npm run progress -- <lesson number>\`. Each lesson keeps the full
+contract under \`solution/\`.
+
+## Learn More
+
+- [Zama fhEVM Documentation](https://docs.zama.ai/fhevm)
+`;
+}
+
+/** `scripts/progress.js`: runs each lesson's tests and reports which ones pass. */
+function generateProgressScript(): string {
+  return `#!/usr/bin/env node
+/**
+ * Runs each lesson's tests and reports which lessons are solved.
+ * Usage: npm run progress [-- <lesson number>]
+ */
+const { spawnSync } = require("node:child_process");
+const fs = require("node:fs");
+const path = require("node:path");
+
+const lessonsDir = path.join(__dirname, "..", "${LESSONS_DIR}");
+const only = process.argv[2];
+const lessons = fs
+  .readdirSync(lessonsDir)
+  .filter((name) => fs.existsSync(path.join(lessonsDir, name, "package.json")))
+  .filter((name) => !only || Number.parseInt(name, 10) === Number(only))
+  .sort();
+
+if (lessons.length === 0) {
+  console.error(only ? \`No lesson \${only}\` : "No lessons found");
+  process.exit(2);
+}
+
+let solved = 0;
+for (const lesson of lessons) {
+  const result = spawnSync("npm", ["run", "test:mocked", "--silent"], {
+    cwd: path.join(lessonsDir, lesson),
+    encoding: "utf8",
+    shell: process.platform === "win32",
+  });
+  const passed = result.status === 0;
+  if (passed) solved++;
+  console.log(\`\${passed ? "✔" : "✘"} \${lesson}\`);
+  if (!passed && only) console.log(result.stdout, result.stderr);
+}
+
+console.log(\`\\n\${solved}/\${lessons.length} lessons solved\`);
+process.exitCode = solved === lessons.length ? 0 : 1;
+`;
+}
+
+/** Plans the course repository for `examples`, in order, without writing anything. */
+export function planCourse(
+  rootDir: string,
+  name: string,
+  examples: ExampleMeta[],
+  logger: Logger = consoleLogger,
+  options: CourseOptions = {},
+): FilePlan {
+  const steps = resolveGeneratorSteps(rootDir);
+  const { offline = false } = options;
+  const lessons: Lesson[] = [];
+  const members = examples.map((example, index) => {
+    const plan = scaffoldExample(example, "", {
+      rootDir,
+      logger,
+      steps,
+      dryRun: true,
+      keepExerciseMarkers: true,
+      offline,
+    });
+    const lesson = {
+      number: index + 1,
+      dir: lessonDir(index, example),
+      example,
+      exercises: planExerciseStarters(plan, example, "solution", logger),
+    };
+    planGenerated(plan, "README.md", generateLessonReadme(lesson, examples.length));
+    lessons.push(lesson);
+    return { slug: lesson.dir, plan };
+  });
+
+  const complete = lessons.filter((lesson) => lesson.exercises.length === 0);
+  if (complete.length > 0) {
+    logger.warn(
+      `  Warning: no exercise regions in ${complete.map((lesson) => lesson.example.slug).join(", ")}; their starters are complete.`,
+    );
+  }
+
+  const plan = planCategoryWorkspace(LESSONS_DIR, members, {
+    name: `fhevm-course-${name}`,
+    description: `fhEVM course: ${name} (${examples.length} lessons)`,
+    scripts: { progress: "node scripts/progress.js" },
+  });
+  planGenerated(plan, "README.md", generateCourseReadme(name, lessons));
+  planGenerated(plan, "scripts/progress.js", generateProgressScript(), 0o755);
+  return plan;
+}
+
+/**
+ * Generates the course repository for `examples` into `outputDir`.
+ * Throws if `outputDir` already contains files.
+ */
+export function createCourse(
+  rootDir: string,
+  name: string,
+  examples: ExampleMeta[],
+  outputDir: string,
+  logger: Logger = consoleLogger,
+): void {
+  logger.info(`Creating course: ${name} (${examples.length} lessons)`);
+  logger.info(`Output directory: ${outputDir}`);
+
+  assertEmptyDirectory(outputDir);
+  const plan = planCourse(rootDir, name, examples, { info: () => {}, warn: logger.warn });
+  fs.mkdirSync(outputDir, { recursive: true });
+  writeFilePlan(plan, outputDir, silentLogger);
+
+  logger.info("\nCourse created successfully!");
+}
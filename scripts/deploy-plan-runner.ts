@@ -0,0 +1,231 @@
+/**
+ * @title Deploy Plan Runner
+ * @description Executes an example's deploy plan in-process on the Hardhat network (fhEVM mock)
+ *
+ * Usage: npm run deploy-plan:run <example-name>
+ * (dispatched through the `deploy-plan` command in `fhevm-hub.ts`)
+ *
+ * Steps are interpreted directly instead of being rendered to `scripts/deploy.ts`, using the same
+ * variable naming as the generated script so `@ref`, `#expr` and `afterDeploy` actions behave the
+ * same way they would in a standalone repo.
+ */
+
+import * as path from "node:path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  collectVarNames,
+  type DeployAction,
+  type DeployArg,
+  ENCRYPTED_INPUT_METHODS,
+  encryptedValues,
+  isEncryptedArg,
+  isRoleHash,
+  normalizePlan,
+  resolveVarName,
+  toCallArgs,
+  toVarName,
+} from "./deploy-script-generators";
+import type { ExampleMeta } from "./example-registry";
+import { consoleLogger, type Logger } from "./lib/logger";
+
+export type DeployedContract = {
+  step: number;
+  contract: string;
+  variable: string;
+  address: string;
+};
+
+type Scope = Record<string, unknown>;
+
+type AddressLike = { getAddress: () => Promise<string> };
+
+type Transaction = { wait?: () => Promise<unknown> };
+
+type ContractLike = Record<string, (...args: unknown[]) => Promise<unknown>>;
+
+// `AsyncFunction` is not a global; grab its constructor from an async arrow.
+const AsyncFunction = (async () => {}).constructor as new (
+  ...params: string[]
+) => (...args: unknown[]) => Promise<unknown>;
+
+/** Evaluates plan code (`#expr` args, `code` actions) with the plan's variables in scope. */
+async function evaluate(code: string, scope: Scope): Promise<unknown> {
+  const names = Object.keys(scope);
+  const fn = new AsyncFunction(...names, code);
+  return fn(...names.map((name) => scope[name]));
+}
+
+async function resolveArg(
+  arg: DeployArg,
+  scope: Scope,
+  varNames: Map<string, string>,
+): Promise<unknown> {
+  if ("ref" in arg) {
+    const target = scope[resolveVarName(arg.ref, varNames)] as AddressLike | undefined;
+    if (!target) throw new Error(`"@${arg.ref}" has not been deployed yet`);
+    return target.getAddress();
+  }
+  if ("signer" in arg) {
+    return (scope.deployer as { address: string }).address;
+  }
+  if ("literal" in arg) return arg.literal;
+  if ("value" in arg) return arg.value;
+  if ("bool" in arg) return arg.bool;
+  if (isEncryptedArg(arg)) throw new Error("encrypted args are only valid as call arguments");
+  return evaluate(`return (${arg.expr});`, scope);
+}
+
+type EncryptedInputBuilder = Record<string, (value: unknown) => unknown> & {
+  encrypt: () => Promise<{ handles: unknown[]; inputProof: unknown }>;
+};
+
+/**
+ * Resolves a constructor or call's args. Encrypted args share one input bound to
+ * `contractAddress` and the deployer, its proof passed after the last of them.
+ */
+async function resolveArgs(
+  args: DeployArg[],
+  scope: Scope,
+  varNames: Map<string, string>,
+  contractAddress?: () => Promise<string>,
+): Promise<unknown[]> {
+  const encrypted = args.filter(isEncryptedArg);
+  let input: { handles: unknown[]; inputProof: unknown } | undefined;
+  if (encrypted.length > 0) {
+    if (!contractAddress) throw new Error("encrypted args are only valid as call arguments");
+    const { fhevm, deployer } = scope as {
+      fhevm: { createEncryptedInput: (contract: string, user: string) => EncryptedInputBuilder };
+      deployer: { address: string };
+    };
+    const builder = fhevm.createEncryptedInput(await contractAddress(), deployer.address);
+    for (const arg of encrypted) {
+      for (const clear of encryptedValues(arg)) {
+        const value = await resolveArg(clear, scope, varNames);
+        const bigValue = typeof value === "string" && arg.encrypted.type.startsWith("euint");
+        builder[ENCRYPTED_INPUT_METHODS[arg.encrypted.type]](bigValue ? BigInt(value) : value);
+      }
+    }
+    input = await builder.encrypt();
+  }
+
+  const values: unknown[] = [];
+  let handle = 0;
+  for (const arg of toCallArgs(args)) {
+    if ("inputProof" in arg) {
+      values.push(input?.inputProof);
+    } else if (isEncryptedArg(arg)) {
+      const handles = encryptedValues(arg).map(() => input?.handles[handle++]);
+      values.push(Array.isArray(arg.encrypted.value) ? handles : handles[0]);
+    } else {
+      values.push(await resolveArg(arg, scope, varNames));
+    }
+  }
+  return values;
+}
+
+function targetOf(scope: Scope, varNames: Map<string, string>, targetName: string) {
+  const target = scope[resolveVarName(targetName, varNames)] as
+    | (ContractLike & AddressLike)
+    | undefined;
+  if (!target) throw new Error(`"${targetName}" has not been deployed yet`);
+  return target;
+}
+
+/** Sends `target.method(...args)` and waits for the transaction to be mined. */
+async function send(
+  scope: Scope,
+  varNames: Map<string, string>,
+  targetName: string,
+  method: string,
+  args: DeployArg[],
+): Promise<void> {
+  const target = targetOf(scope, varNames, targetName);
+  if (typeof target[method] !== "function") throw new Error(`"${targetName}" has no ${method}()`);
+  const values = await resolveArgs(args, scope, varNames, () => target.getAddress());
+  const tx = (await target[method](...values)) as Transaction | undefined;
+  await tx?.wait?.();
+}
+
+async function runAction(
+  action: DeployAction,
+  scope: Scope,
+  varNames: Map<string, string>,
+  logger: Logger,
+): Promise<void> {
+  switch (action.kind) {
+    case "call":
+      return send(scope, varNames, action.target, action.method, action.args);
+    case "grantRole": {
+      const target = targetOf(scope, varNames, action.target);
+      const role = isRoleHash(action.role) ? action.role : await target[action.role]?.();
+      return send(scope, varNames, action.target, "grantRole", [
+        { literal: String(role) },
+        action.account,
+      ]);
+    }
+    case "mint":
+      return send(scope, varNames, action.target, "mint", [action.to, action.amount]);
+    case "log": {
+      const value = action.value ? await resolveArg(action.value, scope, varNames) : undefined;
+      logger.info(`  ${action.message}${value === undefined ? "" : ` ${value}`}`);
+      return;
+    }
+    case "code":
+      await evaluate(action.code, scope);
+  }
+}
+
+/**
+ * Deploys `example`'s plan (or its main contract when it has none) and runs each step's
+ * `afterDeploy` actions. Compiles first; throws with the failing step on the first error.
+ */
+export async function runDeployPlan(
+  hre: HardhatRuntimeEnvironment,
+  example: ExampleMeta,
+  logger: Logger = consoleLogger,
+): Promise<DeployedContract[]> {
+  await hre.run("compile", { quiet: true });
+  await hre.fhevm.initializeCLIApi();
+
+  const plan = normalizePlan({
+    contract: path.basename(example.contractFile),
+    deployPlan: example.deployPlan,
+  });
+  const varNames = collectVarNames(plan);
+  const [deployer] = await hre.ethers.getSigners();
+  const scope: Scope = { hre, ethers: hre.ethers, fhevm: hre.fhevm, deployer, console };
+  const deployed: DeployedContract[] = [];
+
+  logger.info(`Running deploy plan: ${example.slug} (${plan.length} step(s))`);
+
+  for (const [index, step] of plan.entries()) {
+    const contractName = step.contract.replace(/\.sol$/u, "");
+    const variable = step.saveAs ?? toVarName(contractName);
+    try {
+      // Inputs are bound to the contract, so constructor inputs use its predicted address.
+      const args = await resolveArgs(step.args ?? [], scope, varNames, async () =>
+        hre.ethers.getCreateAddress({
+          from: deployer.address,
+          nonce: await deployer.getNonce(),
+        }),
+      );
+      const factory = await hre.ethers.getContractFactory(contractName);
+      const contract = await factory.deploy(...args);
+      await contract.waitForDeployment();
+      const address = await contract.getAddress();
+      scope[variable] = contract;
+      deployed.push({ step: index + 1, contract: contractName, variable, address });
+      logger.info(`  ${contractName} deployed to: ${address}`);
+
+      for (const action of step.afterDeploy ?? []) {
+        await runAction(action, scope, varNames, logger);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Step ${index + 1} (${contractName}) failed: ${message}`);
+    }
+  }
+
+  return deployed;
+}
@@ -1,15 +1,52 @@
+/** Encrypted input types and the `createEncryptedInput` builder method that adds each one. */
+export const ENCRYPTED_INPUT_METHODS = {
+  ebool: "addBool",
+  euint8: "add8",
+  euint16: "add16",
+  euint32: "add32",
+  euint64: "add64",
+  euint128: "add128",
+  euint256: "add256",
+  eaddress: "addAddress",
+} as const;
+
+export type EncryptedType = keyof typeof ENCRYPTED_INPUT_METHODS;
+
 export type DeployArg =
   | { ref: string }
   | { signer: "deployer" }
   | { literal: string }
   | { value: number }
-  | { expr: string };
+  | { bool: boolean }
+  | { expr: string }
+  /** Clear value(s) encrypted by the deployer; an array becomes a handle array (`externalEuint8[5]`). */
+  | { encrypted: { type: EncryptedType; value: DeployArg | DeployArg[] } };
+
+export type EncryptedArg = Extract<DeployArg, { encrypted: unknown }>;
+
+/**
+ * An argument as sent on chain. All encrypted args of one call share a single encrypted input,
+ * whose `inputProof` is passed right after the last of them (the fhEVM `(handles..., proof)`
+ * convention).
+ */
+export type CallArg = DeployArg | { inputProof: true };
+
+/**
+ * Post-deploy action. `target` is a plan variable (a `saveAs`, or the camel-cased contract name);
+ * `code` is the raw-TypeScript fallback for anything the other kinds cannot express.
+ */
+export type DeployAction =
+  | { kind: "call"; target: string; method: string; args: DeployArg[] }
+  | { kind: "grantRole"; target: string; role: string; account: DeployArg }
+  | { kind: "mint"; target: string; to: DeployArg; amount: DeployArg }
+  | { kind: "log"; message: string; value?: DeployArg }
+  | { kind: "code"; code: string };
 
 export type DeployStep = {
   contract: string;
   args?: DeployArg[];
   saveAs?: string;
-  afterDeploy?: string[];
+  afterDeploy?: DeployAction[];
 };
 
 export interface DeployScriptConfig {
@@ -18,12 +55,36 @@ export interface DeployScriptConfig {
   deployPlan?: DeployStep[];
 }
 
-function toVarName(contractName: string): string {
+/** Variable a step is bound to when it has no `saveAs` (`MockUSDC` → `mockUSDC`). */
+export function toVarName(contractName: string): string {
   const base = contractName.replace(/\.sol$/u, "");
   return base.charAt(0).toLowerCase() + base.slice(1);
 }
 
-function resolveVarName(ref: string, varNames: Map<string, string>): string {
+export function isEncryptedArg(arg: DeployArg): arg is EncryptedArg {
+  return "encrypted" in arg;
+}
+
+/** The clear values an encrypted arg adds to the input, in handle order. */
+export function encryptedValues(arg: EncryptedArg): DeployArg[] {
+  const { value } = arg.encrypted;
+  return Array.isArray(value) ? value : [value];
+}
+
+export function toCallArgs(args: DeployArg[]): CallArg[] {
+  let lastEncrypted = -1;
+  args.forEach((arg, index) => {
+    if (isEncryptedArg(arg)) lastEncrypted = index;
+  });
+  if (lastEncrypted < 0) return args;
+  return [
+    ...args.slice(0, lastEncrypted + 1),
+    { inputProof: true },
+    ...args.slice(lastEncrypted + 1),
+  ];
+}
+
+export function resolveVarName(ref: string, varNames: Map<string, string>): string {
   return varNames.get(ref) ?? varNames.get(ref.replace(/\.sol$/u, "")) ?? ref;
 }
 
@@ -41,10 +102,173 @@ function renderArg(arg: DeployArg, varNames: Map<string, string>): string {
   if ("value" in arg) {
     return String(arg.value);
   }
+  if ("bool" in arg) {
+    return String(arg.bool);
+  }
+  if (isEncryptedArg(arg)) {
+    throw new Error("Encrypted args are only supported as constructor and call arguments");
+  }
   return arg.expr;
 }
 
-function normalizePlan(config: DeployScriptConfig): DeployStep[] {
+/**
+ * Declared form of an arg, recorded in the manifest to detect plan changes: refs resolve to the
+ * address they point at, `#expr` stays as source so `Date.now()` args do not force redeploys.
+ */
+function renderKeyArg(arg: DeployArg, varNames: Map<string, string>): string {
+  if ("expr" in arg) return JSON.stringify(`#${arg.expr}`);
+  if (!isEncryptedArg(arg)) return renderArg(arg, varNames);
+  const values = encryptedValues(arg).map((value) => renderKeyArg(value, varNames));
+  const value = Array.isArray(arg.encrypted.value) ? `[${values.join(", ")}]` : values[0];
+  return `{ encrypted: ${JSON.stringify(arg.encrypted.type)}, value: ${value} }`;
+}
+
+function renderClearValue(arg: DeployArg, type: EncryptedType, varNames: Map<string, string>) {
+  // Builder methods take number | bigint; strings are used for values beyond 2^53.
+  if ("literal" in arg && type.startsWith("euint")) return `BigInt(${JSON.stringify(arg.literal)})`;
+  return renderArg(arg, varNames);
+}
+
+/** Names the encrypted inputs of one script (`encryptedInput1`, `encryptedInput2`, ...). */
+type InputNamer = () => string;
+
+/** An expression, or the elements of an array literal (encrypted handle arrays). */
+type ListItem = string | string[];
+
+type RenderedCall = {
+  /** `createEncryptedInput` statement lines to emit before the call, when it has encrypted args. */
+  setup?: string[];
+  args: ListItem[];
+};
+
+function indent(lines: string[], spaces: number): string[] {
+  const pad = " ".repeat(spaces);
+  return lines.map((line) => (line.length > 0 ? `${pad}${line}` : line));
+}
+
+/** Line width of generated repos (`formatter.lineWidth` in their biome.json). */
+const LINE_WIDTH = 100;
+
+/**
+ * `head`, the comma-separated `items` and `tail` on one line when it fits at `column`; otherwise
+ * one item per line with trailing commas, the way Biome breaks a list that is too long.
+ */
+function inline(item: ListItem): string {
+  return typeof item === "string" ? item : `[${item.map(inline).join(", ")}]`;
+}
+
+function wrapList(head: string, items: ListItem[], tail: string, column: number): string[] {
+  const line = `${head}${items.map(inline).join(", ")}${tail}`;
+  if (items.length === 0 || column + line.length <= LINE_WIDTH) return [line];
+  return [
+    head,
+    ...items.flatMap((item) =>
+      typeof item === "string" ? [`  ${item},`] : indent(wrapList("[", item, "],", column + 2), 2),
+    ),
+    tail,
+  ];
+}
+
+function renderCallArgs(
+  args: DeployArg[],
+  contractAddress: string,
+  varNames: Map<string, string>,
+  nextInput: InputNamer,
+): RenderedCall {
+  const encrypted = args.filter(isEncryptedArg);
+  if (encrypted.length === 0) {
+    return { args: args.map((arg) => renderArg(arg, varNames)) };
+  }
+
+  const input = nextInput();
+  const adds = encrypted.flatMap((arg) => {
+    const { type } = arg.encrypted;
+    return encryptedValues(arg).map(
+      (value) => `.${ENCRYPTED_INPUT_METHODS[type]}(${renderClearValue(value, type, varNames)})`,
+    );
+  });
+  let handle = 0;
+  const rendered = toCallArgs(args).map((arg) => {
+    if ("inputProof" in arg) return `${input}.inputProof`;
+    if (!isEncryptedArg(arg)) return renderArg(arg, varNames);
+    const handles = encryptedValues(arg).map(() => `${input}.handles[${handle++}]`);
+    return Array.isArray(arg.encrypted.value) ? handles : handles[0];
+  });
+
+  return {
+    setup: [
+      `const ${input} = await hre.fhevm`,
+      `  .createEncryptedInput(${contractAddress}, deployer.address)`,
+      ...adds.map((add) => `  ${add}`),
+      "  .encrypt();",
+    ],
+    args: rendered,
+  };
+}
+
+function renderCall(
+  targetName: string,
+  method: string,
+  args: DeployArg[],
+  varNames: Map<string, string>,
+  nextInput: InputNamer,
+  column: number,
+): string[] {
+  const target = resolveVarName(targetName, varNames);
+  const call = renderCallArgs(args, `await ${target}.getAddress()`, varNames, nextInput);
+  const invocation = `await ${target}.${method}(`;
+  const line = `await (${invocation}${call.args.map(inline).join(", ")})).wait();`;
+  const statement =
+    column + line.length <= LINE_WIDTH
+      ? [line]
+      : ["await (", ...indent(wrapList(invocation, call.args, ")", column + 2), 2), ").wait();"];
+  return [...(call.setup ?? []), ...statement];
+}
+
+/** A role is either a bytes32 hex literal or the name of the target's role constant. */
+export function isRoleHash(role: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/u.test(role);
+}
+
+/** Renders `action` as statements starting at `column` (for wrapping long lines). */
+function renderAction(
+  action: DeployAction,
+  varNames: Map<string, string>,
+  nextInput: InputNamer,
+  column: number,
+): string[] {
+  switch (action.kind) {
+    case "call":
+      return renderCall(action.target, action.method, action.args, varNames, nextInput, column);
+    case "grantRole": {
+      const role = isRoleHash(action.role)
+        ? JSON.stringify(action.role)
+        : `await ${resolveVarName(action.target, varNames)}.${action.role}()`;
+      return renderCall(
+        action.target,
+        "grantRole",
+        [{ expr: role }, action.account],
+        varNames,
+        nextInput,
+        column,
+      );
+    }
+    case "mint": {
+      const args = [action.to, action.amount];
+      return renderCall(action.target, "mint", args, varNames, nextInput, column);
+    }
+    case "log": {
+      const args = [JSON.stringify(action.message)];
+      if (action.value) args.push(renderArg(action.value, varNames));
+      return wrapList("console.log(", args, ");", column);
+    }
+    default:
+      return [action.code];
+  }
+}
+
+/** The steps a config deploys: its plan, else one step per contract, else the main contract. */
+export function normalizePlan(config: DeployScriptConfig): DeployStep[] {
   if (config.deployPlan && config.deployPlan.length > 0) {
     return config.deployPlan;
   }
@@ -54,41 +278,224 @@ function normalizePlan(config: DeployScriptConfig): DeployStep[] {
   return [{ contract: config.contract.replace(/\.sol$/u, "") }];
 }
 
-export function generateDeployScriptForExample(config: DeployScriptConfig): string {
-  const plan = normalizePlan(config);
+/** Maps each step's contract (with and without `.sol`) to the variable it is saved as. */
+export function collectVarNames(plan: DeployStep[]): Map<string, string> {
   const varNames = new Map<string, string>();
-
   for (const step of plan) {
     const contractName = step.contract.replace(/\.sol$/u, "");
     const varName = step.saveAs ?? toVarName(contractName);
     varNames.set(step.contract, varName);
     varNames.set(contractName, varName);
   }
+  return varNames;
+}
+
+export type NamedDeployPlan = {
+  /** Prefix for variables that clash with an earlier plan (`dutch-auction` → `dutchAuction...`). */
+  id: string;
+  steps: DeployStep[];
+};
+
+function renameArg(arg: DeployArg, rename: (ref: string) => string): DeployArg {
+  if ("ref" in arg) return { ref: rename(arg.ref) };
+  if (!isEncryptedArg(arg)) return arg;
+  const { type, value } = arg.encrypted;
+  const renamed = Array.isArray(value)
+    ? value.map((item) => renameArg(item, rename))
+    : renameArg(value, rename);
+  return { encrypted: { type, value: renamed } };
+}
+
+function renameAction(action: DeployAction, rename: (ref: string) => string): DeployAction {
+  const args = (list: DeployArg[]) => list.map((arg) => renameArg(arg, rename));
+  switch (action.kind) {
+    case "call":
+      return { ...action, target: rename(action.target), args: args(action.args) };
+    case "grantRole":
+      return {
+        ...action,
+        target: rename(action.target),
+        account: renameArg(action.account, rename),
+      };
+    case "mint":
+      return {
+        ...action,
+        target: rename(action.target),
+        to: renameArg(action.to, rename),
+        amount: renameArg(action.amount, rename),
+      };
+    case "log":
+      return action.value ? { ...action, value: renameArg(action.value, rename) } : action;
+    default:
+      return action;
+  }
+}
 
-  const deployments = plan
-    .map((step) => {
-      const contractName = step.contract.replace(/\.sol$/u, "");
-      const varName = resolveVarName(contractName, varNames);
-      const factoryName = `${varName}Factory`;
-      const args = (step.args ?? []).map((arg) => renderArg(arg, varNames)).join(", ");
-      const deployArgs = args.length > 0 ? `(${args})` : "()";
-      const afterDeploy = (step.afterDeploy ?? []).map((line) => `  ${line}`).join("\n");
+/**
+ * Concatenates several plans into one. Every step keeps its own deployment; a variable already
+ * used by an earlier plan is renamed with the plan's id (`prizeItem` → `dutchAuctionPrizeItem`)
+ * along with the refs and action targets pointing at it. `#expr` args and `code` actions are
+ * raw TypeScript and are not rewritten.
+ */
+export function mergeDeployPlans(plans: NamedDeployPlan[]): DeployStep[] {
+  const taken = new Set<string>();
+  const merged: DeployStep[] = [];
 
-      return `  const ${factoryName} = await hre.ethers.getContractFactory("${contractName}");
-  const ${varName} = await ${factoryName}.deploy${deployArgs};
-  await ${varName}.waitForDeployment();
+  for (const plan of plans) {
+    const varNames = collectVarNames(plan.steps);
+    const prefix = toVarName(plan.id.replace(/-(\w)/gu, (_, char: string) => char.toUpperCase()));
+    const renames = new Map<string, string>();
+    for (const step of plan.steps) {
+      const original = step.saveAs ?? toVarName(step.contract);
+      const base = `${prefix}${original.charAt(0).toUpperCase()}${original.slice(1)}`;
+      let name = original;
+      for (let n = 2; taken.has(name); n++) {
+        name = taken.has(base) ? `${base}${n}` : base;
+      }
+      renames.set(original, name);
+    }
+    for (const name of renames.values()) taken.add(name);
 
-  console.log("${contractName} deployed to:", await ${varName}.getAddress());
-${afterDeploy ? `\n${afterDeploy}` : ""}`;
+    const rename = (ref: string) => {
+      const varName = resolveVarName(ref, varNames);
+      const renamed = renames.get(varName);
+      return renamed && renamed !== varName ? renamed : ref;
+    };
+    for (const step of plan.steps) {
+      const original = step.saveAs ?? toVarName(step.contract);
+      const name = renames.get(original) ?? original;
+      merged.push({
+        ...step,
+        ...(name === original ? {} : { saveAs: name }),
+        ...(step.args ? { args: step.args.map((arg) => renameArg(arg, rename)) } : {}),
+        ...(step.afterDeploy
+          ? { afterDeploy: step.afterDeploy.map((action) => renameAction(action, rename)) }
+          : {}),
+      });
+    }
+  }
+  return merged;
+}
+
+/** Whether any step passes encrypted values, so the script must set up the fhEVM CLI API. */
+export function usesEncryptedArgs(plan: DeployStep[]): boolean {
+  return plan.some(
+    (step) =>
+      (step.args ?? []).some(isEncryptedArg) ||
+      (step.afterDeploy ?? []).some(
+        (action) =>
+          (action.kind === "call" && action.args.some(isEncryptedArg)) ||
+          (action.kind === "mint" && isEncryptedArg(action.amount)),
+      ),
+  );
+}
+
+/** Column the statements of `main()` start at; step fields are indented two more. */
+const STEP_COLUMN = 2;
+
+type RenderedStep = {
+  varName: string;
+  /** `await deployStep(...)` statement, unindented; bound to `varName` only when referenced. */
+  lines: string[];
+};
+
+function renderStep(
+  step: DeployStep,
+  varNames: Map<string, string>,
+  nextInput: InputNamer,
+): RenderedStep {
+  const contractName = step.contract.replace(/\.sol$/u, "");
+  const varName = step.saveAs ?? toVarName(contractName);
+  const args = step.args ?? [];
+  const fieldColumn = STEP_COLUMN + 2;
+  // Inputs are bound to the contract, so constructor inputs use its predicted address.
+  const call = renderCallArgs(args, `${varName}Address`, varNames, nextInput);
+  const argsLines = call.setup
+    ? [
+        "args: async () => {",
+        `  const ${varName}Address = hre.ethers.getCreateAddress({`,
+        "    from: deployer.address,",
+        "    nonce: await deployer.getNonce(),",
+        "  });",
+        ...indent(call.setup, 2),
+        ...indent(wrapList("return [", call.args, "];", fieldColumn + 2), 2),
+        "},",
+      ]
+    : wrapList("args: async () => [", call.args, "],", fieldColumn);
+  const setupLines = (step.afterDeploy ?? []).flatMap((action) =>
+    renderAction(action, varNames, nextInput, fieldColumn + 2),
+  );
+  const keys = args.map((arg) => renderKeyArg(arg, varNames));
+  // The contract is passed in: its own const is not initialized until deployStep returns.
+  const setupParam = referencesIdentifier(setupLines.join("\n"), varName) ? varName : "";
+
+  return {
+    varName,
+    lines: [
+      "await deployStep(manifest, {",
+      `  name: "${varName}",`,
+      `  contract: "${contractName}",`,
+      ...indent(wrapList("key: [", keys, "],", fieldColumn), 2),
+      ...indent(argsLines, 2),
+      ...(setupLines.length > 0
+        ? [`  setup: async (${setupParam}) => {`, ...indent(setupLines, 4), "  },"]
+        : []),
+      "});",
+    ],
+  };
+}
+
+/**
+ * Whether generated `code` uses the identifier `name` outside quoted strings (template literals
+ * are kept, as raw `#expr`/`code` text may interpolate plan variables).
+ */
+function referencesIdentifier(code: string, name: string): boolean {
+  const unquoted = code.replace(/"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/gu, '""');
+  const escaped = name.replace(/\$/gu, "\\$");
+  return new RegExp(`(?<![\\w$.])${escaped}(?![\\w$])`, "u").test(unquoted);
+}
+
+export function generateDeployScriptForExample(config: DeployScriptConfig): string {
+  const plan = normalizePlan(config);
+  const varNames = collectVarNames(plan);
+  let inputCount = 0;
+  const nextInput = () => `encryptedInput${++inputCount}`;
+
+  const rendered = plan.map((step) => renderStep(step, varNames, nextInput));
+  const code = rendered.map((step) => step.lines.join("\n"));
+  // A step's own setup gets its contract as a parameter, so only other steps' uses need a const.
+  const steps = rendered
+    .map(({ varName, lines: [first, ...rest] }, index) => {
+      const used = code.some(
+        (text, other) => other !== index && referencesIdentifier(text, varName),
+      );
+      return indent([used ? `const ${varName} = ${first}` : first, ...rest], STEP_COLUMN).join(
+        "\n",
+      );
     })
     .join("\n\n");
+  const signers = code.some((text) => referencesIdentifier(text, "deployer"))
+    ? "  const [deployer] = await hre.ethers.getSigners();\n"
+    : "";
 
   return `import hre from "hardhat";
 
+import { deployStep, loadDeployments, manifestPath } from "./deployments";
+
+/**
+ * Deploys the example's plan, recording each step in deployments/<network>.json. Steps already
+ * recorded with the same contract, bytecode and args are reused, so a failed run can be resumed;
+ * set DEPLOY_RESET=1 (or run \`npx hardhat deploy --reset\`) to redeploy everything.
+ */
 async function main() {
-  const [deployer] = await hre.ethers.getSigners();
+${signers}  const { chainId } = await hre.ethers.provider.getNetwork();
+  const manifest = loadDeployments(hre.network.name, Number(chainId), {
+    reset: Boolean(process.env.DEPLOY_RESET),
+  });
+${usesEncryptedArgs(plan) ? "  await hre.fhevm.initializeCLIApi();\n" : ""}
+${steps}
 
-${deployments.trimEnd()}
+  console.log("Deployments written to:", manifestPath(hre.network.name));
 }
 
 main().catch((error) => {
@@ -97,3 +504,156 @@ main().catch((error) => {
 });
 `;
 }
+
+/**
+ * `scripts/deployments.ts` of a generated repo: reads and writes `deployments/<network>.json`,
+ * the per-network manifest of deployed contracts keyed by plan variable (`saveAs`), and deploys
+ * plan steps idempotently against it.
+ */
+export function generateDeploymentsModule(): string {
+  return `import * as fs from "node:fs";
+import * as path from "node:path";
+import { type Contract, hexlify, keccak256 } from "ethers";
+import hre from "hardhat";
+
+export type DeploymentRecord = {
+  contract: string;
+  address: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  /** Constructor args as sent: bigints as decimal strings, bytes as 0x hex. */
+  args: unknown[];
+  /** Args as declared in the plan (refs as addresses, \`#expr\` as source), to detect changes. */
+  key: unknown[];
+  /** keccak256 of the creation bytecode the contract was deployed from. */
+  bytecodeHash: string;
+  /** Whether the step's afterDeploy actions have completed. */
+  setupComplete: boolean;
+};
+
+export type DeploymentManifest = {
+  network: string;
+  chainId: number;
+  /** Keyed by the deploy plan's variable name (\`saveAs\`, else the camel-cased contract). */
+  contracts: Record<string, DeploymentRecord>;
+};
+
+export type DeployStepOptions = {
+  name: string;
+  contract: string;
+  key: unknown[];
+  /** Resolves the constructor args; only called when the step is (re)deployed. */
+  args: () => Promise<unknown[]>;
+  /** afterDeploy actions; rerun until they complete once. */
+  setup?: (contract: Contract) => Promise<void>;
+};
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export function manifestPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, \`\${network}.json\`);
+}
+
+/**
+ * Reads \`deployments/<network>.json\`. Returns an empty manifest when there is none, when
+ * \`reset\` is set, or when it was written for another chain id.
+ */
+export function loadDeployments(
+  network: string,
+  chainId = 0,
+  options: { reset?: boolean } = {},
+): DeploymentManifest {
+  const file = manifestPath(network);
+  const empty: DeploymentManifest = { network, chainId, contracts: {} };
+  if (options.reset || !fs.existsSync(file)) return empty;
+
+  const manifest = JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+  if (chainId !== 0 && manifest.chainId !== chainId) return empty;
+  return manifest;
+}
+
+export function saveDeployments(manifest: DeploymentManifest): void {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(manifestPath(manifest.network), \`\${JSON.stringify(manifest, null, 2)}\\n\`);
+}
+
+/** Address and metadata of \`name\` on \`network\`, for tests and follow-up scripts. */
+export function getDeployment(network: string, name: string): DeploymentRecord {
+  const record = loadDeployments(network).contracts[name];
+  if (!record) {
+    throw new Error(
+      \`No "\${name}" deployment in \${path.relative(process.cwd(), manifestPath(network))}\`,
+    );
+  }
+  return record;
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Uint8Array) return hexlify(value);
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)]),
+    );
+  }
+  return value;
+}
+
+/** Whether \`record\` still describes the step: same contract, bytecode and args, code on chain. */
+async function isCurrent(
+  record: DeploymentRecord,
+  options: DeployStepOptions,
+  bytecodeHash: string,
+): Promise<boolean> {
+  if (record.contract !== options.contract || record.bytecodeHash !== bytecodeHash) return false;
+  if (JSON.stringify(record.key) !== JSON.stringify(toJsonValue(options.key))) return false;
+  return (await hre.ethers.provider.getCode(record.address)) !== "0x";
+}
+
+/**
+ * Deploys one plan step unless the manifest already has a current deployment of it, then runs its
+ * setup if that has not completed yet. The manifest is saved after each change, so a run that
+ * fails part-way resumes from the failing step.
+ */
+export async function deployStep(
+  manifest: DeploymentManifest,
+  options: DeployStepOptions,
+): Promise<Contract> {
+  const factory = await hre.ethers.getContractFactory(options.contract);
+  const bytecodeHash = keccak256(factory.bytecode);
+  let record = manifest.contracts[options.name];
+
+  if (record && (await isCurrent(record, options, bytecodeHash))) {
+    console.log(\`\${options.contract} already deployed at: \${record.address}\`);
+  } else {
+    const args = await options.args();
+    const deployed = await factory.deploy(...args);
+    await deployed.waitForDeployment();
+    const tx = deployed.deploymentTransaction();
+    const receipt = await tx?.wait();
+    record = {
+      contract: options.contract,
+      address: await deployed.getAddress(),
+      transactionHash: tx?.hash ?? null,
+      blockNumber: receipt?.blockNumber ?? null,
+      args: args.map(toJsonValue),
+      key: options.key.map(toJsonValue),
+      bytecodeHash,
+      setupComplete: !options.setup,
+    };
+    manifest.contracts[options.name] = record;
+    saveDeployments(manifest);
+    console.log(\`\${options.contract} deployed to: \${record.address}\`);
+  }
+
+  const contract = await hre.ethers.getContractAt(options.contract, record.address);
+  if (options.setup && !record.setupComplete) {
+    await options.setup(contract);
+    record.setupComplete = true;
+    saveDeployments(manifest);
+  }
+  return contract;
+}
+`;
+}
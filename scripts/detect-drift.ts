@@ -0,0 +1,131 @@
+/**
+ * @title Detect Drift
+ * @description Compares generated repos with what the hub would generate today
+ * @usage npm run drift [-- <dir>...] (the `drift` command in `fhevm-hub.ts`)
+ *
+ * Repos are found by their `.fhevm-example.json` manifest anywhere under the given directories.
+ * Each one is regenerated into a temp dir and every generated file is compared three ways: the
+ * hash recorded at generation, the file on disk and today's output. A file can drift upstream (the
+ * hub changed it), locally (the user edited it) or both.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { createExample } from "./create-fhevm-example";
+import type { ExampleRegistry } from "./example-registry";
+import {
+  hashFile,
+  hashGeneratedFiles,
+  MANIFEST_FILE,
+  readGenerationManifest,
+} from "./lib/generation-manifest";
+import { silentLogger } from "./lib/logger";
+import { GENERATION_DIR } from "./lib/repo-update";
+
+export type DriftKind = "upstream" | "local" | "both";
+
+export type FileDrift = {
+  file: string;
+  kind: DriftKind;
+};
+
+export type RepoDrift = {
+  repo: string;
+  slug?: string;
+  files: FileDrift[];
+  /** Set when the repo could not be compared (unknown example, unreadable manifest). */
+  error?: string;
+};
+
+const SKIPPED_DIRS = new Set(["node_modules", ".git", GENERATION_DIR]);
+
+/** Directories under `searchDirs` (inclusive) holding a generation manifest, sorted. */
+export function findGeneratedRepos(searchDirs: string[]): string[] {
+  const repos = new Set<string>();
+  const visit = (dir: string) => {
+    if (fs.existsSync(path.join(dir, MANIFEST_FILE))) {
+      repos.add(dir);
+      return;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+        visit(path.join(dir, entry.name));
+      }
+    }
+  };
+  for (const dir of searchDirs) {
+    if (fs.existsSync(dir)) visit(path.resolve(dir));
+  }
+  return [...repos].sort();
+}
+
+function classify(
+  base: string | undefined,
+  local: string | undefined,
+  hub: string | undefined,
+): DriftKind | undefined {
+  if (local === hub) return undefined;
+  if (local === base) return "upstream";
+  if (hub === base) return "local";
+  return "both";
+}
+
+/** Compares one repo's files (hashes) against its manifest and today's generated hashes. */
+export function compareRepo(
+  repoDir: string,
+  recorded: Record<string, string>,
+  current: Record<string, string>,
+): FileDrift[] {
+  const drift: FileDrift[] = [];
+  for (const file of [...new Set([...Object.keys(recorded), ...Object.keys(current)])].sort()) {
+    const localPath = path.join(repoDir, file);
+    const local = fs.existsSync(localPath) ? hashFile(localPath) : undefined;
+    const kind = classify(recorded[file], local, current[file]);
+    if (kind) drift.push({ file, kind });
+  }
+  return drift;
+}
+
+/**
+ * Detects drift for each of `repoDirs`. Examples are regenerated once per slug (and mode, for
+ * exercise repos), into a temp dir removed afterwards.
+ */
+export function detectDrift(
+  rootDir: string,
+  registry: ExampleRegistry,
+  repoDirs: string[],
+): RepoDrift[] {
+  const scratchRoot = fs.mkdtempSync(path.join(os.tmpdir(), "fhevm-drift-"));
+  const generated = new Map<string, Record<string, string>>();
+  try {
+    return repoDirs.map((repo): RepoDrift => {
+      let manifest: ReturnType<typeof readGenerationManifest>;
+      try {
+        manifest = readGenerationManifest(repo);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { repo, files: [], error: `unreadable ${MANIFEST_FILE}: ${message}` };
+      }
+      const slug = manifest?.example?.slug;
+      const example = slug ? registry.bySlug.get(slug) : undefined;
+      if (!manifest || !example) {
+        return { repo, slug, files: [], error: `unknown example: ${slug ?? "(none)"}` };
+      }
+
+      const exercise = manifest.example.mode === "exercise";
+      const key = exercise ? `${example.slug}-exercise` : example.slug;
+      let current = generated.get(key);
+      if (!current) {
+        const outputDir = path.join(scratchRoot, key);
+        createExample(rootDir, example, outputDir, silentLogger, { exercise });
+        current = hashGeneratedFiles(outputDir);
+        generated.set(key, current);
+      }
+      return { repo, slug, files: compareRepo(repo, manifest.files ?? {}, current) };
+    });
+  } finally {
+    fs.rmSync(scratchRoot, { recursive: true, force: true });
+  }
+}
@@ -1,7 +1,24 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import type { DeployArg, DeployStep } from "./deploy-script-generators";
+import type { DeployStep } from "./deploy-script-generators";
+import { type DeployTarget, normalizeDeployStep } from "./lib/deploy-plan";
+import { type MetadataDiagnostic, validateExampleMetadata } from "./lib/metadata-schema";
+import {
+  DEFAULT_REGISTRY_CACHE_FILE,
+  openRegistryCache,
+  type RegistryCache,
+  type RegistryCacheStats,
+} from "./lib/registry-cache";
+import {
+  collectExampleTags,
+  parseSolidityFile,
+  type SolidityContract,
+  type SolidityFileInfo,
+  type SolidityParameter,
+  selectPrimaryContract,
+} from "./lib/solidity-metadata";
+import { toKebabCase } from "./lib/text-utils";
 
 export type ExampleMeta = {
   slug: string;
@@ -12,9 +29,16 @@ export type ExampleMeta = {
   chapters: string[];
   notice?: string;
   contractName: string;
+  /** Every contract, interface and library declared in `contractFile`. */
+  contracts: SolidityContract[];
+  /** Ancestors of the primary contract, nearest first (hub and package contracts alike). */
+  inheritance: string[];
   docName: string;
   contractFile: string;
   testFile?: string;
+  /** Contracts `testFile` deploys by name (`getContractFactory("...")`, `deployContract("...")`). */
+  testDeploys: string[];
+  testCoverage: TestCoverage;
   dependsOn: string[];
   helperFiles: string[];
   mockFiles: string[];
@@ -24,10 +48,51 @@ export type ExampleMeta = {
   packageDevDependencies: string[];
 };
 
+/**
+ * How an example's contract is tested: `dedicated` (its own test deploys it), `shared` (its test is
+ * also another example's, e.g. `FullFlow.test.ts`), `indirect` (its test never deploys it by name,
+ * e.g. only through a factory) or `none` (no test file).
+ */
+export type TestCoverage = "dedicated" | "shared" | "indirect" | "none";
+
+export const TEST_COVERAGES: TestCoverage[] = ["dedicated", "shared", "indirect", "none"];
+
 export type ExampleRegistry = {
   examples: ExampleMeta[];
   bySlug: Map<string, ExampleMeta>;
   categories: Map<string, ExampleMeta[]>;
+  /** Contracts each test under `test/<category>/` deploys, by hub-relative test file. */
+  testDeploys: Map<string, string[]>;
+  cacheStats: RegistryCacheStats;
+  /** Metadata schema problems; the affected examples still load with fallback values. */
+  diagnostics: MetadataDiagnostic[];
+};
+
+/** Outcome of `validateRegistryMetadata`. */
+export type MetadataReport = {
+  ok: boolean;
+  examples: number;
+  errors: number;
+  warnings: number;
+  /** Examples per test coverage. */
+  testCoverage: Record<TestCoverage, number>;
+  diagnostics: MetadataDiagnostic[];
+};
+
+export type RegistryLoadOptions = {
+  /** Read and write `.cache/registry.json` (default: true). */
+  cache?: boolean;
+  /** Ignore cached entries but write a fresh cache (used by `registry build --no-cache`). */
+  refresh?: boolean;
+};
+
+/** Bump when the shape of cached file data changes so stale caches are discarded. */
+const REGISTRY_CACHE_VERSION = "6";
+
+/** Everything the registry needs from one test file; cached by content hash. */
+type TestFileInfo = {
+  imports: string[];
+  deploys: string[];
 };
 
 const DEFAULT_DIFFICULTY: ExampleMeta["difficulty"] = "Intermediate";
@@ -52,14 +117,6 @@ function walkDir(dir: string, ignoreDirs: Set<string>): string[] {
   return results;
 }
 
-function toKebabCase(value: string): string {
-  return value
-    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
-    .replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
-    .replace(/_/g, "-")
-    .toLowerCase();
-}
-
 function normalizeExampleBaseName(fileBase: string): string {
   if (fileBase.endsWith("ExampleFactory")) {
     return fileBase.replace(/ExampleFactory$/u, "");
@@ -70,39 +127,6 @@ function normalizeExampleBaseName(fileBase: string): string {
   return fileBase;
 }
 
-function extractTag(content: string, tag: string): string | undefined {
-  const regex = new RegExp(`@${tag}\\s+([^\\n*]+)`);
-  const match = content.match(regex);
-  return match?.[1]?.trim();
-}
-
-function extractCustomTag(content: string, tag: string): string | undefined {
-  return extractTag(content, `custom:${tag}`);
-}
-
-function stripComments(content: string): string {
-  return content.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
-}
-
-function extractContractNames(content: string): string[] {
-  const cleaned = stripComments(content);
-  const regex = /\b(contract|interface|library)\s+(\w+)/g;
-  const results: string[] = [];
-  let match: RegExpExecArray | null = regex.exec(cleaned);
-  while (match) {
-    results.push(match[2]);
-    match = regex.exec(cleaned);
-  }
-  return results;
-}
-
-function extractPrimaryContractName(content: string): string | undefined {
-  const cleaned = stripComments(content);
-  const regex = /\bcontract\s+(\w+)/;
-  const match = cleaned.match(regex);
-  return match?.[1];
-}
-
 function parseDependsOn(raw?: string): string[] {
   if (!raw) return [];
   return raw
@@ -120,37 +144,17 @@ function parseChapters(raw?: string): string[] {
     .map((entry) => toKebabCase(entry));
 }
 
-function normalizeDeployArg(arg: unknown): DeployArg {
-  if (typeof arg === "string") {
-    if (arg.startsWith("@")) return { ref: arg.slice(1) };
-    if (arg === "$deployer") return { signer: "deployer" };
-    if (arg.startsWith("#")) return { expr: arg.slice(1) };
-    return { literal: arg };
-  }
-  if (typeof arg === "number") {
-    return { value: arg };
-  }
-  if (typeof arg === "object" && arg !== null) {
-    return arg as DeployArg;
-  }
-  return { literal: String(arg) };
-}
-
+/** Returns undefined for malformed plans; the metadata schema reports why. */
 function parseDeployPlan(raw?: string): DeployStep[] | undefined {
   if (!raw) return undefined;
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(raw) as DeployStep[];
-    if (!Array.isArray(parsed)) {
-      throw new Error("deploy plan must be an array");
-    }
-    return parsed.map((step) => ({
-      ...step,
-      args: step.args ? step.args.map((arg) => normalizeDeployArg(arg)) : undefined,
-    }));
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Invalid @custom:deploy-plan JSON: ${message}`);
+    parsed = JSON.parse(raw);
+  } catch {
+    return undefined;
   }
+  if (!Array.isArray(parsed)) return undefined;
+  return parsed.map((step) => normalizeDeployStep(step));
 }
 
 function resolveImportPath(baseFile: string, importPath: string): string | null {
@@ -160,7 +164,8 @@ function resolveImportPath(baseFile: string, importPath: string): string | null
   return fs.existsSync(withExt) ? withExt : null;
 }
 
-function extractImports(content: string): string[] {
+/** Import specifiers of a TypeScript test file. */
+function extractTestImports(content: string): string[] {
   const regex = /import\s+[^;]*from\s+["']([^"']+)["'];/g;
   const imports: string[] = [];
   let match: RegExpExecArray | null = regex.exec(content);
@@ -171,6 +176,18 @@ function extractImports(content: string): string[] {
   return imports;
 }
 
+/** Contract names a test deploys: string literals passed to `getContractFactory` or `deployContract`. */
+function extractTestDeploys(content: string): string[] {
+  const regex = /\b(?:getContractFactory|deployContract)\(\s*["'`]([A-Za-z_$][\w$]*)["'`]/g;
+  const deploys: string[] = [];
+  let match: RegExpExecArray | null = regex.exec(content);
+  while (match) {
+    deploys.push(match[1]);
+    match = regex.exec(content);
+  }
+  return uniqueStrings(deploys);
+}
+
 function getPackageName(importPath: string): string | null {
   if (importPath.startsWith(".")) return null;
   if (importPath.startsWith("@")) {
@@ -181,12 +198,138 @@ function getPackageName(importPath: string): string | null {
   return importPath.split("/")[0] ?? null;
 }
 
-function extractPackageImports(content: string): string[] {
-  return extractImports(content)
+function toPackageNames(imports: string[]): string[] {
+  return imports
     .map((importPath) => getPackageName(importPath))
     .filter((value): value is string => Boolean(value));
 }
 
+function parseTestFile(content: string): TestFileInfo {
+  return { imports: extractTestImports(content), deploys: extractTestDeploys(content) };
+}
+
+function toCacheKey(rootDir: string, file: string): string {
+  return path.relative(rootDir, file).split(path.sep).join("/");
+}
+
+function readSolidityFile(rootDir: string, cache: RegistryCache, file: string): SolidityFileInfo {
+  const content = fs.readFileSync(file, "utf8");
+  return cache.resolve(toCacheKey(rootDir, file), content, (source) => {
+    try {
+      return parseSolidityFile(source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse ${path.relative(rootDir, file)}: ${message}`);
+    }
+  });
+}
+
+function importPathsOf(info: SolidityFileInfo): string[] {
+  return info.imports.map((entry) => entry.path);
+}
+
+/** Walks base contracts depth-first through hub sources; unknown (package) bases end the walk. */
+function resolveInheritance(
+  contract: SolidityContract,
+  contractsByName: Map<string, SolidityContract>,
+): string[] {
+  const chain: string[] = [];
+  const visit = (bases: string[]) => {
+    for (const base of bases) {
+      if (chain.includes(base)) continue;
+      chain.push(base);
+      const resolved = contractsByName.get(base);
+      if (resolved) visit(resolved.bases);
+    }
+  };
+  visit(contract.bases);
+  return chain;
+}
+
+type ArtifactAbiEntry = {
+  type: string;
+  name?: string;
+  stateMutability?: string;
+  inputs?: Array<{ name: string; type: string }>;
+};
+
+function toAbiParameters(entry: ArtifactAbiEntry | undefined): SolidityParameter[] {
+  return (entry?.inputs ?? []).map(({ name, type }) => ({ name, type }));
+}
+
+/**
+ * ABI of a compiled artifact, or undefined when it is missing, older than `sourceFile` (compiled
+ * before the last edit) or unreadable.
+ */
+function readArtifactAbi(artifactFile: string, sourceFile: string): ArtifactAbiEntry[] | undefined {
+  if (!fs.existsSync(artifactFile)) return undefined;
+  if (fs.statSync(artifactFile).mtimeMs < fs.statSync(sourceFile).mtimeMs) return undefined;
+  try {
+    const { abi } = JSON.parse(fs.readFileSync(artifactFile, "utf8")) as { abi?: unknown };
+    return Array.isArray(abi) ? (abi as ArtifactAbiEntry[]) : undefined;
+  } catch {
+    // A truncated artifact (e.g. an interrupted compile) falls back to the source.
+    return undefined;
+  }
+}
+
+/**
+ * Constructor and functions of `contractName` for deploy-plan checks: the compiled artifact ABI
+ * when `npm run compile` has produced an up-to-date one, else what is declared in source
+ * (inherited functions included for bases that live in the hub).
+ */
+function resolveDeployTarget(
+  rootDir: string,
+  contractName: string,
+  nameToFile: Map<string, string>,
+  contractsByName: Map<string, SolidityContract>,
+): DeployTarget | undefined {
+  const contract = contractsByName.get(contractName);
+  const file = nameToFile.get(contractName);
+  if (!contract || !file) return undefined;
+
+  const artifactFile = path.join(
+    rootDir,
+    "artifacts",
+    path.relative(rootDir, file),
+    `${contractName}.json`,
+  );
+  const abi = readArtifactAbi(artifactFile, file);
+  if (abi) {
+    return {
+      kind: contract.kind,
+      constructorInputs: toAbiParameters(abi.find((entry) => entry.type === "constructor")),
+      functions: abi
+        .filter((entry) => entry.type === "function" && entry.name)
+        .map((entry) => ({
+          name: entry.name as string,
+          visibility: "external" as const,
+          stateMutability: entry.stateMutability,
+          inputs: toAbiParameters(entry),
+        })),
+      complete: true,
+      source: "artifact",
+    };
+  }
+
+  const ancestors = resolveInheritance(contract, contractsByName);
+  return {
+    kind: contract.kind,
+    constructorInputs: contract.constructorInputs,
+    functions: [
+      ...contract.functions,
+      ...ancestors.flatMap((name) => contractsByName.get(name)?.functions ?? []),
+    ],
+    complete: ancestors.every((name) => contractsByName.has(name)),
+    source: "source",
+  };
+}
+
+function readTestFile(rootDir: string, cache: RegistryCache, file: string): TestFileInfo {
+  const content = fs.readFileSync(file, "utf8");
+  return cache.resolve(toCacheKey(rootDir, file), content, parseTestFile);
+}
+
 function normalizeDifficulty(raw?: string): ExampleMeta["difficulty"] {
   if (!raw) return DEFAULT_DIFFICULTY;
   const normalized = raw.trim().toLowerCase();
@@ -199,9 +342,68 @@ function uniqueStrings(values: string[]): string[] {
   return Array.from(new Set(values));
 }
 
-export function loadExampleRegistry(rootDir: string): ExampleRegistry {
+type TestCoverageCheck = {
+  example: ExampleMeta;
+  /** Hub-relative contract file and the line diagnostics point at. */
+  file: string;
+  line: number;
+  /** Conventional test file, unless `@custom:test` names one (already checked by the schema). */
+  expectedTest?: string;
+};
+
+/**
+ * Marks examples whose test file another example also resolves to as `shared`, and warns about
+ * every example without a dedicated test.
+ */
+function checkTestCoverage(
+  rootDir: string,
+  checks: TestCoverageCheck[],
+  testDeploys: Map<string, string[]>,
+): MetadataDiagnostic[] {
+  const byTest = new Map<string, ExampleMeta[]>();
+  for (const { example } of checks) {
+    if (!example.testFile) continue;
+    const test = toCacheKey(rootDir, example.testFile);
+    byTest.set(test, [...(byTest.get(test) ?? []), example]);
+  }
+
+  const diagnostics: MetadataDiagnostic[] = [];
+  for (const { example, file, line, expectedTest } of checks) {
+    const test = example.testFile ? toCacheKey(rootDir, example.testFile) : undefined;
+    const others = test ? (byTest.get(test) ?? []).filter((other) => other !== example) : [];
+    if (example.testCoverage === "dedicated" && others.length > 0) example.testCoverage = "shared";
+
+    const deployedBy = [...testDeploys]
+      .filter(([other, deploys]) => other !== test && deploys.includes(example.contractName))
+      .map(([other]) => other);
+    const elsewhere = deployedBy.length > 0 ? `; deployed by ${deployedBy.join(", ")}` : "";
+    let message: string | undefined;
+    if (example.testCoverage === "none" && expectedTest) {
+      message = `no test file (expected ${expectedTest})${elsewhere}`;
+    } else if (example.testCoverage === "indirect") {
+      const deploys =
+        example.testDeploys.length > 0 ? ` (deploys ${example.testDeploys.join(", ")})` : "";
+      message = `${test} never deploys ${example.contractName}${deploys}${elsewhere}`;
+    } else if (example.testCoverage === "shared") {
+      message = `${test} is shared with ${others.map((other) => other.slug).join(", ")}; no dedicated test${elsewhere}`;
+    }
+    if (message) diagnostics.push({ file, line, tag: "custom:test", severity: "warning", message });
+  }
+  return diagnostics;
+}
+
+export function loadExampleRegistry(
+  rootDir: string,
+  options: RegistryLoadOptions = {},
+): ExampleRegistry {
   const contractsDir = path.join(rootDir, "contracts");
   const testDir = path.join(rootDir, "test");
+  const cache = openRegistryCache({
+    cacheFile:
+      options.cache === false ? undefined : path.join(rootDir, DEFAULT_REGISTRY_CACHE_FILE),
+    refresh: options.refresh,
+    version: REGISTRY_CACHE_VERSION,
+  });
 
   const categoryDirs = fs
     .readdirSync(contractsDir)
@@ -211,43 +413,63 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
   const ignoreDirs = new Set(["helpers", "mocks"]);
   const allSolFiles = categoryDirs.flatMap((dir) => walkDir(dir, new Set<string>()));
 
+  const fileInfos = new Map<string, SolidityFileInfo>();
   const nameToFile = new Map<string, string>();
+  const contractsByName = new Map<string, SolidityContract>();
   for (const file of allSolFiles) {
     if (!file.endsWith(".sol")) continue;
-    const content = fs.readFileSync(file, "utf8");
-    const names = extractContractNames(content);
-    for (const name of names) {
-      if (!nameToFile.has(name)) {
-        nameToFile.set(name, file);
+    const info = readSolidityFile(rootDir, cache, file);
+    fileInfos.set(file, info);
+    for (const contract of info.contracts) {
+      if (!nameToFile.has(contract.name)) {
+        nameToFile.set(contract.name, file);
+        contractsByName.set(contract.name, contract);
       }
     }
   }
 
   const exampleFiles = categoryDirs.flatMap((dir) => walkDir(dir, ignoreDirs));
   const examples: ExampleMeta[] = [];
+  const diagnostics: MetadataDiagnostic[] = [];
+  const categoryNames = new Set(categoryDirs.map((dir) => path.basename(dir)));
+  const contractNames = new Set(contractsByName.keys());
+  const coverageChecks: TestCoverageCheck[] = [];
+
+  const testDeploys = new Map<string, string[]>();
+  for (const category of [...categoryNames].sort()) {
+    for (const testFile of walkDir(path.join(testDir, category), new Set<string>()).sort()) {
+      if (!testFile.endsWith(".test.ts")) continue;
+      testDeploys.set(
+        toCacheKey(rootDir, testFile),
+        readTestFile(rootDir, cache, testFile).deploys,
+      );
+    }
+  }
 
   for (const file of exampleFiles) {
-    if (!file.endsWith(".sol")) continue;
-    const content = fs.readFileSync(file, "utf8");
-    const contractName = extractPrimaryContractName(content);
-    if (!contractName) continue;
+    const info = fileInfos.get(file);
+    if (!info) continue;
     const fileBase = path.basename(file, ".sol");
+    const primary = selectPrimaryContract(info, fileBase);
+    if (!primary) continue;
+    const contractName = primary.name;
+    const { tags, lines: tagLines } = collectExampleTags(info, primary);
     const exampleBase = normalizeExampleBaseName(fileBase);
 
     const folderCategory = path.basename(path.dirname(file));
-    const categoryTag = extractCustomTag(content, "category");
+    const categoryTag = tags["custom:category"];
     const category = categoryTag ?? folderCategory;
 
-    const title = extractTag(content, "title") ?? exampleBase;
-    const notice = extractTag(content, "notice");
-    const concept = extractCustomTag(content, "concept") ?? notice ?? "fhEVM example";
-    const difficulty = normalizeDifficulty(extractCustomTag(content, "difficulty"));
-    const chapters = parseChapters(extractCustomTag(content, "chapter"));
+    const title = tags.title ?? exampleBase;
+    const notice = tags.notice;
+    const concept = tags["custom:concept"] ?? notice ?? "fhEVM example";
+    const difficulty = normalizeDifficulty(tags["custom:difficulty"]);
+    const chapters = parseChapters(tags["custom:chapter"]);
 
-    const dependsOn = parseDependsOn(extractCustomTag(content, "depends-on"));
-    const deployPlan = parseDeployPlan(extractCustomTag(content, "deploy-plan"));
+    const dependsOn = parseDependsOn(tags["custom:depends-on"]);
+    const deployPlan = parseDeployPlan(tags["custom:deploy-plan"]);
 
-    const customTest = extractCustomTag(content, "test");
+    const customTest = tags["custom:test"];
     const testCategories =
       categoryTag && categoryTag !== folderCategory ? [categoryTag, folderCategory] : [category];
     const defaultTestCandidates = testCategories.map((cat) =>
@@ -257,6 +479,22 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
       path.join(testDir, cat, "FullFlow.test.ts"),
     );
 
+    diagnostics.push(
+      ...validateExampleMetadata(
+        toCacheKey(rootDir, file),
+        { tags, lines: tagLines },
+        primary.line,
+        {
+          categories: categoryNames,
+          contractNames,
+          testExists: (fileName) =>
+            testCategories.some((cat) => fs.existsSync(path.join(testDir, cat, fileName))),
+          resolveDeployTarget: (name) =>
+            resolveDeployTarget(rootDir, name, nameToFile, contractsByName),
+        },
+      ),
+    );
+
     let testFile: string | undefined;
     if (customTest) {
       const customCandidates = testCategories.map((cat) => path.join(testDir, cat, customTest));
@@ -268,7 +506,7 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
       }
     }
 
-    const importPaths = extractImports(content)
+    const importPaths = importPathsOf(info)
       .map((importPath) => resolveImportPath(file, importPath))
       .filter((resolved): resolved is string => Boolean(resolved));
 
@@ -316,19 +554,24 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
     ]);
 
     const packageDependencies = uniqueStrings(
-      dependencyFiles.flatMap((depFile) => extractPackageImports(fs.readFileSync(depFile, "utf8"))),
+      dependencyFiles.flatMap((depFile) =>
+        toPackageNames(
+          importPathsOf(fileInfos.get(depFile) ?? readSolidityFile(rootDir, cache, depFile)),
+        ),
+      ),
     );
 
+    const testInfo =
+      testFile && fs.existsSync(testFile) ? readTestFile(rootDir, cache, testFile) : undefined;
     const packageDevDependencies = uniqueStrings(
-      (testFile && fs.existsSync(testFile)
-        ? extractPackageImports(fs.readFileSync(testFile, "utf8"))
-        : []
-      ).filter((pkg) => !packageDependencies.includes(pkg)),
+      (testInfo ? toPackageNames(testInfo.imports) : []).filter(
+        (pkg) => !packageDependencies.includes(pkg),
+      ),
     );
 
     const slug = toKebabCase(exampleBase);
 
-    examples.push({
+    const example: ExampleMeta = {
       slug,
       title,
       category,
@@ -337,9 +580,17 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
       chapters,
       notice,
       contractName,
+      contracts: info.contracts,
+      inheritance: resolveInheritance(primary, contractsByName),
       docName: fileBase,
       contractFile: file,
-      testFile: testFile && fs.existsSync(testFile) ? testFile : undefined,
+      testFile: testInfo ? testFile : undefined,
+      testDeploys: testInfo?.deploys ?? [],
+      testCoverage: !testInfo
+        ? "none"
+        : testInfo.deploys.includes(contractName)
+          ? "dedicated"
+          : "indirect",
       dependsOn,
       helperFiles: resolvedHelperFiles,
       mockFiles: resolvedMockFiles,
@@ -347,9 +598,17 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
       deployPlan,
       packageDependencies,
       packageDevDependencies,
+    };
+    examples.push(example);
+    coverageChecks.push({
+      example,
+      file: toCacheKey(rootDir, file),
+      line: tagLines["custom:test"] ?? primary.line,
+      expectedTest: customTest ? undefined : toCacheKey(rootDir, defaultTestCandidates[0]),
     });
   }
 
+  diagnostics.push(...checkTestCoverage(rootDir, coverageChecks, testDeploys));
   examples.sort((a, b) => a.slug.localeCompare(b.slug));
 
   const bySlug = new Map(examples.map((example) => [example.slug, example]));
@@ -365,5 +624,54 @@ export function loadExampleRegistry(rootDir: string): ExampleRegistry {
     group.sort((a, b) => a.slug.localeCompare(b.slug));
   }
 
-  return { examples, bySlug, categories };
+  diagnostics.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+
+  cache.save();
+
+  return { examples, bySlug, categories, testDeploys, cacheStats: cache.stats, diagnostics };
+}
+
+/**
+ * `@custom:deploy-plan` errors for the given examples. Generators render plans verbatim, so
+ * commands refuse to generate a repo while any of these remain.
+ */
+export function deployPlanErrors(
+  rootDir: string,
+  registry: ExampleRegistry,
+  examples: ExampleMeta[],
+): MetadataDiagnostic[] {
+  const files = new Set(examples.map((example) => toCacheKey(rootDir, example.contractFile)));
+  return registry.diagnostics.filter(
+    (diagnostic) =>
+      diagnostic.severity === "error" &&
+      diagnostic.tag === "custom:deploy-plan" &&
+      files.has(diagnostic.file),
+  );
+}
+
+/**
+ * Summarizes the registry's metadata diagnostics. Not ok on any error, or on warnings when
+ * `strict` (the `metadata --strict` check).
+ */
+export function validateRegistryMetadata(
+  registry: ExampleRegistry,
+  options: { strict?: boolean } = {},
+): MetadataReport {
+  const { diagnostics } = registry;
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+  const testCoverage = Object.fromEntries(
+    TEST_COVERAGES.map((coverage) => [
+      coverage,
+      registry.examples.filter((example) => example.testCoverage === coverage).length,
+    ]),
+  ) as Record<TestCoverage, number>;
+  return {
+    ok: errors === 0 && !(options.strict && warnings > 0),
+    examples: registry.examples.length,
+    errors,
+    warnings,
+    testCoverage,
+    diagnostics,
+  };
 }
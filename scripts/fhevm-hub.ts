@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * @title fhevm-hub
+ * @description Single entrypoint for the hub tooling (run `npm run help` for the command list)
+ *
+ * Usage: npm run hub -- <command> [options]
+ *
+ * Help output is generated from the command definitions in `scripts/commands/`.
+ */
+
+import * as path from "node:path";
+
+import { bundleCommand } from "./commands/bundle";
+import { categoryCommand } from "./commands/category";
+import { courseCommand } from "./commands/course";
+import { createCommand } from "./commands/create";
+import { deployPlanCommand } from "./commands/deploy-plan";
+import { depsCommand } from "./commands/deps";
+import { docsCommand } from "./commands/docs";
+import { driftCommand } from "./commands/drift";
+import { graphCommand } from "./commands/graph";
+import { listCommand } from "./commands/list";
+import { metadataCommand } from "./commands/metadata";
+import { registryCommand } from "./commands/registry";
+import { validateCommand } from "./commands/validate";
+import { validateAllCommand } from "./commands/validate-all";
+import { runCli } from "./lib/cli";
+
+const commands = [
+  createCommand,
+  categoryCommand,
+  bundleCommand,
+  courseCommand,
+  docsCommand,
+  listCommand,
+  validateCommand,
+  validateAllCommand,
+  metadataCommand,
+  deployPlanCommand,
+  depsCommand,
+  driftCommand,
+  graphCommand,
+  registryCommand,
+];
+
+runCli(process.argv.slice(2), {
+  program: "fhevm-hub",
+  commands,
+  defaultRootDir: path.resolve(__dirname, ".."),
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -1,44 +1,73 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { loadExampleRegistry } from "./example-registry";
+import type { ExampleMeta, ExampleRegistry, TestCoverage } from "./example-registry";
+import { formatJson } from "./lib/json-format";
 
-const rootDir = path.resolve(__dirname, "..");
-const docsDir = path.join(rootDir, "docs");
-const registry = loadExampleRegistry(rootDir);
+export type CatalogExample = {
+  slug: string;
+  title: string;
+  concept: string;
+  difficulty: ExampleMeta["difficulty"];
+  /** GitBook page, relative to `docs/`. */
+  docPath: string;
+  testCoverage: TestCoverage;
+  /** Contracts the example's test deploys. */
+  testDeploys: string[];
+};
 
-const inputFiles = new Set<string>();
-for (const example of registry.examples) {
-  inputFiles.add(example.contractFile);
-  if (example.testFile) inputFiles.add(example.testFile);
-  for (const helper of example.helperFiles) inputFiles.add(helper);
-  for (const mock of example.mockFiles) inputFiles.add(mock);
-  for (const extra of example.extraContractFiles) inputFiles.add(extra);
-}
+export type Catalog = {
+  /** Latest modification time of the examples' source files. */
+  generatedAt: string;
+  categories: { name: string; examples: CatalogExample[] }[];
+};
 
-let latestMtime = 0;
-for (const file of inputFiles) {
-  try {
-    const stats = fs.statSync(file);
-    latestMtime = Math.max(latestMtime, stats.mtimeMs);
-  } catch {
-    // Ignore missing files; registry generation should surface real issues elsewhere.
+/**
+ * Builds the catalog of `registry` without writing it.
+ */
+export function buildCatalog(registry: ExampleRegistry): Catalog {
+  const inputFiles = new Set<string>();
+  for (const example of registry.examples) {
+    inputFiles.add(example.contractFile);
+    if (example.testFile) inputFiles.add(example.testFile);
+    for (const helper of example.helperFiles) inputFiles.add(helper);
+    for (const mock of example.mockFiles) inputFiles.add(mock);
+    for (const extra of example.extraContractFiles) inputFiles.add(extra);
   }
-}
 
-const catalog = {
-  generatedAt: new Date(latestMtime || Date.now()).toISOString(),
-  categories: Array.from(registry.categories.entries()).map(([name, examples]) => ({
-    name,
-    examples: examples.map((example) => ({
-      slug: example.slug,
-      title: example.title,
-      concept: example.concept,
-      difficulty: example.difficulty,
-      docPath: `${example.category}/${example.docName}.md`,
+  let latestMtime = 0;
+  for (const file of inputFiles) {
+    try {
+      const stats = fs.statSync(file);
+      latestMtime = Math.max(latestMtime, stats.mtimeMs);
+    } catch {
+      // Ignore missing files; registry generation should surface real issues elsewhere.
+    }
+  }
+
+  return {
+    generatedAt: new Date(latestMtime || Date.now()).toISOString(),
+    categories: Array.from(registry.categories.entries()).map(([name, examples]) => ({
+      name,
+      examples: examples.map((example) => ({
+        slug: example.slug,
+        title: example.title,
+        concept: example.concept,
+        difficulty: example.difficulty,
+        docPath: `${example.category}/${example.docName}.md`,
+        testCoverage: example.testCoverage,
+        testDeploys: example.testDeploys,
+      })),
     })),
-  })),
-};
+  };
+}
 
-fs.mkdirSync(docsDir, { recursive: true });
-fs.writeFileSync(path.join(docsDir, "catalog.json"), `${JSON.stringify(catalog, null, 2)}\n`);
-console.log("Generated docs/catalog.json");
+/**
+ * Writes `docs/catalog.json` for tooling and external integrations and returns its path.
+ */
+export function generateCatalog(rootDir: string, registry: ExampleRegistry): string {
+  const docsDir = path.join(rootDir, "docs");
+  const catalogPath = path.join(docsDir, "catalog.json");
+  fs.mkdirSync(docsDir, { recursive: true });
+  fs.writeFileSync(catalogPath, formatJson(buildCatalog(registry)));
+  return catalogPath;
+}
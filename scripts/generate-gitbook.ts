@@ -1,58 +1,42 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import type { DeployArg, DeployStep } from "./deploy-script-generators";
-import { type ExampleMeta, loadExampleRegistry } from "./example-registry";
+import type { DeployAction, DeployArg, DeployStep } from "./deploy-script-generators";
+import type { ExampleMeta, ExampleRegistry } from "./example-registry";
+import {
+  buildExampleGraph,
+  type ExampleGraph,
+  exampleSubgraph,
+  formatMermaid,
+} from "./lib/example-graph";
+import { DIFFICULTIES, learningPath } from "./lib/example-selection";
+import { stripExerciseMarkers } from "./lib/exercise";
 import { titleCase } from "./lib/text-utils";
 
-const rootDir = path.resolve(__dirname, "..");
-const docsDir = path.join(rootDir, "docs");
-const staticDocsDir = path.join(rootDir, "static-docs");
-const registry = loadExampleRegistry(rootDir);
-
-type CliOptions = {
-  exampleSlug?: string;
+export type GitbookOptions = {
+  /** Only regenerate these examples' pages and category pages (shared pages are always written). */
+  examples?: string[];
 };
 
-function parseArgs(argv: string[]): CliOptions {
-  const options: CliOptions = {};
-  for (let i = 0; i < argv.length; i += 1) {
-    const arg = argv[i];
-    if (!arg) continue;
-    if (arg === "--example" || arg === "-e") {
-      options.exampleSlug = argv[i + 1];
-      i += 1;
-      continue;
-    }
-    if (arg === "--all") {
-      options.exampleSlug = undefined;
-      continue;
-    }
-    if (arg === "--help" || arg === "-h") {
-      console.log(
-        `Usage:\n  tsx scripts/generate-gitbook.ts --all\n  tsx scripts/generate-gitbook.ts --example <example-slug>\n\nExamples:\n  tsx scripts/generate-gitbook.ts --all\n  tsx scripts/generate-gitbook.ts --example fhe-counter\n`,
-      );
-      process.exit(0);
-    }
-    if (!arg.startsWith("-") && !options.exampleSlug) {
-      options.exampleSlug = arg;
-    }
-  }
-  return options;
-}
+type DocsPaths = {
+  rootDir: string;
+  docsDir: string;
+  staticDocsDir: string;
+};
 
 function ensureDir(dir: string): void {
   fs.mkdirSync(dir, { recursive: true });
 }
 
-function writeDoc(relPath: string, content: string): void {
-  const fullPath = path.join(docsDir, relPath);
-  ensureDir(path.dirname(fullPath));
-  fs.writeFileSync(fullPath, `${content.trimEnd()}\n`);
+/** GitBook pages keyed by path relative to `docs/`. */
+export type GitbookPages = Map<string, string>;
+
+function addPage(pages: GitbookPages, relPath: string, content: string): void {
+  pages.set(relPath, `${content.trimEnd()}\n`);
 }
 
-function readFile(filePath: string): string {
-  const resolved = path.isAbsolute(filePath) ? filePath : path.join(rootDir, filePath);
+function readFile(paths: DocsPaths, filePath: string): string {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(paths.rootDir, filePath);
   return fs.readFileSync(resolved, "utf8");
 }
 
@@ -75,8 +59,8 @@ function extractApiContent(refContent: string): string {
  * Read and extract API reference for an example.
  * Returns the API content or empty string if reference file doesn't exist.
  */
-function getApiReference(category: string, docName: string): string {
-  const refPath = path.join(docsDir, "reference", category, `${docName}.md`);
+function getApiReference(paths: DocsPaths, category: string, docName: string): string {
+  const refPath = path.join(paths.docsDir, "reference", category, `${docName}.md`);
   if (!fs.existsSync(refPath)) return "";
 
   const refContent = fs.readFileSync(refPath, "utf8");
@@ -103,9 +87,34 @@ function renderDeployArg(arg: DeployArg): string {
   if ("expr" in arg) return `#${arg.expr}`;
   if ("literal" in arg) return JSON.stringify(arg.literal);
   if ("value" in arg) return String(arg.value);
+  if ("bool" in arg) return String(arg.bool);
+  if ("encrypted" in arg) {
+    const { type, value } = arg.encrypted;
+    const clear = Array.isArray(value)
+      ? `[${value.map(renderDeployArg).join(", ")}]`
+      : renderDeployArg(value);
+    return `encrypted ${type} ${clear}`;
+  }
   return JSON.stringify(arg);
 }
 
+function renderDeployAction(action: DeployAction): string {
+  switch (action.kind) {
+    case "call":
+      return `\`${action.target}.${action.method}(${action.args.map(renderDeployArg).join(", ")})\``;
+    case "grantRole":
+      return `grant \`${action.role}\` on \`${action.target}\` to ${renderDeployArg(action.account)}`;
+    case "mint":
+      return `mint ${renderDeployArg(action.amount)} on \`${action.target}\` to ${renderDeployArg(action.to)}`;
+    case "log":
+      return action.value
+        ? `log "${action.message}" ${renderDeployArg(action.value)}`
+        : `log "${action.message}"`;
+    default:
+      return `\`${action.code.replace(/\|/gu, "\\|")}\``;
+  }
+}
+
 function formatChapters(chapters: string[]): string {
   if (chapters.length === 0) return "Uncategorized";
   return chapters.map((chapter) => titleCase(chapter)).join(", ");
@@ -122,11 +131,30 @@ function renderDeployPlan(plan?: DeployStep[]): string | undefined {
     lines.push(`| ${index + 1} | ${step.contract} | ${args} | ${saveAs} |`);
   });
 
+  const actions = plan.flatMap((step, index) =>
+    (step.afterDeploy ?? []).map((action) => `| ${index + 1} | ${renderDeployAction(action)} |`),
+  );
+  if (actions.length > 0) {
+    lines.push("", "After deploy:", "", "| Step | Action |", "| --- | --- |", ...actions);
+  }
+
   return lines.join("\n");
 }
 
-function renderDependencies(example: ExampleMeta, byContract: Map<string, ExampleMeta>): string {
-  if (example.dependsOn.length === 0) return "None";
+/** The `@custom:depends-on` list, then a Mermaid diagram of the example's dependency subgraph. */
+function renderDependencies(
+  example: ExampleMeta,
+  byContract: Map<string, ExampleMeta>,
+  graph: ExampleGraph,
+): string {
+  const list = renderDependsOn(example, byContract);
+  const subgraph = exampleSubgraph(graph, example.slug);
+  if (subgraph.edges.length === 0) return list || "None";
+  const diagram = `\`\`\`mermaid\n${formatMermaid(subgraph).trimEnd()}\n\`\`\``;
+  return list ? `${list}\n\n${diagram}` : diagram;
+}
+
+function renderDependsOn(example: ExampleMeta, byContract: Map<string, ExampleMeta>): string {
   return example.dependsOn
     .map((dep) => dep.trim())
     .filter((dep) => dep.length > 0)
@@ -143,21 +171,27 @@ function renderDependencies(example: ExampleMeta, byContract: Map<string, Exampl
     .join("\n");
 }
 
-function generateExampleDoc(example: ExampleMeta, byContract: Map<string, ExampleMeta>): string {
-  const contractContent = readFile(example.contractFile);
-  const testContent = example.testFile ? readFile(example.testFile) : undefined;
+function generateExampleDoc(
+  paths: DocsPaths,
+  example: ExampleMeta,
+  byContract: Map<string, ExampleMeta>,
+  graph: ExampleGraph,
+): string {
+  // The full contract is the solution: exercise markers only matter to `create --exercise`.
+  const contractContent = stripExerciseMarkers(readFile(paths, example.contractFile));
+  const testContent = example.testFile ? readFile(paths, example.testFile) : undefined;
   const pitfalls = extractPitfalls(testContent);
   const deployPlan = renderDeployPlan(example.deployPlan);
   const contractFileName = path.basename(example.contractFile);
   const testFileName = example.testFile ? path.basename(example.testFile) : "";
   const testPath = example.testFile
-    ? path.relative(rootDir, example.testFile).replace(/\\/g, "/")
+    ? path.relative(paths.rootDir, example.testFile).replace(/\\/g, "/")
     : undefined;
 
   const quickStart = testPath ? `npm run test:mocked -- ${testPath}` : "npm run test:mocked";
 
   // Get inlined API reference content
-  const apiContent = getApiReference(example.category, example.docName);
+  const apiContent = getApiReference(paths, example.category, example.docName);
   const apiSection = apiContent ? `\n## API Reference\n\n${apiContent}\n` : "";
 
   return `# ${example.title}
@@ -179,7 +213,7 @@ ${quickStart}
 
 ## Dependencies
 
-${renderDependencies(example, byContract)}
+${renderDependencies(example, byContract, graph)}
 
 ${deployPlan ? `## Deployment plan\n\n${deployPlan}\n` : ""}
 
@@ -238,7 +272,7 @@ function extractH1(content: string): string | null {
   return match?.[1]?.trim() ?? null;
 }
 
-function scanStaticPages(): Array<{ slug: string; title: string }> {
+function scanStaticPages(staticDocsDir: string): Array<{ slug: string; title: string }> {
   if (!fs.existsSync(staticDocsDir)) return [];
 
   return fs
@@ -254,7 +288,7 @@ function scanStaticPages(): Array<{ slug: string; title: string }> {
     .sort((a, b) => a.title.localeCompare(b.title));
 }
 
-function generateIntroPage(categories: Map<string, ExampleMeta[]>): string {
+function generateIntroPage(paths: DocsPaths, categories: Map<string, ExampleMeta[]>): string {
   const categorySections = Array.from(categories.entries())
     .sort(([a], [b]) => a.localeCompare(b))
     .map(([category, examples]) => {
@@ -271,7 +305,7 @@ function generateIntroPage(categories: Map<string, ExampleMeta[]>): string {
     .join("\n\n");
 
   // Build intro links by scanning docs-src/pages/ (file-driven)
-  const staticPages = scanStaticPages();
+  const staticPages = scanStaticPages(paths.staticDocsDir);
   const introLinks = staticPages.map((page) => `- **[${page.title}](${page.slug}.md)**`).join("\n");
 
   // Add dynamic pages to intro
@@ -297,30 +331,18 @@ ${categorySections}
 }
 
 function generateLearningPaths(examples: ExampleMeta[]): string {
-  const order: ExampleMeta["difficulty"][] = ["Beginner", "Intermediate", "Advanced"];
-  const groups = new Map<ExampleMeta["difficulty"], ExampleMeta[]>();
-  for (const difficulty of order) {
-    groups.set(difficulty, []);
-  }
-
-  examples.forEach((example) => {
-    groups.get(example.difficulty)?.push(example);
-  });
-
-  const sections = order
-    .map((difficulty) => {
-      const list = groups
-        .get(difficulty)
-        ?.sort((a, b) => a.title.localeCompare(b.title))
-        .map(
-          (example) =>
-            `- [${example.title}](./${example.category}/${example.docName}.md) - ${example.concept}`,
-        )
-        .join("\n");
-
-      return `## ${difficulty}\n\n${list || "No examples yet."}`;
-    })
-    .join("\n\n");
+  const ordered = learningPath(examples);
+  const sections = DIFFICULTIES.map((difficulty) => {
+    const list = ordered
+      .filter((example) => example.difficulty === difficulty)
+      .map(
+        (example) =>
+          `- [${example.title}](./${example.category}/${example.docName}.md) - ${example.concept}`,
+      )
+      .join("\n");
+
+    return `## ${difficulty}\n\n${list || "No examples yet."}`;
+  }).join("\n\n");
 
   return `# Learning Paths\n\nUse this page to pick examples by difficulty.\n\n${sections}\n`;
 }
@@ -359,10 +381,10 @@ function buildChapterMap(examples: ExampleMeta[]): Map<string, ExampleMeta[]> {
   return chapters;
 }
 
-function generatePitfallsPage(examples: ExampleMeta[]): string {
+function generatePitfallsPage(paths: DocsPaths, examples: ExampleMeta[]): string {
   const entries = examples
     .map((example) => {
-      const testContent = example.testFile ? readFile(example.testFile) : undefined;
+      const testContent = example.testFile ? readFile(paths, example.testFile) : undefined;
       const pitfalls = extractPitfalls(testContent);
       if (pitfalls.length === 0) return null;
       const items = pitfalls.map((item) => `  - ${item}`).join("\n");
@@ -373,20 +395,34 @@ function generatePitfallsPage(examples: ExampleMeta[]): string {
   return `# Common Pitfalls\n\nThis page aggregates known pitfalls called out in the tests.\n\n${entries.length === 0 ? "No pitfalls captured yet." : entries.join("\n\n")}\n`;
 }
 
-function main(): void {
-  const options = parseArgs(process.argv.slice(2));
+/**
+ * Renders the GitBook pages for `registry` without writing anything (existing API reference pages
+ * under `docs/reference/` are read). Throws when one of `options.examples` does not match a
+ * registry example.
+ */
+export function renderGitbook(
+  rootDir: string,
+  registry: ExampleRegistry,
+  options: GitbookOptions = {},
+): GitbookPages {
+  const paths: DocsPaths = {
+    rootDir,
+    docsDir: path.join(rootDir, "docs"),
+    staticDocsDir: path.join(rootDir, "static-docs"),
+  };
+  const pages: GitbookPages = new Map();
   let targetCategories: Set<string> | undefined;
 
-  if (options.exampleSlug) {
-    const example = registry.bySlug.get(options.exampleSlug);
-    if (!example) {
-      console.error(`Unknown example: ${options.exampleSlug}\n`);
-      console.error(
-        `Available examples:\n${registry.examples.map((item) => `  - ${item.slug}`).join("\n")}`,
-      );
-      process.exit(1);
+  const targetExamples = options.examples ? new Set(options.examples) : undefined;
+  if (targetExamples) {
+    targetCategories = new Set();
+    for (const slug of targetExamples) {
+      const example = registry.bySlug.get(slug);
+      if (!example) {
+        throw new Error(`Unknown example: ${slug}`);
+      }
+      targetCategories.add(example.category);
     }
-    targetCategories = new Set([example.category]);
   }
 
   const byContract = new Map<string, ExampleMeta>();
@@ -394,52 +430,62 @@ function main(): void {
     byContract.set(example.contractName, example);
   });
   const chapters = buildChapterMap(registry.examples);
-
-  ensureDir(docsDir);
+  const graph = buildExampleGraph(rootDir, registry);
 
   // Generate intro page
-  writeDoc("README.md", generateIntroPage(registry.categories));
+  addPage(pages, "README.md", generateIntroPage(paths, registry.categories));
 
-  // Copy static pages from docs-src/pages/ (file-driven)
-  if (fs.existsSync(staticDocsDir)) {
-    for (const entry of fs.readdirSync(staticDocsDir, { withFileTypes: true })) {
+  // Copy static pages from static-docs/ (file-driven)
+  if (fs.existsSync(paths.staticDocsDir)) {
+    for (const entry of fs.readdirSync(paths.staticDocsDir, { withFileTypes: true })) {
       if (entry.isFile() && entry.name.endsWith(".md")) {
-        const content = fs.readFileSync(path.join(staticDocsDir, entry.name), "utf8");
+        const content = fs.readFileSync(path.join(paths.staticDocsDir, entry.name), "utf8");
         const slug = entry.name.replace(/\.md$/, "");
-        writeDoc(`${slug}.md`, content);
+        addPage(pages, `${slug}.md`, content);
       }
     }
   }
 
   // Generate dynamic pages
-  writeDoc("pitfalls.md", generatePitfallsPage(registry.examples));
-  writeDoc("learning-paths.md", generateLearningPaths(registry.examples));
+  addPage(pages, "pitfalls.md", generatePitfallsPage(paths, registry.examples));
+  addPage(pages, "learning-paths.md", generateLearningPaths(registry.examples));
 
   // Generate chapters
-  writeDoc("chapters/README.md", generateChaptersIndex(chapters));
+  addPage(pages, "chapters/README.md", generateChaptersIndex(chapters));
 
   for (const [chapter, examples] of chapters.entries()) {
-    writeDoc(`chapters/${chapter}.md`, generateChapterPage(chapter, examples));
+    addPage(pages, `chapters/${chapter}.md`, generateChapterPage(chapter, examples));
   }
 
   for (const [category, examples] of registry.categories.entries()) {
     if (targetCategories && !targetCategories.has(category)) continue;
-    const categoryDir = path.join(docsDir, category);
-    ensureDir(categoryDir);
-    writeDoc(`${category}/README.md`, generateCategoryReadme(category, examples));
+    addPage(pages, `${category}/README.md`, generateCategoryReadme(category, examples));
 
     for (const example of examples) {
-      if (options.exampleSlug && example.slug !== options.exampleSlug) continue;
+      if (targetExamples && !targetExamples.has(example.slug)) continue;
       const docPath = `${category}/${example.docName}.md`;
-      writeDoc(docPath, generateExampleDoc(example, byContract));
+      addPage(pages, docPath, generateExampleDoc(paths, example, byContract, graph));
     }
   }
 
-  console.log(
-    options.exampleSlug
-      ? `Generated GitBook docs for ${options.exampleSlug}`
-      : "Generated GitBook docs from registry",
-  );
+  return pages;
 }
 
-main();
+/**
+ * Writes the GitBook pages under `<rootDir>/docs` and returns the doc paths written.
+ * Throws when one of `options.examples` does not match a registry example.
+ */
+export function generateGitbook(
+  rootDir: string,
+  registry: ExampleRegistry,
+  options: GitbookOptions = {},
+): string[] {
+  const docsDir = path.join(rootDir, "docs");
+  const pages = renderGitbook(rootDir, registry, options);
+  for (const [relPath, content] of pages) {
+    const fullPath = path.join(docsDir, relPath);
+    ensureDir(path.dirname(fullPath));
+    fs.writeFileSync(fullPath, content);
+  }
+  return [...pages.keys()];
+}
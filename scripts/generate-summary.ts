@@ -13,9 +13,6 @@ import * as path from "node:path";
 
 import { titleCase } from "./lib/text-utils";
 
-const rootDir = path.resolve(__dirname, "..");
-const docsDir = path.join(rootDir, "docs");
-
 // Folders that are NOT categories (special purpose folders)
 const NON_CATEGORY_FOLDERS = new Set(["chapters", "reference"]);
 
@@ -26,7 +23,7 @@ const EXCLUDED_FILES = ["README.md", "SUMMARY.md", "catalog.json"];
  * Discover category folders by scanning docs/ directory.
  * Categories are any folder that isn't in NON_CATEGORY_FOLDERS.
  */
-function discoverCategories(): string[] {
+function discoverCategories(docsDir: string): string[] {
   return fs
     .readdirSync(docsDir, { withFileTypes: true })
     .filter((entry) => entry.isDirectory())
@@ -58,7 +55,7 @@ function getTitleFromFile(filePath: string, fallback: string): string {
 /**
  * Scan root-level static pages (excluding categories, chapters, reference)
  */
-function scanStaticPages(): string[] {
+function scanStaticPages(docsDir: string): string[] {
   const entries: string[] = [];
   const files = fs.readdirSync(docsDir, { withFileTypes: true });
 
@@ -80,7 +77,7 @@ function scanStaticPages(): string[] {
 /**
  * Scan chapters folder and build navigation
  */
-function scanChapters(): string {
+function scanChapters(docsDir: string): string {
   const chaptersDir = path.join(docsDir, "chapters");
   if (!fs.existsSync(chaptersDir)) return "";
 
@@ -105,9 +102,9 @@ function scanChapters(): string {
 /**
  * Scan category folders (identity, basic, etc.) and build navigation
  */
-function scanCategories(): string[] {
+function scanCategories(docsDir: string): string[] {
   const sections: string[] = [];
-  const categories = discoverCategories();
+  const categories = discoverCategories(docsDir);
 
   for (const category of categories) {
     const categoryDir = path.join(docsDir, category);
@@ -132,24 +129,26 @@ function scanCategories(): string[] {
   return sections;
 }
 
-/**
- * Main: Generate SUMMARY.md by scanning docs/
- */
-function main(): void {
+/** Renders SUMMARY.md from the pages found in `docsDir`, without writing it. */
+export function renderSummary(docsDir: string): string {
   const introLink = "* [Introduction](README.md)";
-  const staticPages = scanStaticPages();
-  const chapters = scanChapters();
-  const categories = scanCategories();
+  const staticPages = scanStaticPages(docsDir);
+  const chapters = scanChapters(docsDir);
+  const categories = scanCategories(docsDir);
 
   const sections = [introLink, ...staticPages, chapters, ...categories].filter(Boolean);
 
-  const summary = `# Summary
+  return `# Summary
 
 ${sections.join("\n")}
 `;
-
-  fs.writeFileSync(path.join(docsDir, "SUMMARY.md"), summary);
-  console.log("Generated SUMMARY.md from docs/ file structure");
 }
 
-main();
+/**
+ * Generate SUMMARY.md by scanning `docsDir` and return the written path.
+ */
+export function generateSummary(docsDir: string): string {
+  const summaryPath = path.join(docsDir, "SUMMARY.md");
+  fs.writeFileSync(summaryPath, renderSummary(docsDir));
+  return summaryPath;
+}
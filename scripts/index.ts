@@ -0,0 +1,92 @@
+/**
+ * @title fhEVM Example Hub library
+ * @description Programmatic entrypoint for tools driving the hub without the CLI
+ *
+ * Usage (from TypeScript, e.g. run with tsx):
+ *
+ * ```ts
+ * import { loadExampleRegistry, planExample, silentLogger } from "fhevm-example-hub";
+ *
+ * const registry = loadExampleRegistry(hubDir);
+ * const plan = planExample(hubDir, registry.bySlug.get("fhe-counter")!, silentLogger);
+ * ```
+ *
+ * Importing this module has no side effects. The `plan*`, `render*`, `build*`, `detect*` and
+ * `validateRegistryMetadata` functions only read the hub and return their result; the `create*`,
+ * `generate*` and `update*` functions also write it to disk. `loadExampleRegistry` refreshes the
+ * hub's `.cache/registry.json` unless passed `{ cache: false }`. Every function taking a `Logger`
+ * defaults to the console: pass `silentLogger` to keep a service's output clean. Failures are
+ * thrown, never turned into exit codes; `UsageError` and `CliError` carry the CLI's message.
+ */
+
+export { type BundleOptions, createBundle, planBundle } from "./create-fhevm-bundle";
+export { type CategoryOptions, createCategory, planCategory } from "./create-fhevm-category";
+export { type CourseOptions, createCourse, planCourse } from "./create-fhevm-course";
+export {
+  createExample,
+  type ExampleOptions,
+  planExample,
+  updateExample,
+} from "./create-fhevm-example";
+export { detectDrift, findGeneratedRepos, type RepoDrift } from "./detect-drift";
+export {
+  deployPlanErrors,
+  type ExampleMeta,
+  type ExampleRegistry,
+  loadExampleRegistry,
+  type MetadataReport,
+  type RegistryLoadOptions,
+  TEST_COVERAGES,
+  type TestCoverage,
+  validateRegistryMetadata,
+} from "./example-registry";
+export {
+  buildCatalog,
+  type Catalog,
+  type CatalogExample,
+  generateCatalog,
+} from "./generate-catalog";
+export {
+  type GitbookOptions,
+  type GitbookPages,
+  generateGitbook,
+  renderGitbook,
+} from "./generate-gitbook";
+export { generateSummary, renderSummary } from "./generate-summary";
+export {
+  type AffectedExamples,
+  affectedSince,
+  changedFilesSince,
+  findAffectedExamples,
+} from "./lib/affected-examples";
+export { CliError, UsageError } from "./lib/cli";
+export {
+  buildExampleGraph,
+  type ExampleGraph,
+  exampleSubgraph,
+  formatDot,
+  formatMermaid,
+} from "./lib/example-graph";
+export { type ExampleFilters, learningPath, selectExamples } from "./lib/example-selection";
+export {
+  describeFilePlan,
+  type FilePlan,
+  type PlannedFile,
+  writeFilePlan,
+} from "./lib/file-plan";
+export { consoleLogger, type Logger, silentLogger } from "./lib/logger";
+export { formatDiagnostic, type MetadataDiagnostic } from "./lib/metadata-schema";
+export type { UpdateReport } from "./lib/repo-update";
+export { type ScaffoldOptions, scaffoldExample } from "./lib/scaffold";
+export { checkDependencies, type DependencyReport } from "./update-deps";
+export {
+  type ValidateOptions,
+  type ValidateReport,
+  type ValidateStepResult,
+  validateHub,
+} from "./validate";
+export {
+  type ValidateAllOptions,
+  type ValidateAllReport,
+  validateAll,
+} from "./validate-all";
@@ -0,0 +1,124 @@
+/**
+ * Which examples a set of changed files affects (`--since <git-ref>` of `validate`,
+ * `validate-all` and `docs`).
+ *
+ * A changed contract affects every example that copies it: as its main contract, helper, mock or
+ * extra contract (`@custom:depends-on`). A changed test affects the examples it tests. Generator
+ * code, the Hardhat template and hub-wide config affect every example. Anything else (docs, tool
+ * tests) affects none.
+ */
+
+import { spawnSync } from "node:child_process";
+import * as path from "node:path";
+
+import type { ExampleMeta, ExampleRegistry } from "../example-registry";
+import { CliError, UsageError } from "./cli";
+import { HUB_CONFIG_FILE } from "./hub-config";
+
+/** Paths (files, or directories ending in `/`) whose change affects every example. */
+const GLOBAL_INPUTS = [
+  "scripts/",
+  "templates/",
+  "base-template",
+  "fhevm-hardhat-template",
+  "package.json",
+  "package-lock.json",
+  "hardhat.config.ts",
+  HUB_CONFIG_FILE,
+];
+
+export type AffectedExamples = {
+  /** Hub-relative, `/`-separated files changed since the ref, including uncommitted ones. */
+  changedFiles: string[];
+  /** The first changed file affecting every example, if any. */
+  global?: string;
+  /** Affected examples, in registry order. */
+  examples: ExampleMeta[];
+  /** Changed files each affected example uses, by slug (empty when selected by `global`). */
+  reasons: Record<string, string[]>;
+};
+
+function git(rootDir: string, args: string[]): string {
+  const result = spawnSync("git", args, { cwd: rootDir, encoding: "utf8", stdio: "pipe" });
+  if (result.error) throw new CliError(`git ${args[0]} failed: ${result.error.message}`);
+  if (result.status !== 0) {
+    throw new CliError(`git ${args.join(" ")} failed: ${result.stderr.trim()}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Files changed between `ref` and the working tree (committed, staged and unstaged changes, plus
+ * untracked files), relative to `rootDir`. Throws a `UsageError` for an unknown ref.
+ */
+export function changedFilesSince(rootDir: string, ref: string): string[] {
+  const verify = spawnSync("git", ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], {
+    cwd: rootDir,
+    stdio: "pipe",
+  });
+  if (verify.status !== 0) throw new UsageError(`Unknown git ref: ${ref}`);
+
+  const lines = [
+    ...git(rootDir, ["diff", "--name-only", "--relative", ref, "--"]).split("\n"),
+    ...git(rootDir, ["ls-files", "--others", "--exclude-standard"]).split("\n"),
+  ];
+  return [...new Set(lines.map((line) => line.trim()).filter(Boolean))].sort();
+}
+
+function isGlobalInput(file: string): boolean {
+  if (file.endsWith(".md")) return false;
+  return GLOBAL_INPUTS.some((input) =>
+    input.endsWith("/") ? file.startsWith(input) : file === input || file.startsWith(`${input}/`),
+  );
+}
+
+/** Hub-relative files `example` is generated and tested from. */
+function exampleInputs(rootDir: string, example: ExampleMeta): string[] {
+  return [
+    example.contractFile,
+    ...(example.testFile ? [example.testFile] : []),
+    ...example.helperFiles,
+    ...example.mockFiles,
+    ...example.extraContractFiles,
+  ].map((file) => path.relative(rootDir, file).split(path.sep).join("/"));
+}
+
+/** Maps `changedFiles` (hub-relative) to the examples they affect. */
+export function findAffectedExamples(
+  rootDir: string,
+  registry: ExampleRegistry,
+  changedFiles: string[],
+): AffectedExamples {
+  const global = changedFiles.find(isGlobalInput);
+  if (global) {
+    return { changedFiles, global, examples: registry.examples, reasons: {} };
+  }
+
+  const changed = new Set(changedFiles);
+  const examples: ExampleMeta[] = [];
+  const reasons: Record<string, string[]> = {};
+  for (const example of registry.examples) {
+    const used = exampleInputs(rootDir, example).filter((file) => changed.has(file));
+    if (used.length === 0) continue;
+    examples.push(example);
+    reasons[example.slug] = [...new Set(used)];
+  }
+  return { changedFiles, examples, reasons };
+}
+
+/** `findAffectedExamples` for the files changed since `ref`. */
+export function affectedSince(
+  rootDir: string,
+  registry: ExampleRegistry,
+  ref: string,
+): AffectedExamples {
+  return findAffectedExamples(rootDir, registry, changedFilesSince(rootDir, ref));
+}
+
+/** One line describing the selection, for command logs. */
+export function describeAffected(ref: string, affected: AffectedExamples): string {
+  const files = `${affected.changedFiles.length} file(s) changed since ${ref}`;
+  if (affected.global) return `${files}; ${affected.global} affects every example`;
+  if (affected.examples.length === 0) return `${files}; no example affected`;
+  return `${files}; affected: ${affected.examples.map((example) => example.slug).join(", ")}`;
+}
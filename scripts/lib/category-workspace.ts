@@ -0,0 +1,331 @@
+/**
+ * Category bundles as an npm workspaces monorepo (`category --workspace`).
+ *
+ * Starts from the standalone repo plans `scaffoldExample` builds and reshapes them:
+ * - the root `package.json` declares the workspaces, hoists every devDependency and runs the
+ *   examples' scripts with `--workspaces`;
+ * - config files identical in every example (Biome, Solhint, commitlint, lint-staged, VS Code,
+ *   Husky) move to the root; the Hardhat config becomes `hardhat.config.shared.ts`, re-exported by
+ *   each example's `hardhat.config.ts`;
+ * - helper and mock contracts identical in two or more examples move to a `shared` workspace
+ *   package, and the examples' relative imports of them are rewritten to the package path.
+ *
+ * Workspace examples are not standalone repos, so they carry no generation manifest (`drift` and
+ * `create --update` only apply to standalone repos).
+ */
+
+import * as path from "node:path";
+
+import { CliError } from "./cli";
+import { createFilePlan, type FilePlan, planFile, planGenerated } from "./file-plan";
+import { MANIFEST_FILE } from "./generation-manifest";
+import { formatPackageJson } from "./json-format";
+
+export type WorkspaceMember = {
+  slug: string;
+  /** The example's standalone repo plan (paths relative to the repo). */
+  plan: FilePlan;
+};
+
+/** Files that move to the workspace root when every example plans the same content. */
+const ROOT_CONFIG_FILES = [
+  "biome.json",
+  ".solhint.json",
+  ".solhintignore",
+  "commitlint.config.js",
+  "lint-staged.config.js",
+  ".vscode/settings.json",
+  ".vscode/extensions.json",
+  ".husky/pre-commit",
+  ".husky/commit-msg",
+  ".husky/pre-push",
+];
+
+/** Scripts that only make sense at the root once lint configs and Husky are hoisted. */
+const ROOT_ONLY_SCRIPTS = [
+  "lint",
+  "lint:fix",
+  "lint:sol",
+  "lint:sol:fix",
+  "format",
+  "verify",
+  "prepare",
+];
+
+const SHARED_DIR = "shared";
+const SHARED_CONTRACT_DIRS = ["contracts/helpers/", "contracts/mocks/"];
+const SHARED_HARDHAT_CONFIG = "hardhat.config.shared.ts";
+
+type PackageJson = {
+  name?: string;
+  version?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+};
+
+export type WorkspaceOptions = {
+  /** Root package name (default `fhevm-category-<category>`); also scopes the shared package. */
+  name?: string;
+  description?: string;
+  /** Extra root scripts. */
+  scripts?: Record<string, string>;
+};
+
+type WorkspaceNames = {
+  /** Directory holding one workspace per example. */
+  dir: string;
+  root: string;
+  shared: string;
+  description: string;
+  scripts: Record<string, string>;
+};
+
+function workspaceNames(categoryName: string, options: WorkspaceOptions): WorkspaceNames {
+  const root = options.name ?? `fhevm-category-${categoryName}`;
+  return {
+    dir: categoryName,
+    root,
+    shared: `@${root}/shared`,
+    description:
+      options.description ?? `fhEVM examples of the ${categoryName} category, as npm workspaces`,
+    scripts: options.scripts ?? {},
+  };
+}
+
+function sameContent(a: string | Buffer, b: string | Buffer): boolean {
+  return Buffer.from(a).equals(Buffer.from(b));
+}
+
+/** The file every member plans at `filePath`; `undefined` when one lacks it or differs. */
+function commonFile(members: WorkspaceMember[], filePath: string) {
+  const [first, ...rest] = members.map((member) => member.plan.get(filePath));
+  if (!first) return undefined;
+  return rest.every((file) => file && sameContent(file.content, first.content)) ? first : undefined;
+}
+
+function readPackageJson(member: WorkspaceMember): PackageJson {
+  const file = member.plan.get("package.json");
+  if (!file) throw new CliError(`Workspace example ${member.slug} has no package.json`);
+  try {
+    return JSON.parse(file.content.toString()) as PackageJson;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliError(`Workspace example ${member.slug}: invalid package.json: ${message}`);
+  }
+}
+
+/** Relative import paths of a Solidity source. */
+function relativeImports(source: string): string[] {
+  const imports: string[] = [];
+  for (const match of source.matchAll(/^\s*import\b[^;]*?["']([^"']+)["']/gm)) {
+    if (match[1].startsWith(".")) imports.push(match[1]);
+  }
+  return imports;
+}
+
+/**
+ * Helper/mock contracts to move to the shared package: same path and content in two or more
+ * examples, and only importing (relatively) other shared contracts.
+ */
+function findSharedContracts(members: WorkspaceMember[]): Set<string> {
+  const shared = new Set<string>();
+  const candidates = new Set(
+    members.flatMap((member) =>
+      [...member.plan.keys()].filter((file) =>
+        SHARED_CONTRACT_DIRS.some((dir) => file.startsWith(dir)),
+      ),
+    ),
+  );
+  for (const file of candidates) {
+    const copies = members.flatMap((member) => member.plan.get(file) ?? []);
+    if (
+      copies.length >= 2 &&
+      copies.every((copy) => sameContent(copy.content, copies[0].content))
+    ) {
+      shared.add(file);
+    }
+  }
+
+  // Drop contracts whose relative imports would break once moved, until stable.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const file of shared) {
+      const source = members.flatMap((member) => member.plan.get(file) ?? [])[0].content;
+      const imports = relativeImports(source.toString());
+      if (imports.some((spec) => !shared.has(path.posix.join(path.posix.dirname(file), spec)))) {
+        shared.delete(file);
+        changed = true;
+      }
+    }
+  }
+  return shared;
+}
+
+/** Rewrites relative imports of shared contracts in `source` (located at `file`). */
+function rewriteSharedImports(
+  source: string,
+  file: string,
+  shared: Set<string>,
+  packageName: string,
+): string {
+  return source.replace(
+    /^(\s*import\b[^;]*?["'])(\.[^"']+)(["'])/gm,
+    (statement, head: string, spec: string, tail: string) => {
+      const target = path.posix.join(path.posix.dirname(file), spec);
+      return shared.has(target) ? `${head}${packageName}/${target}${tail}` : statement;
+    },
+  );
+}
+
+function generateSharedHardhatConfigReexport(): string {
+  return `import config from "../../${SHARED_HARDHAT_CONFIG.replace(/\.ts$/, "")}";
+
+export default config;
+`;
+}
+
+function generateRootPackageJson(
+  names: WorkspaceNames,
+  devDependencies: Record<string, string>,
+  withShared: boolean,
+): string {
+  const solidityGlobs = [
+    `'${names.dir}/*/contracts/**/*.sol'`,
+    ...(withShared ? [`'${SHARED_DIR}/contracts/**/*.sol'`] : []),
+  ].join(" ");
+  const sorted = Object.fromEntries(
+    Object.entries(devDependencies).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  return formatPackageJson({
+    name: names.root,
+    version: "1.0.0",
+    private: true,
+    description: names.description,
+    workspaces: [...(withShared ? [SHARED_DIR] : []), `${names.dir}/*`],
+    scripts: {
+      compile: "npm run compile --workspaces --if-present",
+      test: "npm run test --workspaces --if-present",
+      "test:mocked": "npm run test:mocked --workspaces --if-present",
+      typecheck: "npm run typecheck --workspaces --if-present",
+      lint: "biome check .",
+      "lint:fix": "biome check . --write",
+      "lint:sol": `solhint ${solidityGlobs}`,
+      "lint:sol:fix": `solhint ${solidityGlobs} --fix`,
+      format: "biome format . --write",
+      verify: "npm run lint && npm run lint:sol && npm run typecheck && npm run test:mocked",
+      prepare: "husky",
+      ...names.scripts,
+    },
+    license: "MIT",
+    devDependencies: sorted,
+    engines: {
+      node: ">=22.0.0 <25.0.0",
+    },
+  });
+}
+
+/** Root ignores only; each example keeps its own `.gitignore` (its patterns are anchored there). */
+function generateRootGitignore(): string {
+  return `node_modules
+.env
+`;
+}
+
+function generateSharedPackageJson(names: WorkspaceNames): string {
+  return formatPackageJson({
+    name: names.shared,
+    version: "1.0.0",
+    private: true,
+    description: `Helper and mock contracts shared by the ${names.dir} examples`,
+    files: ["contracts"],
+    license: "MIT",
+  });
+}
+
+/** Imports the shared contracts an example uses so Hardhat compiles them (tests deploy mocks). */
+function generateSharedImports(sharedPackage: string, files: string[]): string {
+  const imports = files.map((file) => `import "${sharedPackage}/${file}";`);
+  return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+// Shared helper and mock contracts used by this example, compiled for its tests and deploy script.
+${imports.join("\n")}
+`;
+}
+
+/**
+ * Combines the standalone plans of `members` into one workspace plan: root files, the `shared`
+ * package and one workspace per example at `<categoryName>/<slug>`.
+ */
+export function planCategoryWorkspace(
+  categoryName: string,
+  members: WorkspaceMember[],
+  options: WorkspaceOptions = {},
+): FilePlan {
+  const plan = createFilePlan();
+  const names = workspaceNames(categoryName, options);
+  const packageName = names.shared;
+
+  const rootFiles = ROOT_CONFIG_FILES.flatMap((file) => commonFile(members, file) ?? []);
+  for (const file of rootFiles) planFile(plan, file);
+  const hoisted = new Set(rootFiles.map((file) => file.path));
+
+  const hardhatConfig = commonFile(members, "hardhat.config.ts");
+  if (hardhatConfig) planFile(plan, { ...hardhatConfig, path: SHARED_HARDHAT_CONFIG });
+
+  const shared = findSharedContracts(members);
+  for (const file of shared) {
+    const copy = members.flatMap((member) => member.plan.get(file) ?? [])[0];
+    planFile(plan, { ...copy, path: `${SHARED_DIR}/${file}` });
+  }
+  if (shared.size > 0) {
+    planGenerated(plan, `${SHARED_DIR}/package.json`, generateSharedPackageJson(names));
+  }
+
+  const devDependencies: Record<string, string> = {};
+  for (const member of members) {
+    const prefix = `${categoryName}/${member.slug}`;
+    const pkg = readPackageJson(member);
+    const used = [...shared].filter((file) => member.plan.has(file)).sort();
+
+    Object.assign(devDependencies, pkg.devDependencies);
+    delete pkg.devDependencies;
+    for (const script of ROOT_ONLY_SCRIPTS) delete pkg.scripts?.[script];
+    if (used.length > 0) pkg.dependencies = { ...pkg.dependencies, [packageName]: "1.0.0" };
+
+    for (const file of member.plan.values()) {
+      if (hoisted.has(file.path) || shared.has(file.path)) continue;
+      if (file.path === MANIFEST_FILE || file.path === "package-lock.json") continue;
+
+      let planned = file;
+      if (file.path === "package.json") {
+        planned = { ...file, source: "generated", content: formatPackageJson(pkg) };
+      } else if (file.path === "hardhat.config.ts" && hardhatConfig) {
+        planned = { ...file, content: generateSharedHardhatConfigReexport() };
+      } else if (file.path.endsWith(".sol") && shared.size > 0) {
+        const source = file.content.toString();
+        const rewritten = rewriteSharedImports(source, file.path, shared, packageName);
+        if (rewritten !== source) planned = { ...file, source: "generated", content: rewritten };
+      }
+      planFile(plan, { ...planned, path: `${prefix}/${file.path}` });
+    }
+    if (used.length > 0) {
+      planGenerated(
+        plan,
+        `${prefix}/contracts/SharedContracts.sol`,
+        generateSharedImports(packageName, used),
+      );
+    }
+  }
+
+  planGenerated(plan, ".gitignore", generateRootGitignore());
+  planGenerated(
+    plan,
+    "package.json",
+    generateRootPackageJson(names, devDependencies, shared.size > 0),
+  );
+  return plan;
+}
@@ -0,0 +1,322 @@
+/**
+ * Small command framework behind `scripts/fhevm-hub.ts`.
+ *
+ * Commands are declared as data (arguments, options, examples) so argv parsing,
+ * validation and `--help` output all come from the same definition.
+ */
+
+import * as path from "node:path";
+
+import { type ExampleRegistry, loadExampleRegistry } from "../example-registry";
+import type { Logger } from "./logger";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number = EXIT_FAILURE,
+  ) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export class UsageError extends CliError {
+  constructor(message: string) {
+    super(message, EXIT_USAGE);
+    this.name = "UsageError";
+  }
+}
+
+export type OptionDefinition = {
+  name: string;
+  alias?: string;
+  description: string;
+  /** When set, the option takes a value (`--name <value>` or `--name=<value>`). */
+  valueName?: string;
+};
+
+export type ArgumentDefinition = {
+  name: string;
+  description: string;
+  required?: boolean;
+  /** Takes every remaining positional argument; only valid on the last argument. */
+  variadic?: boolean;
+};
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export type CommandContext = {
+  rootDir: string;
+  args: string[];
+  options: OptionValues;
+  json: boolean;
+  quiet: boolean;
+  /** Set by `--no-cache`; the registry is then rebuilt from source. */
+  noCache: boolean;
+  logger: Logger;
+  /** Prints primary command output (suppressed in `--json` mode, never by `--quiet`). */
+  print: (message: string) => void;
+  registry: () => ExampleRegistry;
+};
+
+export type CommandOutcome = {
+  /** Serialized to stdout in `--json` mode. */
+  result?: unknown;
+  exitCode?: number;
+};
+
+export type CommandDefinition = {
+  name: string;
+  summary: string;
+  description?: string;
+  arguments?: ArgumentDefinition[];
+  options?: OptionDefinition[];
+  examples?: string[];
+  run: (ctx: CommandContext) => Promise<CommandOutcome | undefined> | CommandOutcome | undefined;
+};
+
+export const GLOBAL_OPTIONS: OptionDefinition[] = [
+  { name: "json", description: "Print machine-readable JSON instead of text" },
+  { name: "quiet", alias: "q", description: "Only print errors and primary output" },
+  {
+    name: "cwd",
+    valueName: "dir",
+    description: "Hub root to operate on (default: this repository)",
+  },
+  {
+    name: "no-cache",
+    description: "Re-parse every contract instead of using .cache/registry.json",
+  },
+  { name: "help", alias: "h", description: "Show help" },
+];
+
+type ParsedArgv = {
+  args: string[];
+  options: OptionValues;
+};
+
+function findOption(definitions: OptionDefinition[], token: string): OptionDefinition | undefined {
+  if (token.startsWith("--")) {
+    const name = token.slice(2);
+    return definitions.find((option) => option.name === name);
+  }
+  const alias = token.slice(1);
+  return definitions.find((option) => option.alias === alias);
+}
+
+export function parseArgv(argv: string[], definitions: OptionDefinition[]): ParsedArgv {
+  const args: string[] = [];
+  const options: OptionValues = {};
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--") {
+      args.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!token.startsWith("-") || token === "-") {
+      args.push(token);
+      continue;
+    }
+
+    const eqIndex = token.indexOf("=");
+    const flag = eqIndex === -1 ? token : token.slice(0, eqIndex);
+    const option = findOption(definitions, flag);
+    if (!option) {
+      throw new UsageError(`Unknown option: ${flag}`);
+    }
+
+    if (!option.valueName) {
+      if (eqIndex !== -1) {
+        throw new UsageError(`Option --${option.name} does not take a value`);
+      }
+      options[option.name] = true;
+      continue;
+    }
+
+    const value = eqIndex !== -1 ? token.slice(eqIndex + 1) : argv[i + 1];
+    if (value === undefined || (eqIndex === -1 && value.startsWith("-"))) {
+      throw new UsageError(`Option --${option.name} requires a <${option.valueName}> value`);
+    }
+    options[option.name] = value;
+    if (eqIndex === -1) i += 1;
+  }
+
+  return { args, options };
+}
+
+function formatArgumentUsage(argument: ArgumentDefinition): string {
+  const name = argument.variadic ? `${argument.name}...` : argument.name;
+  return argument.required ? `<${name}>` : `[${name}]`;
+}
+
+function formatOptionLabel(option: OptionDefinition): string {
+  const alias = option.alias ? `-${option.alias}, ` : "    ";
+  const value = option.valueName ? ` <${option.valueName}>` : "";
+  return `${alias}--${option.name}${value}`;
+}
+
+function formatTable(rows: Array<[string, string]>): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, text]) => `  ${label.padEnd(width)}  ${text}`).join("\n");
+}
+
+export function formatCommandUsage(program: string, command: CommandDefinition): string {
+  const args = (command.arguments ?? []).map(formatArgumentUsage).join(" ");
+  return `${program} ${command.name}${args ? ` ${args}` : ""} [options]`;
+}
+
+export function formatProgramHelp(program: string, commands: CommandDefinition[]): string {
+  const commandRows = commands.map((command): [string, string] => [
+    `${command.name} ${(command.arguments ?? []).map(formatArgumentUsage).join(" ")}`.trimEnd(),
+    command.summary,
+  ]);
+  const optionRows = GLOBAL_OPTIONS.map((option): [string, string] => [
+    formatOptionLabel(option),
+    option.description,
+  ]);
+
+  return `fhEVM Example Hub
+
+Usage
+  ${program} <command> [options]
+
+Commands
+${formatTable(commandRows)}
+
+Global options
+${formatTable(optionRows)}
+
+Run "${program} <command> --help" for command-specific options.
+`;
+}
+
+export function formatCommandHelp(program: string, command: CommandDefinition): string {
+  const sections = [`Usage\n  ${formatCommandUsage(program, command)}`];
+  sections.push(command.description ?? command.summary);
+
+  if (command.arguments && command.arguments.length > 0) {
+    const rows = command.arguments.map((argument): [string, string] => [
+      formatArgumentUsage(argument),
+      argument.description,
+    ]);
+    sections.push(`Arguments\n${formatTable(rows)}`);
+  }
+
+  const optionRows = [...(command.options ?? []), ...GLOBAL_OPTIONS].map(
+    (option): [string, string] => [formatOptionLabel(option), option.description],
+  );
+  sections.push(`Options\n${formatTable(optionRows)}`);
+
+  if (command.examples && command.examples.length > 0) {
+    sections.push(`Examples\n${command.examples.map((example) => `  ${example}`).join("\n")}`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+function resolveRootDir(cwdOption: string | boolean | undefined, defaultRootDir: string): string {
+  if (typeof cwdOption !== "string") return defaultRootDir;
+  return path.resolve(process.cwd(), cwdOption);
+}
+
+export type RunCliOptions = {
+  program: string;
+  commands: CommandDefinition[];
+  defaultRootDir: string;
+};
+
+/**
+ * Parses argv, dispatches to the matching command and returns the process exit code.
+ * Never calls `process.exit` so it can be driven from tests or other tooling.
+ */
+export async function runCli(argv: string[], config: RunCliOptions): Promise<number> {
+  const { program, commands, defaultRootDir } = config;
+  const [commandName, ...rest] = argv;
+
+  if (!commandName || commandName === "--help" || commandName === "-h") {
+    console.log(formatProgramHelp(program, commands));
+    return commandName ? EXIT_OK : EXIT_USAGE;
+  }
+
+  if (commandName === "help") {
+    const target = commands.find((command) => command.name === rest[0]);
+    console.log(target ? formatCommandHelp(program, target) : formatProgramHelp(program, commands));
+    return rest[0] && !target ? EXIT_USAGE : EXIT_OK;
+  }
+
+  const command = commands.find((candidate) => candidate.name === commandName);
+  if (!command) {
+    console.error(`Unknown command: ${commandName}\n`);
+    console.error(formatProgramHelp(program, commands));
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { args, options } = parseArgv(rest, [...(command.options ?? []), ...GLOBAL_OPTIONS]);
+
+    if (options.help) {
+      console.log(formatCommandHelp(program, command));
+      return EXIT_OK;
+    }
+
+    const required = (command.arguments ?? []).filter((argument) => argument.required);
+    if (args.length < required.length) {
+      const missing = required.slice(args.length).map((argument) => `<${argument.name}>`);
+      throw new UsageError(
+        `Missing argument ${missing.join(" ")}\n\n${formatCommandHelp(program, command)}`,
+      );
+    }
+    const maxArgs = command.arguments?.at(-1)?.variadic
+      ? Number.POSITIVE_INFINITY
+      : (command.arguments?.length ?? 0);
+    if (args.length > maxArgs) {
+      throw new UsageError(`Unexpected argument: ${args[maxArgs]}`);
+    }
+
+    const json = options.json === true;
+    const quiet = options.quiet === true || json;
+    const noCache = options["no-cache"] === true;
+    const rootDir = resolveRootDir(options.cwd, defaultRootDir);
+    let registry: ExampleRegistry | undefined;
+
+    const ctx: CommandContext = {
+      rootDir,
+      args,
+      options,
+      json,
+      quiet,
+      noCache,
+      logger: {
+        info: (message) => {
+          if (!quiet) console.log(message);
+        },
+        warn: (message) => console.warn(message),
+      },
+      print: (message) => {
+        if (!json) console.log(message);
+      },
+      registry: () => {
+        registry ??= loadExampleRegistry(rootDir, { cache: !noCache });
+        return registry;
+      },
+    };
+
+    const outcome = (await command.run(ctx)) ?? {};
+    if (json && outcome.result !== undefined) {
+      console.log(JSON.stringify(outcome.result, null, 2));
+    }
+    return outcome.exitCode ?? EXIT_OK;
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(error.message);
+      return error.exitCode;
+    }
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILURE;
+  }
+}
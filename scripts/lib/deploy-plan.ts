@@ -0,0 +1,393 @@
+/**
+ * Normalization and static checking of `@custom:deploy-plan` steps.
+ *
+ * The plan is checked against each contract's constructor before any deploy script is rendered:
+ * deployable contract, argument count, argument kind vs. ABI type, and `@ref` targets. Encrypted
+ * args count as their handle parameter plus the shared `bytes inputProof` that follows them.
+ * `afterDeploy` actions are checked the same way against the target contract's functions.
+ */
+
+import {
+  type CallArg,
+  type DeployAction,
+  type DeployArg,
+  type DeployStep,
+  type EncryptedArg,
+  type EncryptedType,
+  encryptedValues,
+  isEncryptedArg,
+  isRoleHash,
+  toCallArgs,
+  toVarName,
+} from "../deploy-script-generators";
+import type { ContractKind, SolidityFunction, SolidityParameter } from "./solidity-metadata";
+
+export type DeployTarget = {
+  kind: ContractKind;
+  constructorInputs: SolidityParameter[];
+  /** Public and external functions, including inherited ones when known. */
+  functions: SolidityFunction[];
+  /**
+   * True when `functions` is the full ABI (artifact, or every base contract is in the hub).
+   * Missing methods are only reported for complete targets.
+   */
+  complete: boolean;
+  /** Where the constructor came from: compiled artifact ABI, or the Solidity AST. */
+  source: "artifact" | "source";
+};
+
+/** Resolves a contract name to its constructor, or undefined when no such contract exists. */
+export type DeployTargetResolver = (contractName: string) => DeployTarget | undefined;
+
+/**
+ * Expands the string shorthands used in NatSpec: `@name` (saved step), `$deployer`,
+ * `#expr` (raw TypeScript expression); other strings are literals and numbers are values.
+ * The clear value(s) of `{"encrypted": {"type", "value"}}` use the same shorthands.
+ */
+export function normalizeDeployArg(arg: unknown): DeployArg {
+  if (typeof arg === "string") {
+    if (arg.startsWith("@")) return { ref: arg.slice(1) };
+    if (arg === "$deployer") return { signer: "deployer" };
+    if (arg.startsWith("#")) return { expr: arg.slice(1) };
+    return { literal: arg };
+  }
+  if (typeof arg === "number") {
+    return { value: arg };
+  }
+  if (typeof arg === "boolean") {
+    return { bool: arg };
+  }
+  if (typeof arg === "object" && arg !== null) {
+    if ("encrypted" in arg) {
+      const { type, value } = (arg as EncryptedArg).encrypted;
+      const clear = Array.isArray(value)
+        ? value.map((entry) => normalizeDeployArg(entry))
+        : normalizeDeployArg(value);
+      return { encrypted: { type, value: clear } };
+    }
+    return arg as DeployArg;
+  }
+  return { literal: String(arg) };
+}
+
+/**
+ * Expands the NatSpec form of an `afterDeploy` entry (already shape-checked by the metadata
+ * schema): a plain string is raw code, objects are keyed by their action verb.
+ */
+export function normalizeDeployAction(entry: unknown): DeployAction {
+  if (typeof entry === "string") return { kind: "code", code: entry };
+  const record = entry as Record<string, unknown>;
+  const arg = (value: unknown) => normalizeDeployArg(value);
+
+  if (typeof record.call === "string") {
+    const [target, method] = record.call.split(".");
+    const args = Array.isArray(record.args) ? record.args.map(arg) : [];
+    return { kind: "call", target, method, args };
+  }
+  if (typeof record.grantRole === "string") {
+    return {
+      kind: "grantRole",
+      target: String(record.on),
+      role: record.grantRole,
+      account: arg(record.to),
+    };
+  }
+  if (typeof record.mint === "string") {
+    return { kind: "mint", target: record.mint, to: arg(record.to), amount: arg(record.amount) };
+  }
+  if (typeof record.log === "string") {
+    return {
+      kind: "log",
+      message: record.log,
+      value: record.value === undefined ? undefined : arg(record.value),
+    };
+  }
+  return { kind: "code", code: String(record.code) };
+}
+
+/** Expands one shape-checked NatSpec step (args and `afterDeploy` shorthands). */
+export function normalizeDeployStep(step: unknown): DeployStep {
+  const record = step as DeployStep & { args?: unknown[]; afterDeploy?: unknown[] };
+  return {
+    ...record,
+    args: record.args?.map((arg) => normalizeDeployArg(arg)),
+    afterDeploy: record.afterDeploy?.map((action) => normalizeDeployAction(action)),
+  };
+}
+
+type TypeClass =
+  | "integer"
+  | "unsigned"
+  | "address"
+  | "bool"
+  | "string"
+  | "bytes"
+  | "complex"
+  | "named";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/u;
+
+function classifyType(type: string): TypeClass {
+  if (type.endsWith("]") || type === "tuple" || type === "mapping" || type === "function") {
+    return "complex";
+  }
+  if (/^uint\d*$/u.test(type)) return "unsigned";
+  if (/^int\d*$/u.test(type)) return "integer";
+  if (type === "address" || type === "address payable") return "address";
+  if (type === "bool") return "bool";
+  if (type === "string") return "string";
+  if (/^bytes\d*$/u.test(type)) return "bytes";
+  // Contracts, interfaces, enums and structs from source (artifacts already lower them).
+  return "named";
+}
+
+function checkLiteral(literal: string, type: string): string | undefined {
+  switch (classifyType(type)) {
+    case "string":
+      return undefined;
+    case "address":
+    case "named":
+      return ADDRESS_PATTERN.test(literal)
+        ? undefined
+        : `expects ${type} (an address), got string "${literal}"`;
+    case "unsigned":
+      return /^\d+$/u.test(literal) ? undefined : `expects ${type}, got string "${literal}"`;
+    case "integer":
+      return /^-?\d+$/u.test(literal) ? undefined : `expects ${type}, got string "${literal}"`;
+    case "bytes": {
+      const size = Number(type.slice("bytes".length));
+      const hex = /^0x([0-9a-fA-F]{2})*$/u.test(literal);
+      if (hex && (!size || literal.length === 2 + size * 2)) return undefined;
+      return `expects ${type} as 0x-prefixed hex, got "${literal}"`;
+    }
+    default:
+      return `expects ${type}; use a "#expression" argument`;
+  }
+}
+
+function checkValue(value: number, type: string): string | undefined {
+  const typeClass = classifyType(type);
+  if (typeClass === "named") return undefined;
+  if (typeClass !== "unsigned" && typeClass !== "integer") {
+    return `expects ${type}, got number ${value}`;
+  }
+  if (!Number.isSafeInteger(value)) {
+    return `expects ${type}, got non-integer or unsafe number ${value}; pass it as a string`;
+  }
+  if (typeClass === "unsigned" && value < 0) return `expects ${type}, got negative ${value}`;
+  return undefined;
+}
+
+/** Clear Solidity type of each encrypted type's values (`euint64` -> `uint64`). */
+function clearTypeOf(type: EncryptedType): string {
+  if (type === "ebool") return "bool";
+  if (type === "eaddress") return "address";
+  return type.slice(1);
+}
+
+/** Encrypted args bind to `externalE*` handles (`bytes32` once lowered into an artifact ABI). */
+function checkEncrypted(
+  arg: EncryptedArg,
+  type: string,
+  variables: Map<string, string>,
+): string | undefined {
+  const { type: encryptedType, value } = arg.encrypted;
+  const got = Array.isArray(value)
+    ? `${value.length} encrypted ${encryptedType} value(s)`
+    : `encrypted ${encryptedType}`;
+  const [, base, size] = /^(.*?)(?:\[(\d*)\])?$/u.exec(type) ?? [];
+  const handleType = `externalE${encryptedType.slice(1)}`;
+  if (base !== handleType && base !== "bytes32") return `expects ${type}, got ${got}`;
+  if (Array.isArray(value) !== (size !== undefined)) return `expects ${type}, got ${got}`;
+  if (size && Array.isArray(value) && Number(size) !== value.length) {
+    return `expects ${type}, got ${got}`;
+  }
+
+  for (const clear of encryptedValues(arg)) {
+    const problem = checkArg(clear, clearTypeOf(encryptedType), variables);
+    if (problem) return `encrypted value ${problem}`;
+  }
+  return undefined;
+}
+
+function checkArg(arg: CallArg, type: string, variables: Map<string, string>): string | undefined {
+  if ("expr" in arg) return undefined;
+  if ("literal" in arg) return checkLiteral(arg.literal, type);
+  if ("value" in arg) return checkValue(arg.value, type);
+
+  const typeClass = classifyType(type);
+  if ("inputProof" in arg) {
+    return type === "bytes" ? undefined : `expects ${type}, got the encrypted input's inputProof`;
+  }
+  if (isEncryptedArg(arg)) return checkEncrypted(arg, type, variables);
+  if ("bool" in arg) {
+    return typeClass === "bool" || typeClass === "named"
+      ? undefined
+      : `expects ${type}, got boolean ${arg.bool}`;
+  }
+  const addressLike = typeClass === "address" || typeClass === "named";
+  if ("signer" in arg) {
+    return addressLike ? undefined : `expects ${type}, got the deployer address`;
+  }
+  if (!variables.has(arg.ref)) {
+    return `references "@${arg.ref}", which no earlier step saves`;
+  }
+  return addressLike ? undefined : `expects ${type}, got the address of "@${arg.ref}"`;
+}
+
+function formatArgCount(callArgs: CallArg[]): string {
+  const withProof = callArgs.some((arg) => "inputProof" in arg) ? " (incl. inputProof)" : "";
+  return `${callArgs.length} arg(s)${withProof}`;
+}
+
+function formatSignature(inputs: SolidityParameter[]): string {
+  return inputs.map((input) => `${input.type} ${input.name}`.trim()).join(", ");
+}
+
+/** Refs that are not yet saved, for args whose parameter types are unknown. */
+function checkRefs(args: DeployArg[], variables: Map<string, string>, where: string): string[] {
+  return args
+    .flatMap((arg) => (isEncryptedArg(arg) ? encryptedValues(arg) : [arg]))
+    .filter((arg): arg is { ref: string } => "ref" in arg && !variables.has(arg.ref))
+    .map((arg) => `${where} references "@${arg.ref}", which no earlier step saves`);
+}
+
+function checkArgs(
+  args: CallArg[],
+  inputs: SolidityParameter[],
+  variables: Map<string, string>,
+  where: string,
+): string[] {
+  const problems: string[] = [];
+  args.forEach((arg, argIndex) => {
+    const input = inputs[argIndex];
+    if (!input) return;
+    const problem = checkArg(arg, input.type, variables);
+    if (problem) {
+      const label = input.name ? ` (${input.name})` : "";
+      problems.push(`${where} arg ${argIndex + 1}${label} ${problem}`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Checks `method(args)` on the contract bound to `variable`. Methods missing from an incomplete
+ * target (inherited from a package and no artifact yet) are assumed to exist.
+ */
+function checkMethodCall(
+  variable: string,
+  method: string,
+  args: DeployArg[],
+  variables: Map<string, string>,
+  resolve: DeployTargetResolver,
+  where: string,
+): string[] {
+  const contractName = variables.get(variable);
+  if (!contractName) return [`${where} targets "${variable}", which no step saves`];
+
+  const target = resolve(contractName);
+  const overloads = (target?.functions ?? []).filter((fn) => fn.name === method);
+  if (overloads.length === 0) {
+    if (target?.complete) return [`${where} calls ${contractName}.${method}, which does not exist`];
+    return checkRefs(args, variables, where);
+  }
+
+  const callArgs = toCallArgs(args);
+  const match = overloads.find((fn) => fn.inputs.length === callArgs.length);
+  if (!match) {
+    const signatures = overloads.map((fn) => `(${formatSignature(fn.inputs)})`).join(" or ");
+    return [
+      `${where} passes ${formatArgCount(callArgs)} to ${contractName}.${method}, which takes ${signatures}`,
+    ];
+  }
+  return checkArgs(callArgs, match.inputs, variables, where);
+}
+
+function checkAction(
+  action: DeployAction,
+  variables: Map<string, string>,
+  resolve: DeployTargetResolver,
+  where: string,
+): string[] {
+  switch (action.kind) {
+    case "call":
+      return checkMethodCall(action.target, action.method, action.args, variables, resolve, where);
+    case "grantRole": {
+      const problems =
+        isRoleHash(action.role) || /^[A-Za-z_]\w*$/u.test(action.role)
+          ? []
+          : [`${where} role "${action.role}" must be a constant name or a bytes32 hex value`];
+      // The role is resolved at run time, so only the account is type-checked.
+      const args: DeployArg[] = [{ expr: action.role }, action.account];
+      return [
+        ...problems,
+        ...checkMethodCall(action.target, "grantRole", args, variables, resolve, where),
+      ];
+    }
+    case "mint":
+      return checkMethodCall(
+        action.target,
+        "mint",
+        [action.to, action.amount],
+        variables,
+        resolve,
+        where,
+      );
+    case "log":
+      if (action.value && isEncryptedArg(action.value)) {
+        return [`${where} cannot log an encrypted value`];
+      }
+      return action.value ? checkRefs([action.value], variables, where) : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Returns one message per problem, prefixed with the 1-based step (and argument) position.
+ * A `@ref` may name an earlier step's variable (`saveAs`, else the camel-cased contract name) or,
+ * like the generated script, its contract name. `afterDeploy` actions also see the current step.
+ */
+export function validateDeployPlan(plan: DeployStep[], resolve: DeployTargetResolver): string[] {
+  const problems: string[] = [];
+  // Plan variable (and contract name) -> deployed contract name.
+  const variables = new Map<string, string>();
+
+  plan.forEach((step, index) => {
+    const where = `step ${index + 1}`;
+    const contractName = step.contract.replace(/\.sol$/u, "");
+    const target = resolve(contractName);
+    const args = step.args ?? [];
+
+    if (!target) {
+      problems.push(`${where} deploys unknown contract "${step.contract}"`);
+      problems.push(...checkRefs(args, variables, where));
+    } else if (target.kind !== "contract") {
+      problems.push(
+        `${where} deploys ${contractName}, which is ${target.kind === "interface" ? "an" : "a"} ${target.kind}`,
+      );
+      problems.push(...checkRefs(args, variables, where));
+    } else {
+      const inputs = target.constructorInputs;
+      const callArgs = toCallArgs(args);
+      if (callArgs.length !== inputs.length) {
+        problems.push(
+          `${where} passes ${formatArgCount(callArgs)} to ${contractName}, constructor takes ${inputs.length} (${formatSignature(inputs)})`,
+        );
+      }
+      problems.push(...checkArgs(callArgs, inputs, variables, where));
+    }
+
+    variables.set(step.saveAs ?? toVarName(contractName), contractName);
+    variables.set(contractName, contractName);
+
+    (step.afterDeploy ?? []).forEach((action, actionIndex) => {
+      problems.push(
+        ...checkAction(action, variables, resolve, `${where} afterDeploy ${actionIndex + 1}`),
+      );
+    });
+  });
+
+  return problems;
+}
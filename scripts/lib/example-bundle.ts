@@ -0,0 +1,107 @@
+/**
+ * Merging several examples into one repo (`bundle`).
+ *
+ * Starts from the standalone repo plans `scaffoldExample` builds. Contracts and tests keep their
+ * paths; a file several examples ship with the same content (a shared helper such as
+ * `AuctionPaymentToken`) is written once, and one that clashes with different content moves
+ * under the example's slug (`contracts/<slug>/...`), with the example's relative Solidity imports
+ * rewritten to match. Template and config files come from the first example. `package.json`,
+ * `README.md` and `scripts/deploy.ts` are left to the caller, which generates combined ones.
+ */
+
+import * as path from "node:path";
+
+import type { ExampleMeta } from "../example-registry";
+import { createFilePlan, type FilePlan, type PlannedFile, planFile } from "./file-plan";
+import { MANIFEST_FILE } from "./generation-manifest";
+
+export type BundleMember = {
+  example: ExampleMeta;
+  /** The example's standalone repo plan. */
+  plan: FilePlan;
+};
+
+export type BundleRename = {
+  slug: string;
+  from: string;
+  to: string;
+};
+
+export type MergedBundle = {
+  plan: FilePlan;
+  /** Example files moved under their slug because another example has a different file there. */
+  renamed: BundleRename[];
+};
+
+/** Per-example files the bundle generates itself. */
+const COMBINED_FILES = new Set(["package.json", "README.md", "scripts/deploy.ts", MANIFEST_FILE]);
+
+/** Directories holding each example's own files (as opposed to template and config files). */
+const EXAMPLE_DIRS = ["contracts/", "test/"];
+
+function isExampleFile(filePath: string): boolean {
+  return EXAMPLE_DIRS.some((dir) => filePath.startsWith(dir));
+}
+
+function sameContent(a: PlannedFile, b: PlannedFile): boolean {
+  return Buffer.from(a.content).equals(Buffer.from(b.content));
+}
+
+/** `contracts/helpers/X.sol` → `contracts/<slug>/helpers/X.sol`. */
+function namespaced(filePath: string, slug: string): string {
+  const [dir, ...rest] = filePath.split("/");
+  return [dir, slug, ...rest].join("/");
+}
+
+/** Rewrites the relative imports of a Solidity file moved from `from` to `to`. */
+function rewriteImports(source: string, from: string, to: string, moved: Map<string, string>) {
+  return source.replace(
+    /^(\s*import\b[^;]*?["'])(\.[^"']+)(["'])/gm,
+    (statement, head: string, spec: string, tail: string) => {
+      const target = path.posix.join(path.posix.dirname(from), spec);
+      if (from === to && !moved.has(target)) return statement;
+      let relative = path.posix.relative(path.posix.dirname(to), moved.get(target) ?? target);
+      if (!relative.startsWith(".")) relative = `./${relative}`;
+      return `${head}${relative}${tail}`;
+    },
+  );
+}
+
+/** Merges the members' plans in order; see the module comment for the rules. */
+export function mergeExamplePlans(members: BundleMember[]): MergedBundle {
+  const plan = createFilePlan();
+  const renamed: BundleRename[] = [];
+
+  for (const { example, plan: memberPlan } of members) {
+    // Clashing files this example moves under its slug, and the files it adds.
+    const moved = new Map<string, string>();
+    const placed: PlannedFile[] = [];
+    for (const file of memberPlan.values()) {
+      if (COMBINED_FILES.has(file.path)) continue;
+      const existing = plan.get(file.path);
+      if (!existing) {
+        placed.push(file);
+      } else if (isExampleFile(file.path) && !sameContent(existing, file)) {
+        const to = namespaced(file.path, example.slug);
+        moved.set(file.path, to);
+        renamed.push({ slug: example.slug, from: file.path, to });
+        placed.push(file);
+      }
+    }
+
+    for (const file of placed) {
+      const to = moved.get(file.path) ?? file.path;
+      if (file.path.endsWith(".sol") && moved.size > 0) {
+        const source = file.content.toString();
+        const rewritten = rewriteImports(source, file.path, to, moved);
+        if (rewritten !== source) {
+          planFile(plan, { ...file, path: to, source: "generated", content: rewritten });
+          continue;
+        }
+      }
+      planFile(plan, { ...file, path: to });
+    }
+  }
+
+  return { plan, renamed };
+}
@@ -0,0 +1,286 @@
+/**
+ * The example dependency graph: which contracts each example copies into its repo and which
+ * examples it builds on. Exported by the `graph` command (JSON, DOT, Mermaid) and embedded per
+ * example in the GitBook pages.
+ *
+ * Nodes are examples (standing for their main contract) and the other hub contracts they use:
+ * helpers, mocks and plain contracts such as interfaces. Edges go from an example to what it
+ * uses; an example using another example's main contract gets a `depends-on` edge to that example.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import type { ExampleMeta, ExampleRegistry } from "../example-registry";
+
+export type GraphNodeKind = "example" | "contract" | "helper" | "mock";
+export type GraphEdgeKind = "depends-on" | "extra" | "helper" | "mock";
+
+export type GraphNode = {
+  /** Example slug, or the hub-relative path of a contract file. */
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  /** Hub-relative contract file. */
+  file: string;
+};
+
+export type GraphEdge = {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+};
+
+export type ExampleGraph = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Example slugs depending on each other in a loop (strongly connected components). */
+  cycles: string[][];
+  /** Helper and mock files no example uses. */
+  orphans: string[];
+};
+
+function toHubPath(rootDir: string, file: string): string {
+  return path.relative(rootDir, file).split(path.sep).join("/");
+}
+
+function fileKind(file: string): GraphNodeKind {
+  if (file.includes("/helpers/")) return "helper";
+  if (file.includes("/mocks/")) return "mock";
+  return "contract";
+}
+
+/** Hub-relative helper and mock contracts under `contracts/`. */
+function listSupportFiles(rootDir: string): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    if (!fs.existsSync(dir)) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else if (entry.name.endsWith(".sol")) {
+        const file = toHubPath(rootDir, entryPath);
+        if (fileKind(file) !== "contract") files.push(file);
+      }
+    }
+  };
+  visit(path.join(rootDir, "contracts"));
+  return files.sort();
+}
+
+/** Strongly connected components of the `depends-on` edges with more than one example. */
+function findCycles(slugs: string[], edges: GraphEdge[]): string[][] {
+  const next = new Map<string, string[]>(slugs.map((slug) => [slug, []]));
+  for (const edge of edges) {
+    if (edge.kind === "depends-on") next.get(edge.from)?.push(edge.to);
+  }
+
+  // Tarjan's algorithm
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  const visit = (slug: string) => {
+    index.set(slug, index.size);
+    lowLink.set(slug, index.get(slug) ?? 0);
+    stack.push(slug);
+    onStack.add(slug);
+    for (const target of next.get(slug) ?? []) {
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(slug, Math.min(lowLink.get(slug) ?? 0, lowLink.get(target) ?? 0));
+      } else if (onStack.has(target)) {
+        lowLink.set(slug, Math.min(lowLink.get(slug) ?? 0, index.get(target) ?? 0));
+      }
+    }
+    if (lowLink.get(slug) !== index.get(slug)) return;
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop();
+      if (member === undefined) break;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== slug);
+    const selfLoop = next.get(slug)?.includes(slug) ?? false;
+    if (component.length > 1 || selfLoop) cycles.push(component.sort());
+  };
+  for (const slug of slugs) {
+    if (!index.has(slug)) visit(slug);
+  }
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/** Builds the dependency graph of every registry example. */
+export function buildExampleGraph(rootDir: string, registry: ExampleRegistry): ExampleGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const addEdge = (edge: GraphEdge) => {
+    const key = `${edge.from} -> ${edge.to}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(edge);
+  };
+  const byFile = new Map<string, ExampleMeta>();
+  for (const example of registry.examples) {
+    const file = toHubPath(rootDir, example.contractFile);
+    byFile.set(file, example);
+    nodes.set(example.slug, { id: example.slug, kind: "example", label: example.title, file });
+  }
+
+  const addFile = (file: string): string => {
+    if (!nodes.has(file)) {
+      nodes.set(file, { id: file, kind: fileKind(file), label: path.basename(file, ".sol"), file });
+    }
+    return file;
+  };
+
+  for (const example of registry.examples) {
+    const used: [string, GraphEdgeKind][] = [
+      ...example.helperFiles.map((file): [string, GraphEdgeKind] => [file, "helper"]),
+      ...example.mockFiles.map((file): [string, GraphEdgeKind] => [file, "mock"]),
+      ...example.extraContractFiles.map((file): [string, GraphEdgeKind] => [file, "extra"]),
+    ];
+    for (const [absolute, kind] of used) {
+      const file = toHubPath(rootDir, absolute);
+      const target = byFile.get(file);
+      if (target === example) continue;
+      if (target) {
+        addEdge({ from: example.slug, to: target.slug, kind: "depends-on" });
+      } else {
+        addEdge({ from: example.slug, to: addFile(file), kind });
+      }
+    }
+  }
+
+  const orphans = listSupportFiles(rootDir).filter((file) => !nodes.has(file));
+  for (const file of orphans) addFile(file);
+
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    cycles: findCycles(
+      registry.examples.map((example) => example.slug),
+      edges,
+    ),
+    orphans,
+  };
+}
+
+/**
+ * The part of `graph` around example `slug`: what it uses, and the examples depending on it.
+ * Cycles and orphans are kept only where they involve the example.
+ */
+export function exampleSubgraph(graph: ExampleGraph, slug: string): ExampleGraph {
+  const edges = graph.edges.filter(
+    (edge) => edge.from === slug || (edge.to === slug && edge.kind === "depends-on"),
+  );
+  const ids = new Set([slug, ...edges.flatMap((edge) => [edge.from, edge.to])]);
+  return {
+    nodes: graph.nodes.filter((node) => ids.has(node.id)),
+    edges,
+    cycles: graph.cycles.filter((cycle) => cycle.includes(slug)),
+    orphans: [],
+  };
+}
+
+/**
+ * Examples whose subgraph shows one of `slugs`: those examples, the examples they depend on and
+ * the examples depending on them.
+ */
+export function examplesShowing(graph: ExampleGraph, slugs: Iterable<string>): Set<string> {
+  const shown = new Set(slugs);
+  const showing = new Set(shown);
+  for (const edge of graph.edges) {
+    if (edge.kind !== "depends-on") continue;
+    if (shown.has(edge.from)) showing.add(edge.to);
+    if (shown.has(edge.to)) showing.add(edge.from);
+  }
+  return showing;
+}
+
+/** Edges that are part of a cycle, as `from -> to` keys. */
+function cycleEdges(graph: ExampleGraph): Set<string> {
+  const keys = new Set<string>();
+  for (const cycle of graph.cycles) {
+    const members = new Set(cycle);
+    for (const edge of graph.edges) {
+      if (edge.kind === "depends-on" && members.has(edge.from) && members.has(edge.to)) {
+        keys.add(`${edge.from} -> ${edge.to}`);
+      }
+    }
+  }
+  return keys;
+}
+
+const DOT_SHAPES: Record<GraphNodeKind, string> = {
+  example: "box",
+  contract: "ellipse",
+  helper: "component",
+  mock: "note",
+};
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/** Graphviz DOT; cycle edges are red and orphans grey. */
+export function formatDot(graph: ExampleGraph): string {
+  const orphans = new Set(graph.orphans);
+  const inCycle = cycleEdges(graph);
+  const nodes = graph.nodes.map((node) => {
+    const style = orphans.has(node.id) ? ", color=grey, fontcolor=grey" : "";
+    return `  ${quoteDot(node.id)} [label=${quoteDot(node.label)}, shape=${DOT_SHAPES[node.kind]}${style}];`;
+  });
+  const edges = graph.edges.map((edge) => {
+    const style = edge.kind === "depends-on" ? ", style=dashed" : "";
+    const color = inCycle.has(`${edge.from} -> ${edge.to}`) ? ", color=red" : "";
+    return `  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [label=${quoteDot(edge.kind)}${style}${color}];`;
+  });
+  return `digraph examples {
+  rankdir=LR;
+  node [fontname="Helvetica"];
+  edge [fontname="Helvetica", fontsize=10];
+${[...nodes, ...edges].join("\n")}
+}
+`;
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function mermaidNode(node: GraphNode): string {
+  const label = `"${node.label.replace(/"/g, "#quot;")}"`;
+  switch (node.kind) {
+    case "example":
+      return `${mermaidId(node.id)}([${label}])`;
+    case "helper":
+      return `${mermaidId(node.id)}[[${label}]]`;
+    case "mock":
+      return `${mermaidId(node.id)}{{${label}}}`;
+    default:
+      return `${mermaidId(node.id)}[${label}]`;
+  }
+}
+
+/** Mermaid flowchart; `depends-on` edges are dotted, cycle edges and orphans flagged by class. */
+export function formatMermaid(graph: ExampleGraph): string {
+  const inCycle = cycleEdges(graph);
+  const lines = ["flowchart LR", ...graph.nodes.map((node) => `  ${mermaidNode(node)}`)];
+  const cycleLinks: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    const arrow = edge.kind === "depends-on" ? "-.->" : "-->";
+    lines.push(`  ${mermaidId(edge.from)} ${arrow}|${edge.kind}| ${mermaidId(edge.to)}`);
+    if (inCycle.has(`${edge.from} -> ${edge.to}`)) cycleLinks.push(index);
+  });
+  if (cycleLinks.length > 0) lines.push(`  linkStyle ${cycleLinks.join(",")} stroke:red`);
+  if (graph.orphans.length > 0) {
+    lines.push("  classDef orphan stroke-dasharray: 4 4,color:grey");
+    lines.push(`  class ${graph.orphans.map(mermaidId).join(",")} orphan`);
+  }
+  return `${lines.join("\n")}\n`;
+}
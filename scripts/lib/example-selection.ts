@@ -0,0 +1,71 @@
+/**
+ * Selecting and ordering examples for multi-example generators (`bundle`, `course`) and the
+ * learning paths page.
+ */
+
+import type { ExampleMeta, ExampleRegistry } from "../example-registry";
+import { UsageError } from "./cli";
+
+export const DIFFICULTIES: ExampleMeta["difficulty"][] = ["Beginner", "Intermediate", "Advanced"];
+
+export type ExampleFilters = {
+  /** Comma-separated slugs; the selection keeps this order. */
+  examples?: string;
+  chapter?: string;
+  /** Case-insensitive difficulty name. */
+  difficulty?: string;
+};
+
+/** Examples ordered by difficulty, then title: the hub's learning path. */
+export function learningPath(examples: ExampleMeta[]): ExampleMeta[] {
+  return [...examples].sort(
+    (a, b) =>
+      DIFFICULTIES.indexOf(a.difficulty) - DIFFICULTIES.indexOf(b.difficulty) ||
+      a.title.localeCompare(b.title),
+  );
+}
+
+/**
+ * Examples matching every given filter: in `--examples` order when given, else in registry
+ * order. Throws a `UsageError` for unknown slugs, chapters or difficulties.
+ */
+export function selectExamples(registry: ExampleRegistry, filters: ExampleFilters): ExampleMeta[] {
+  let selected = registry.examples;
+
+  if (filters.examples !== undefined) {
+    const slugs = filters.examples
+      .split(",")
+      .map((slug) => slug.trim())
+      .filter((slug) => slug.length > 0);
+    const unknown = slugs.filter((slug) => !registry.bySlug.has(slug));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown example(s): ${unknown.join(", ")}`);
+    }
+    selected = slugs.flatMap((slug) => registry.bySlug.get(slug) ?? []);
+  }
+
+  if (filters.chapter !== undefined) {
+    const { chapter } = filters;
+    const chapters = new Set(registry.examples.flatMap((example) => example.chapters));
+    if (!chapters.has(chapter)) {
+      throw new UsageError(
+        `Unknown chapter: ${chapter}\nAvailable chapters: ${[...chapters].sort().join(", ")}`,
+      );
+    }
+    selected = selected.filter((example) => example.chapters.includes(chapter));
+  }
+
+  if (filters.difficulty !== undefined) {
+    const difficulty = DIFFICULTIES.find(
+      (level) => level.toLowerCase() === filters.difficulty?.toLowerCase(),
+    );
+    if (!difficulty) {
+      throw new UsageError(
+        `Unknown difficulty: ${filters.difficulty} (expected ${DIFFICULTIES.join(", ")})`,
+      );
+    }
+    selected = selected.filter((example) => example.difficulty === difficulty);
+  }
+
+  return [...new Set(selected)];
+}
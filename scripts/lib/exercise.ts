@@ -0,0 +1,259 @@
+/**
+ * Exercise regions in hub contracts: the parts a learner writes themselves.
+ *
+ * ```solidity
+ * // @exercise-begin Add `amount` to `count`, then allow the contract and the caller to read it
+ * count = FHE.add(count, amount);
+ * FHE.allowThis(count);
+ * FHE.allow(count, msg.sender);
+ * // @exercise-end
+ * ```
+ *
+ * The markers are plain comments, so the hub compiles and tests the full solution. The starter
+ * version of a contract replaces every region (markers included) with a `// TODO:` line carrying
+ * the hint. A starter must still compile: when removing a region would break that (a function
+ * returning a value, a variable used later), give the placeholder code on `// @exercise-stub`
+ * lines inside the region. They are comments in the solution and code in the starter:
+ *
+ * ```solidity
+ * // @exercise-begin Return whether `a` equals `b`
+ * // @exercise-stub return FHE.asEbool(false);
+ * return FHE.eq(a, b);
+ * // @exercise-end
+ * ```
+ */
+
+import * as path from "node:path";
+import type { ExampleMeta } from "../example-registry";
+import { CliError } from "./cli";
+import { type FilePlan, planFile, planGenerated } from "./file-plan";
+import { formatPackageJson } from "./json-format";
+import type { Logger } from "./logger";
+
+export const EXERCISE_BEGIN = "@exercise-begin";
+export const EXERCISE_END = "@exercise-end";
+export const EXERCISE_STUB = "@exercise-stub";
+
+/** Where `create --exercise` keeps the full contracts and the tests checking them. */
+export const EXERCISE_DIR = ".exercise";
+
+const DEFAULT_HINT = "implement this part of the exercise";
+
+export type ExerciseRegion = {
+  /** 1-based line of the begin marker. */
+  startLine: number;
+  /** 1-based line of the end marker. */
+  endLine: number;
+  hint: string;
+  indent: string;
+  /** Placeholder code from the region's `@exercise-stub` lines, kept in the starter. */
+  stubs: string[];
+  /** Whether the region returns a value; without stubs its starter likely does not compile. */
+  returnsValue: boolean;
+};
+
+/** A contract with exercise regions, as planned into a generated repo. */
+export type Exercise = {
+  /** Contract path in the repo. */
+  file: string;
+  hints: string[];
+};
+
+const MARKER = /^(\s*)\/\/\s*(@exercise-begin|@exercise-end|@exercise-stub)\b\s?(.*)$/u;
+const RETURN_VALUE = /^\s*return\s+[^\s;]/u;
+
+/** The exercise regions of `source`; throws on unbalanced or nested markers. */
+export function findExerciseRegions(source: string, file = "contract"): ExerciseRegion[] {
+  const regions: ExerciseRegion[] = [];
+  let open: Omit<ExerciseRegion, "endLine"> | undefined;
+
+  source.split("\n").forEach((line, index) => {
+    const lineNumber = index + 1;
+    const match = MARKER.exec(line);
+    if (!match) {
+      if (open && RETURN_VALUE.test(line)) open.returnsValue = true;
+      return;
+    }
+    const [, indent, marker, text] = match;
+    if (marker === EXERCISE_BEGIN) {
+      if (open) {
+        throw new CliError(
+          `${file}:${lineNumber}: nested ${EXERCISE_BEGIN} (open since line ${open.startLine})`,
+        );
+      }
+      open = {
+        startLine: lineNumber,
+        hint: text.trim() || DEFAULT_HINT,
+        indent,
+        stubs: [],
+        returnsValue: false,
+      };
+    } else if (marker === EXERCISE_STUB) {
+      if (!open) {
+        throw new CliError(`${file}:${lineNumber}: ${EXERCISE_STUB} outside an exercise region`);
+      }
+      open.stubs.push(`${indent}${text.trimEnd()}`);
+    } else {
+      if (!open) {
+        throw new CliError(`${file}:${lineNumber}: ${EXERCISE_END} without ${EXERCISE_BEGIN}`);
+      }
+      regions.push({ ...open, endLine: lineNumber });
+      open = undefined;
+    }
+  });
+
+  if (open) throw new CliError(`${file}:${open.startLine}: ${EXERCISE_BEGIN} is never closed`);
+  return regions;
+}
+
+/** `source` with every exercise region replaced by a TODO comment and its stubs. */
+export function toStarter(source: string, file?: string): string {
+  const regions = findExerciseRegions(source, file);
+  if (regions.length === 0) return source;
+
+  const lines = source.split("\n");
+  for (const region of [...regions].reverse()) {
+    lines.splice(
+      region.startLine - 1,
+      region.endLine - region.startLine + 1,
+      `${region.indent}// TODO: ${region.hint}`,
+      ...region.stubs,
+    );
+  }
+  return lines.join("\n");
+}
+
+/** `source` without its exercise markers (`@exercise-begin`, `@exercise-end`, `@exercise-stub`). */
+export function stripExerciseMarkers(source: string): string {
+  return source
+    .split("\n")
+    .filter((line) => !MARKER.test(line))
+    .join("\n");
+}
+
+/** Removes the exercise markers from the contracts of `plan`, for repos shipping the solution. */
+export function stripPlannedExerciseMarkers(plan: FilePlan): void {
+  for (const file of [...plan.values()]) {
+    if (!file.path.startsWith("contracts/") || !file.path.endsWith(".sol")) continue;
+    const source = file.content.toString();
+    const stripped = stripExerciseMarkers(source);
+    if (stripped !== source) planFile(plan, { ...file, source: "generated", content: stripped });
+  }
+}
+
+/**
+ * Turns the main contract of `example` in `plan` into a starter and keeps the full version under
+ * `solutionDir` (same path below `contracts/`). The other contracts (extras, helpers) stay complete:
+ * their regions belong to the examples they come from, so only their markers are removed. Returns
+ * the exercises found; warns about regions returning a value without an `@exercise-stub`.
+ */
+export function planExerciseStarters(
+  plan: FilePlan,
+  example: ExampleMeta,
+  solutionDir: string,
+  logger: Logger,
+): Exercise[] {
+  const mainContract = `contracts/${path.basename(example.contractFile)}`;
+  const exercises: Exercise[] = [];
+  for (const file of [...plan.values()]) {
+    if (!file.path.startsWith("contracts/") || !file.path.endsWith(".sol")) continue;
+    const source = file.content.toString();
+    const label = file.from ?? file.path;
+    const regions = findExerciseRegions(source, label);
+    if (regions.length === 0) continue;
+    if (file.path !== mainContract) {
+      planFile(plan, { ...file, source: "generated", content: stripExerciseMarkers(source) });
+      continue;
+    }
+
+    for (const region of regions) {
+      if (region.returnsValue && region.stubs.length === 0) {
+        logger.warn(
+          `  Warning: ${label}:${region.startLine}: exercise region returns a value but has no ${EXERCISE_STUB}; the starter may not compile.`,
+        );
+      }
+    }
+    planFile(plan, { ...file, path: `${solutionDir}/${file.path.slice("contracts/".length)}` });
+    planFile(plan, { ...file, source: "generated", content: toStarter(source) });
+    exercises.push({ file: file.path, hints: regions.map((region) => region.hint) });
+  }
+  return exercises;
+}
+
+function generateExerciseSection(exercises: Exercise[]): string {
+  const tasks = exercises
+    .map(
+      (exercise) =>
+        `- \`${exercise.file}\`\n${exercise.hints.map((hint) => `  - ${hint}`).join("\n")}`,
+    )
+    .join("\n");
+
+  return `## Exercise
+
+This repository is a starter: parts of the contract are left as TODOs for you to write.
+
+${tasks}
+
+Check your work against the solution's tests (kept in \`${EXERCISE_DIR}/test/\`, try not to peek):
+
+\`\`\`bash
+npm run check
+\`\`\`
+
+The tests fail until the TODOs are solved. Stuck? The full contract is in
+\`${EXERCISE_DIR}/solution/\`.
+
+`;
+}
+
+/**
+ * Turns a planned example repo into an exercise (`create --exercise`): starter contracts, the full
+ * contracts and the example's tests moved under `.exercise/`, an `npm run check` script running
+ * those tests against the starter and an exercise section in the README.
+ */
+export function planExerciseRepo(plan: FilePlan, example: ExampleMeta, logger: Logger): Exercise[] {
+  const exercises = planExerciseStarters(plan, example, `${EXERCISE_DIR}/solution`, logger);
+  if (exercises.length === 0) {
+    logger.warn(
+      `  Warning: ${example.slug} has no exercise regions; its starter is the full solution.`,
+    );
+  }
+
+  const tests: string[] = [];
+  for (const file of [...plan.values()]) {
+    if (!file.path.startsWith("test/")) continue;
+    const hidden = `${EXERCISE_DIR}/${file.path}`;
+    plan.delete(file.path);
+    planFile(plan, { ...file, path: hidden });
+    tests.push(hidden);
+  }
+
+  const packageJson = plan.get("package.json");
+  if (packageJson) {
+    const pkg = JSON.parse(packageJson.content.toString()) as { scripts?: Record<string, string> };
+    pkg.scripts = {
+      ...pkg.scripts,
+      check: `HARDHAT_NETWORK=hardhat hardhat test ${tests.join(" ")}`.trimEnd(),
+    };
+    planGenerated(plan, "package.json", formatPackageJson(pkg));
+  }
+
+  const readme = plan.get("README.md");
+  if (readme) {
+    const content = readme.content.toString();
+    const section = generateExerciseSection(exercises);
+    const firstSection = content.indexOf("\n## ");
+    planGenerated(
+      plan,
+      "README.md",
+      firstSection === -1
+        ? `${content}\n${section}`
+        : `${content.slice(0, firstSection + 1)}${section}${content.slice(firstSection + 1)}`,
+    );
+  }
+
+  logger.info(
+    `  Exercise: ${exercises.length} starter contract(s), ${tests.length} hidden test file(s) in ${EXERCISE_DIR}/test`,
+  );
+  return exercises;
+}
@@ -0,0 +1,123 @@
+/**
+ * File plans: everything a generator will write, built in memory first.
+ *
+ * Generators add files to a plan instead of writing as they go, so the same plan can be written
+ * to disk, printed (`--dry-run`) or hashed (generation manifest).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import type { Logger } from "./logger";
+
+/** Where a planned file comes from: the Hardhat template, a hub file copied as-is, or a generator. */
+export type FileSource = "template" | "copied" | "generated";
+
+export type PlannedFile = {
+  /** Output-relative path, forward slashes. */
+  path: string;
+  source: FileSource;
+  content: string | Buffer;
+  /** File mode, when it matters (executable hooks, template scripts). */
+  mode?: number;
+  /** Hub file the content was copied from (`template` and `copied` files). */
+  from?: string;
+};
+
+/** Planned files keyed by path; adding a path again replaces the earlier entry. */
+export type FilePlan = Map<string, PlannedFile>;
+
+export type FilePlanEntry = {
+  path: string;
+  source: FileSource;
+  size: number;
+  from?: string;
+};
+
+export function createFilePlan(): FilePlan {
+  return new Map();
+}
+
+export function planFile(plan: FilePlan, file: PlannedFile): void {
+  plan.delete(file.path);
+  plan.set(file.path, file);
+}
+
+/** Plans `content` as a generated file. */
+export function planGenerated(plan: FilePlan, filePath: string, content: string, mode?: number) {
+  planFile(plan, { path: filePath, source: "generated", content, mode });
+}
+
+/** Plans a copy of hub file `src` at `filePath`; warns and skips it when `src` is missing. */
+export function planCopy(plan: FilePlan, src: string, filePath: string, logger: Logger) {
+  if (!fs.existsSync(src)) {
+    logger.warn(`  Warning: File not found: ${src}`);
+    return;
+  }
+  planFile(plan, { path: filePath, source: "copied", content: fs.readFileSync(src), from: src });
+}
+
+/** Plans every file under `dir` (except `.git`) at `prefix`, as `source`. */
+export function planDirectory(plan: FilePlan, dir: string, source: FileSource, prefix = ""): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === ".git") continue;
+    const src = path.join(dir, entry.name);
+    const filePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      planDirectory(plan, src, source, filePath);
+    } else if (entry.isFile()) {
+      const mode = fs.statSync(src).mode & 0o777;
+      planFile(plan, { path: filePath, source, content: fs.readFileSync(src), mode, from: src });
+    }
+  }
+}
+
+/** Drops every planned file under directory `dirPath`. */
+export function removePlannedDir(plan: FilePlan, dirPath: string): void {
+  for (const filePath of [...plan.keys()]) {
+    if (filePath.startsWith(`${dirPath}/`)) plan.delete(filePath);
+  }
+}
+
+/** Adds every file of `other` under `prefix` (e.g. one example repo inside a category bundle). */
+export function addPlan(plan: FilePlan, other: FilePlan, prefix = ""): void {
+  for (const file of other.values()) {
+    planFile(plan, { ...file, path: prefix ? `${prefix}/${file.path}` : file.path });
+  }
+}
+
+/** Plan summary; `from` paths are made relative to `rootDir` so plans diff across checkouts. */
+export function describeFilePlan(plan: FilePlan, rootDir: string): FilePlanEntry[] {
+  return [...plan.values()].map((file) => ({
+    path: file.path,
+    source: file.source,
+    size: Buffer.byteLength(file.content),
+    ...(file.from ? { from: path.relative(rootDir, file.from) } : {}),
+  }));
+}
+
+/** Text listing of a plan: one `source  size  path` line per file, then totals. */
+export function formatFilePlan(entries: FilePlanEntry[]): string {
+  const sizeWidth = Math.max(0, ...entries.map((entry) => String(entry.size).length));
+  const lines = entries.map(
+    (entry) =>
+      `  ${entry.source.padEnd(9)}  ${String(entry.size).padStart(sizeWidth)}  ${entry.path}`,
+  );
+  const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const counts = (["template", "copied", "generated"] as const)
+    .map((source) => `${entries.filter((entry) => entry.source === source).length} ${source}`)
+    .join(", ");
+  return [...lines, `\n${entries.length} file(s), ${total} bytes (${counts})`].join("\n");
+}
+
+/** Writes every planned file under `outputDir`, logging copied and generated ones. */
+export function writeFilePlan(plan: FilePlan, outputDir: string, logger: Logger): void {
+  for (const file of plan.values()) {
+    const dest = path.join(outputDir, file.path);
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.writeFileSync(dest, file.content);
+    if (file.mode !== undefined) fs.chmodSync(dest, file.mode);
+    if (file.source === "copied") logger.info(`  Copied: ${file.path}`);
+    if (file.source === "generated") logger.info(`  Generated: ${file.path}`);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * `.fhevm-example.json`: the generation manifest written at the root of every generated repo.
+ *
+ * Records where the repo came from (hub version and commit, example, template source and commit),
+ * a hash of every generated file and the dependency versions the hub resolved, so later tooling
+ * (updates, drift detection, dependency bumps) can tell generated content from local edits.
+ */
+
+import { spawnSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import type { ExampleMeta } from "../example-registry";
+import type { FilePlan } from "./file-plan";
+import { listRepoFiles } from "./repo-update";
+
+export const MANIFEST_FILE = ".fhevm-example.json";
+
+/** Bumped when the manifest shape changes incompatibly. */
+export const MANIFEST_VERSION = 1;
+
+export type ResolvedDependency = {
+  /** Version range written to the generated `package.json`. */
+  range: string;
+  /** Version installed in the hub's `node_modules` at generation time, when present. */
+  installed?: string;
+};
+
+export type GenerationManifest = {
+  manifestVersion: number;
+  hub: {
+    name: string;
+    version: string;
+    /** `HEAD` of the hub checkout; absent outside a git checkout. */
+    commit?: string;
+    /** Whether the hub checkout had uncommitted changes. */
+    dirty?: boolean;
+  };
+  example: {
+    slug: string;
+    title: string;
+    category: string;
+    contract: string;
+    /** Set for `create --exercise` repos; `create --update` and `drift` regenerate alike. */
+    mode?: "exercise";
+  };
+  template: {
+    /** Template directory, relative to the hub root when inside it. */
+    source: string;
+    url?: string;
+    commit?: string;
+  };
+  /** sha256 of each generated file, keyed by repo-relative path. */
+  files: Record<string, string>;
+  dependencies: Record<string, ResolvedDependency>;
+};
+
+function git(cwd: string, args: string[]): string | undefined {
+  const result = spawnSync("git", args, { cwd, encoding: "utf8", stdio: "pipe" });
+  if (result.error || result.status !== 0) return undefined;
+  return result.stdout.trim() || undefined;
+}
+
+/** Whether `dir` is the top level of its own git checkout (submodule or clone). */
+function isGitRoot(dir: string): boolean {
+  const topLevel = git(dir, ["rev-parse", "--show-toplevel"]);
+  return topLevel !== undefined && path.resolve(topLevel) === fs.realpathSync(dir);
+}
+
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function hashFile(file: string): string {
+  return hashContent(fs.readFileSync(file));
+}
+
+/** Hashes every file of a generated repo, except the manifest itself. */
+export function hashGeneratedFiles(repoDir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const file of listRepoFiles(repoDir)) {
+    if (file === MANIFEST_FILE) continue;
+    files[file] = hashFile(path.join(repoDir, file));
+  }
+  return files;
+}
+
+function describeHub(rootDir: string, offline: boolean): GenerationManifest["hub"] {
+  const pkg = JSON.parse(fs.readFileSync(path.join(rootDir, "package.json"), "utf8")) as {
+    name?: string;
+    version?: string;
+  };
+  const commit = offline ? undefined : git(rootDir, ["rev-parse", "HEAD"]);
+  return {
+    name: pkg.name ?? path.basename(rootDir),
+    version: pkg.version ?? "0.0.0",
+    commit,
+    dirty: commit ? git(rootDir, ["status", "--porcelain"]) !== undefined : undefined,
+  };
+}
+
+function describeTemplate(
+  rootDir: string,
+  templateDir: string,
+  offline: boolean,
+): GenerationManifest["template"] {
+  const relative = path.relative(rootDir, templateDir);
+  const source = relative.startsWith("..") || path.isAbsolute(relative) ? templateDir : relative;
+  if (offline || !isGitRoot(templateDir)) return { source };
+  return {
+    source,
+    url: git(templateDir, ["remote", "get-url", "origin"]),
+    commit: git(templateDir, ["rev-parse", "HEAD"]),
+  };
+}
+
+function installedVersion(rootDir: string, name: string): string | undefined {
+  const pkgPath = path.join(rootDir, "node_modules", name, "package.json");
+  if (!fs.existsSync(pkgPath)) return undefined;
+  return (JSON.parse(fs.readFileSync(pkgPath, "utf8")) as { version?: string }).version;
+}
+
+function resolveDependencies(rootDir: string, packageJson: string | Buffer) {
+  const pkg = JSON.parse(packageJson.toString()) as {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  const ranges = { ...pkg.dependencies, ...pkg.devDependencies };
+  const dependencies: Record<string, ResolvedDependency> = {};
+  for (const name of Object.keys(ranges).sort()) {
+    dependencies[name] = { range: ranges[name], installed: installedVersion(rootDir, name) };
+  }
+  return dependencies;
+}
+
+export type ManifestOptions = {
+  mode?: GenerationManifest["example"]["mode"];
+  /** Leave out the git details (commits, remote, dirty state) instead of running `git`. */
+  offline?: boolean;
+};
+
+/** Builds the manifest describing `plan`, the files generated for `example`. */
+export function buildGenerationManifest(
+  rootDir: string,
+  example: ExampleMeta,
+  plan: FilePlan,
+  templateDir: string,
+  options: ManifestOptions = {},
+): GenerationManifest {
+  const { mode, offline = false } = options;
+  const files: Record<string, string> = {};
+  for (const filePath of [...plan.keys()].sort()) {
+    if (filePath === MANIFEST_FILE) continue;
+    files[filePath] = hashContent(plan.get(filePath)?.content ?? "");
+  }
+  const packageJson = plan.get("package.json")?.content;
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    hub: describeHub(rootDir, offline),
+    example: {
+      slug: example.slug,
+      title: example.title,
+      category: example.category,
+      contract: example.contractName,
+      ...(mode ? { mode } : {}),
+    },
+    template: describeTemplate(rootDir, templateDir, offline),
+    files,
+    dependencies: packageJson ? resolveDependencies(rootDir, packageJson) : {},
+  };
+}
+
+export function formatGenerationManifest(manifest: GenerationManifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/** Reads `repoDir`'s manifest; `undefined` when the repo has none. */
+export function readGenerationManifest(repoDir: string): GenerationManifest | undefined {
+  const manifestPath = path.join(repoDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return undefined;
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8")) as GenerationManifest;
+}
@@ -0,0 +1,202 @@
+/**
+ * Generator pipeline: every generated file of an example repo is a registered step.
+ *
+ * The default steps live here; the hub config (`fhevm-hub.config.json`) and plugin modules can
+ * replace a step (same id), add new ones, disable them by id, or swap an output path for a file
+ * kept in the hub:
+ *
+ * ```json
+ * {
+ *   "generators": {
+ *     "disable": ["vscode-extensions"],
+ *     "files": { "LICENSE": "config/LICENSE", ".github/workflows/ci.yml": "config/ci.yml" },
+ *     "plugins": ["./config/org-generators.ts"]
+ *   }
+ * }
+ * ```
+ *
+ * A plugin module exports a `GeneratorPlugin` (as `default` or as the module itself). Resolution
+ * order: default steps, then each plugin in order, then `files`, then `disable`.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import {
+  generateDeploymentsModule,
+  generateDeployScriptForExample,
+} from "../deploy-script-generators";
+import type { ExampleMeta } from "../example-registry";
+import { CliError } from "./cli";
+import { type FilePlan, planFile } from "./file-plan";
+import {
+  generateBiomeJson,
+  generateCommitlintConfig,
+  generateEnvExample,
+  generateExampleReadme,
+  generateGitignore,
+  generateHardhatConfig,
+  generateHuskyCommitMsg,
+  generateHuskyPreCommit,
+  generateHuskyPrePush,
+  generateLintStagedConfig,
+  generatePackageJson,
+  generateSolhintIgnore,
+  generateSolhintJson,
+  generateTsConfig,
+  generateVSCodeExtensions,
+  generateVSCodeSettings,
+  type PackageVersions,
+} from "./generators";
+import { HUB_CONFIG_FILE, loadHubConfig } from "./hub-config";
+
+export type GeneratorContext = {
+  rootDir: string;
+  example: ExampleMeta;
+  /** Dependency versions of the hub's package.json. */
+  rootVersions: PackageVersions;
+};
+
+export type GeneratorStep = {
+  id: string;
+  /** Output path, relative to the generated repo. */
+  path: string;
+  /** File mode, e.g. `0o755` for hooks. */
+  mode?: number;
+  /** Hub file the content is copied from; the file is then planned as `copied`. */
+  from?: string;
+  /** File content; `undefined` skips the file for this example. */
+  generate: (ctx: GeneratorContext) => string | Buffer | undefined;
+};
+
+export type GeneratorPlugin = {
+  name?: string;
+  /** Steps to add, or to replace when their id matches an existing step. */
+  steps?: GeneratorStep[];
+  /** Step ids to remove. */
+  disable?: string[];
+};
+
+function step(
+  id: string,
+  filePath: string,
+  generate: GeneratorStep["generate"],
+  mode?: number,
+): GeneratorStep {
+  return { id, path: filePath, generate, mode };
+}
+
+export const DEFAULT_GENERATOR_STEPS: readonly GeneratorStep[] = [
+  // Core files
+  step("package-json", "package.json", (ctx) => generatePackageJson(ctx.example, ctx.rootVersions)),
+  step("hardhat-config", "hardhat.config.ts", () => generateHardhatConfig()),
+  step("tsconfig", "tsconfig.json", () => generateTsConfig()),
+  step("gitignore", ".gitignore", () => generateGitignore()),
+  step("readme", "README.md", (ctx) => generateExampleReadme(ctx.example)),
+  step("deploy-script", "scripts/deploy.ts", (ctx) =>
+    generateDeployScriptForExample({
+      contract: path.basename(ctx.example.contractFile),
+      deployPlan: ctx.example.deployPlan,
+    }),
+  ),
+  step("deployments-module", "scripts/deployments.ts", () => generateDeploymentsModule()),
+  step("env-example", ".env.example", () => generateEnvExample()),
+  // DX configs
+  step("biome", "biome.json", (ctx) => generateBiomeJson(ctx.rootVersions)),
+  step("solhint", ".solhint.json", () => generateSolhintJson()),
+  step("solhintignore", ".solhintignore", () => generateSolhintIgnore()),
+  step("commitlint", "commitlint.config.js", () => generateCommitlintConfig()),
+  step("lint-staged", "lint-staged.config.js", () => generateLintStagedConfig()),
+  // VS Code configs
+  step("vscode-settings", ".vscode/settings.json", () => generateVSCodeSettings()),
+  step("vscode-extensions", ".vscode/extensions.json", () => generateVSCodeExtensions()),
+  // Husky hooks
+  step("husky-pre-commit", ".husky/pre-commit", () => generateHuskyPreCommit(), 0o755),
+  step("husky-commit-msg", ".husky/commit-msg", () => generateHuskyCommitMsg(), 0o755),
+  step("husky-pre-push", ".husky/pre-push", () => generateHuskyPrePush(), 0o755),
+];
+
+function applyPlugin(steps: GeneratorStep[], plugin: GeneratorPlugin): GeneratorStep[] {
+  let result = [...steps];
+  for (const added of plugin.steps ?? []) {
+    const index = result.findIndex((existing) => existing.id === added.id);
+    if (index === -1) {
+      result.push(added);
+    } else {
+      result[index] = added;
+    }
+  }
+  const disabled = new Set(plugin.disable ?? []);
+  result = result.filter((existing) => !disabled.has(existing.id));
+  return result;
+}
+
+function loadPlugin(rootDir: string, modulePath: string): GeneratorPlugin {
+  const resolved = path.resolve(rootDir, modulePath);
+  let loaded: { default?: GeneratorPlugin } & GeneratorPlugin;
+  try {
+    loaded = require(resolved);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliError(`Could not load generator plugin ${modulePath}: ${message}`);
+  }
+  const plugin = loaded.default ?? loaded;
+  for (const added of plugin.steps ?? []) {
+    if (typeof added.id !== "string" || typeof added.path !== "string") {
+      throw new CliError(`Generator plugin ${modulePath}: every step needs an "id" and a "path"`);
+    }
+    if (typeof added.generate !== "function") {
+      throw new CliError(`Generator plugin ${modulePath}: step "${added.id}" has no generate()`);
+    }
+  }
+  return plugin;
+}
+
+/** Steps copying the hub files listed under `generators.files`, one per output path. */
+function fileSteps(rootDir: string, files: Record<string, string>): GeneratorStep[] {
+  return Object.entries(files).map(([output, source]) => {
+    const from = path.resolve(rootDir, source);
+    if (!fs.existsSync(from)) {
+      throw new CliError(
+        `${HUB_CONFIG_FILE}: "generators.files.${output}" points to a missing file: ${source}`,
+      );
+    }
+    return { id: `file:${output}`, path: output, from, generate: () => fs.readFileSync(from) };
+  });
+}
+
+/** The generator steps for `rootDir`: defaults plus the hub config's plugins and overrides. */
+export function resolveGeneratorSteps(rootDir: string): GeneratorStep[] {
+  const config = loadHubConfig(rootDir).generators ?? {};
+  let steps = [...DEFAULT_GENERATOR_STEPS];
+
+  for (const modulePath of config.plugins ?? []) {
+    steps = applyPlugin(steps, loadPlugin(rootDir, modulePath));
+  }
+
+  // A hub file replaces whichever step wrote the same output path.
+  const copies = fileSteps(rootDir, config.files ?? {});
+  const copiedPaths = new Set(copies.map((copy) => copy.path));
+  steps = [...steps.filter((existing) => !copiedPaths.has(existing.path)), ...copies];
+
+  return applyPlugin(steps, { disable: config.disable });
+}
+
+/** Runs `steps` for one example, adding their output to `plan`. */
+export function planGeneratorSteps(
+  plan: FilePlan,
+  steps: readonly GeneratorStep[],
+  ctx: GeneratorContext,
+): void {
+  for (const current of steps) {
+    const content = current.generate(ctx);
+    if (content === undefined) continue;
+    planFile(plan, {
+      path: current.path,
+      source: current.from ? "copied" : "generated",
+      content,
+      mode: current.mode,
+      from: current.from,
+    });
+  }
+}
@@ -1,11 +1,12 @@
 /**
  * Shared generator functions for creating standalone example repositories.
- * Used by both create-fhevm-example.ts and create-fhevm-category.ts
+ * Registered as generator steps in lib/generator-pipeline.ts
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ExampleMeta } from "../example-registry";
+import { formatJson, formatPackageJson } from "./json-format";
 
 // ============================================================================
 // Package.json Generation
@@ -76,44 +77,45 @@ function buildDependencies(example: ExampleMeta, rootVersions: PackageVersions)
 export function generatePackageJson(example: ExampleMeta, rootVersions: PackageVersions): string {
   const { dependencies, devDependencies } = buildDependencies(example, rootVersions);
 
-  return JSON.stringify(
-    {
-      name: `fhevm-example-${example.slug}`,
-      version: "1.0.0",
-      description: example.notice ?? example.concept,
-      scripts: {
-        compile: "hardhat compile",
-        test: "hardhat test",
-        "test:mocked": "HARDHAT_NETWORK=hardhat hardhat test",
-        deploy: "hardhat run scripts/deploy.ts",
-        lint: "biome check .",
-        "lint:fix": "biome check . --write",
-        "lint:sol": "solhint 'contracts/**/*.sol'",
-        "lint:sol:fix": "solhint 'contracts/**/*.sol' --fix",
-        format: "biome format . --write",
-        typecheck: "tsc --noEmit",
-        verify: "npm run lint && npm run lint:sol && npm run typecheck && npm run test:mocked",
-        prepare: "husky",
-      },
-      keywords: ["fhevm", "fhe", "zama", "example", example.category],
-      license: "MIT",
-      dependencies,
-      devDependencies,
-      engines: {
-        node: ">=22.0.0 <25.0.0",
-      },
+  return formatPackageJson({
+    name: `fhevm-example-${example.slug}`,
+    version: "1.0.0",
+    description: example.notice ?? example.concept,
+    scripts: {
+      compile: "hardhat compile",
+      test: "hardhat test",
+      "test:mocked": "HARDHAT_NETWORK=hardhat hardhat test",
+      deploy: "hardhat deploy",
+      "deploy:localhost": "hardhat deploy --network localhost",
+      lint: "biome check .",
+      "lint:fix": "biome check . --write",
+      "lint:sol": "solhint 'contracts/**/*.sol'",
+      "lint:sol:fix": "solhint 'contracts/**/*.sol' --fix",
+      format: "biome format . --write",
+      typecheck: "tsc --noEmit",
+      verify: "npm run lint && npm run lint:sol && npm run typecheck && npm run test:mocked",
+      prepare: "husky",
+    },
+    keywords: ["fhevm", "fhe", "zama", "example", example.category],
+    license: "MIT",
+    dependencies,
+    devDependencies,
+    engines: {
+      node: ">=22.0.0 <25.0.0",
     },
-    null,
-    2,
-  );
+  });
 }
 
 // ============================================================================
 // Config File Generators
 // ============================================================================
 
+/** Networks the generated `.env.example` lists; any other name works through `NETWORKS`. */
+export const DEFAULT_ENV_NETWORKS = ["sepolia"];
+
 export function generateHardhatConfig(): string {
-  return `import { HardhatUserConfig } from "hardhat/config";
+  return `import { type HardhatUserConfig, task } from "hardhat/config";
+import type { NetworksUserConfig } from "hardhat/types";
 import "@fhevm/hardhat-plugin";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@nomicfoundation/hardhat-ethers";
@@ -124,6 +126,43 @@ dotenv.config();
 const MNEMONIC =
   process.env.MNEMONIC || "test test test test test test test test test test test junk";
 
+/**
+ * Named networks from env: list them in NETWORKS (default "${DEFAULT_ENV_NETWORKS.join(",")}") and set
+ * <NAME>_RPC_URL, plus optional <NAME>_CHAIN_ID and <NAME>_PRIVATE_KEY or <NAME>_MNEMONIC
+ * (falling back to PRIVATE_KEY, then MNEMONIC). Networks without an RPC URL are skipped.
+ */
+function networksFromEnv(): NetworksUserConfig {
+  const names = (process.env.NETWORKS || "${DEFAULT_ENV_NETWORKS.join(",")}")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+  const networks: NetworksUserConfig = {};
+
+  for (const name of names) {
+    const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    const url = process.env[\`\${prefix}_RPC_URL\`];
+    if (!url) continue;
+
+    const chainId = process.env[\`\${prefix}_CHAIN_ID\`];
+    const privateKey = process.env[\`\${prefix}_PRIVATE_KEY\`] || process.env.PRIVATE_KEY;
+    const mnemonic = process.env[\`\${prefix}_MNEMONIC\`] || MNEMONIC;
+    networks[name] = {
+      url,
+      chainId: chainId ? Number(chainId) : undefined,
+      accounts: privateKey ? [privateKey] : { mnemonic },
+    };
+  }
+
+  return networks;
+}
+
+task("deploy", "Deploys the example, reusing steps recorded in deployments/<network>.json")
+  .addFlag("reset", "Ignore the recorded deployments and redeploy every step")
+  .setAction(async ({ reset }: { reset: boolean }, hre) => {
+    if (reset) process.env.DEPLOY_RESET = "1";
+    await hre.run("run", { script: "scripts/deploy.ts" });
+  });
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.27",
@@ -144,8 +183,9 @@ const config: HardhatUserConfig = {
       chainId: 31337,
     },
     localhost: {
-      url: "http://127.0.0.1:8545",
+      url: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
     },
+    ...networksFromEnv(),
   },
   paths: {
     sources: "./contracts",
@@ -160,25 +200,21 @@ export default config;
 }
 
 export function generateTsConfig(): string {
-  return JSON.stringify(
-    {
-      compilerOptions: {
-        target: "ES2020",
-        module: "commonjs",
-        strict: true,
-        esModuleInterop: true,
-        skipLibCheck: true,
-        forceConsistentCasingInFileNames: true,
-        outDir: "./dist",
-        resolveJsonModule: true,
-        types: ["node"],
-      },
-      include: ["scripts/**/*", "hardhat.config.ts"],
-      exclude: ["node_modules", "artifacts", "cache", "test/**/*"],
+  return formatJson({
+    compilerOptions: {
+      target: "ES2020",
+      module: "commonjs",
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      forceConsistentCasingInFileNames: true,
+      outDir: "./dist",
+      resolveJsonModule: true,
+      types: ["node"],
     },
-    null,
-    2,
-  );
+    include: ["scripts/**/*", "hardhat.config.ts"],
+    exclude: ["node_modules", "artifacts", "cache", "test/**/*"],
+  });
 }
 
 export function generateGitignore(): string {
@@ -189,47 +225,75 @@ dist
 coverage
 .env
 .env.local
+deployments/hardhat.json
+deployments/localhost.json
 `;
 }
 
+export function generateEnvExample(): string {
+  const networks = DEFAULT_ENV_NETWORKS.map((name) => {
+    const prefix = name.toUpperCase();
+    return `# ${name}
+${prefix}_RPC_URL=
+${prefix}_CHAIN_ID=
+${prefix}_PRIVATE_KEY=
+`;
+  }).join("\n");
+
+  return `# Comma-separated network names; each needs <NAME>_RPC_URL (see hardhat.config.ts).
+NETWORKS=${DEFAULT_ENV_NETWORKS.join(",")}
+
+# Default accounts for every network (a per-network key or mnemonic takes precedence).
+MNEMONIC=
+PRIVATE_KEY=
+
+${networks}`;
+}
+
 // ============================================================================
 // DX Config Generators
 // ============================================================================
 
-export function generateBiomeJson(): string {
-  return JSON.stringify(
-    {
-      $schema: "https://biomejs.dev/schemas/1.8.3/schema.json",
-      files: {
-        ignore: ["node_modules", "artifacts", "cache", "dist", "coverage"],
-      },
-      formatter: {
-        indentStyle: "space",
-        indentWidth: 2,
-      },
-      linter: {
-        enabled: true,
-        rules: {
-          recommended: true,
-        },
+/** Biome 2 config; the schema follows the Biome version the generated package.json pins. */
+export function generateBiomeJson(rootVersions: PackageVersions): string {
+  const version = resolveVersion("@biomejs/biome", rootVersions).replace(/^[\^~]/u, "");
+  return formatJson({
+    ...(/^\d+\.\d+\.\d+$/u.test(version)
+      ? { $schema: `https://biomejs.dev/schemas/${version}/schema.json` }
+      : {}),
+    files: {
+      includes: [
+        "**",
+        "!**/node_modules",
+        "!**/artifacts",
+        "!**/cache",
+        "!**/dist",
+        "!**/coverage",
+        "!.fhevm-example",
+        "!.fhevm-example.json",
+      ],
+    },
+    formatter: {
+      indentStyle: "space",
+      indentWidth: 2,
+      lineWidth: 100,
+    },
+    linter: {
+      enabled: true,
+      rules: {
+        recommended: true,
       },
     },
-    null,
-    2,
-  );
+  });
 }
 
 export function generateSolhintJson(): string {
-  return JSON.stringify(
-    {
-      extends: "solhint:recommended",
-      rules: {
-        "no-empty-blocks": "off",
-      },
+  return formatJson({
+    extends: "solhint:recommended",
+    rules: {
+      "no-empty-blocks": "off",
     },
-    null,
-    2,
-  );
+  });
 }
 
 export function generateSolhintIgnore(): string {
@@ -257,24 +321,16 @@ export function generateLintStagedConfig(): string {
 // ============================================================================
 
 export function generateVSCodeSettings(): string {
-  return JSON.stringify(
-    {
-      "editor.formatOnSave": true,
-      "editor.defaultFormatter": "biomejs.biome",
-    },
-    null,
-    2,
-  );
+  return formatJson({
+    "editor.formatOnSave": true,
+    "editor.defaultFormatter": "biomejs.biome",
+  });
 }
 
 export function generateVSCodeExtensions(): string {
-  return JSON.stringify(
-    {
-      recommendations: ["biomejs.biome", "NomicFoundation.hardhat-solidity"],
-    },
-    null,
-    2,
-  );
+  return formatJson({
+    recommendations: ["biomejs.biome", "NomicFoundation.hardhat-solidity"],
+  });
 }
 
 // ============================================================================
@@ -345,6 +401,30 @@ npm run lint:fix
 npm run lint:sol:fix
 \`\`\`
 
+## Deploying
+
+\`\`\`bash
+# In-process Hardhat network
+npm run deploy
+
+# Local node (npx hardhat node)
+npm run deploy:localhost
+
+# Any network configured in .env (copy .env.example first)
+npm run deploy -- --network sepolia
+
+# Redeploy every step instead of reusing recorded ones
+npm run deploy:localhost -- --reset
+\`\`\`
+
+Each run writes \`deployments/<network>.json\` with the address, transaction hash and constructor
+args of every deployed contract. Read it from tests or scripts with
+\`getDeployment(network, name)\` from \`scripts/deployments.ts\`.
+
+Deployments are resumable: a step whose contract is recorded with the same bytecode and args (and
+still has code on chain) is reused, and its after-deploy setup only reruns if it did not finish.
+Rerunning after a failure therefore continues from the failing step.
+
 ## Key Concepts
 
 ### 1. Encrypted Types
@@ -0,0 +1,79 @@
+/**
+ * Optional hub configuration, read from `fhevm-hub.config.json` at the hub root.
+ *
+ * Lets a team customize generated repos without forking the scripts (see
+ * `lib/generator-pipeline.ts` for how `generators` is applied).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { CliError } from "./cli";
+
+export const HUB_CONFIG_FILE = "fhevm-hub.config.json";
+
+export type GeneratorsConfig = {
+  /** Generator step ids to skip (e.g. `"vscode-extensions"`). */
+  disable?: string[];
+  /** Output path → hub-relative file copied verbatim; replaces the step writing that path. */
+  files?: Record<string, string>;
+  /** Hub-relative plugin modules, applied in order (see `GeneratorPlugin`). */
+  plugins?: string[];
+};
+
+export type HubConfig = {
+  generators?: GeneratorsConfig;
+};
+
+function fail(message: string): never {
+  throw new CliError(`Invalid ${HUB_CONFIG_FILE}: ${message}`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function checkGenerators(value: unknown): GeneratorsConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(`"generators" must be an object`);
+  }
+  const { disable, files, plugins, ...unknown } = value as Record<string, unknown>;
+  const [extra] = Object.keys(unknown);
+  if (extra) fail(`unknown key "generators.${extra}"`);
+  if (disable !== undefined && !isStringArray(disable)) {
+    fail(`"generators.disable" must be an array of step ids`);
+  }
+  if (plugins !== undefined && !isStringArray(plugins)) {
+    fail(`"generators.plugins" must be an array of module paths`);
+  }
+  if (files !== undefined) {
+    if (typeof files !== "object" || files === null || Array.isArray(files)) {
+      fail(`"generators.files" must map output paths to hub files`);
+    }
+    for (const [output, source] of Object.entries(files)) {
+      if (typeof source !== "string") fail(`"generators.files.${output}" must be a file path`);
+    }
+  }
+  return value as GeneratorsConfig;
+}
+
+/** Reads the hub config; an empty config when the hub has no config file. */
+export function loadHubConfig(rootDir: string): HubConfig {
+  const configPath = path.join(rootDir, HUB_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    fail("expected a JSON object");
+  }
+
+  const { generators, ...unknown } = raw as Record<string, unknown>;
+  const [extra] = Object.keys(unknown);
+  if (extra) fail(`unknown key "${extra}"`);
+  return generators === undefined ? {} : { generators: checkGenerators(generators) };
+}
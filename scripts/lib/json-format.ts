@@ -0,0 +1,57 @@
+/**
+ * JSON laid out the way Biome formats it, so generated files and `docs/catalog.json` pass
+ * `biome check` as written: objects one key per line, arrays of scalars on one line when they fit
+ * in `lineWidth`, 2-space indentation and a final newline.
+ */
+
+export const JSON_LINE_WIDTH = 100;
+
+/** Scalars, empty objects and arrays made only of those: what Biome may keep on one line. */
+function isFlat(value: unknown): boolean {
+  if (Array.isArray(value)) return value.every(isFlat);
+  if (value !== null && typeof value === "object") return Object.keys(value).length === 0;
+  return true;
+}
+
+/**
+ * Renders `value` starting after `lead` (the indentation and key already on its line); `tail` is
+ * what follows it on that line (a comma or nothing).
+ */
+function render(value: unknown, indent: string, lead: number, tail: number, width: number): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    if (isFlat(value)) {
+      const line = `[${value.map((item) => render(item, "", 0, 0, Number.POSITIVE_INFINITY)).join(", ")}]`;
+      if (lead + line.length + tail <= width) return line;
+    }
+    const items = value.map((item, index) => {
+      const comma = index < value.length - 1 ? 1 : 0;
+      return `${inner}${render(item, inner, inner.length, comma, width)}`;
+    });
+    return `[\n${items.join(",\n")}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  const lines = entries.map(([key, item], index) => {
+    const prefix = `${inner}${JSON.stringify(key)}: `;
+    const comma = index < entries.length - 1 ? 1 : 0;
+    return `${prefix}${render(item, inner, prefix.length, comma, width)}`;
+  });
+  return `{\n${lines.join(",\n")}\n${indent}}`;
+}
+
+/** `value` as Biome-formatted JSON text, ending with a newline. */
+export function formatJson(value: unknown, lineWidth = JSON_LINE_WIDTH): string {
+  // Round-trip first so `toJSON`, `undefined` and functions behave as in `JSON.stringify`.
+  const normalized: unknown = JSON.parse(JSON.stringify(value) ?? "null");
+  return `${render(normalized, "", 0, 0, lineWidth)}\n`;
+}
+
+/** `package.json` text: Biome expands every non-empty array in those files, as npm writes them. */
+export function formatPackageJson(value: unknown): string {
+  return formatJson(value, Number.NEGATIVE_INFINITY);
+}
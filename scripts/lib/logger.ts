@@ -0,0 +1,18 @@
+/**
+ * Minimal logger used by generators so callers (CLI, library users) control output.
+ */
+
+export type Logger = {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+};
+
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+};
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+};
@@ -0,0 +1,339 @@
+/**
+ * Schema for the `@custom:*` NatSpec tags that drive the example registry.
+ *
+ * Each tag declares whether it is required and how its value is checked. Problems are reported
+ * as diagnostics (file, line, tag, message) instead of being normalized away, so
+ * `fhevm-hub metadata` can fail CI with a precise pointer to the offending line.
+ */
+
+import { ENCRYPTED_INPUT_METHODS } from "../deploy-script-generators";
+import { type DeployTargetResolver, normalizeDeployStep, validateDeployPlan } from "./deploy-plan";
+import type { NatSpecDoc } from "./solidity-metadata";
+import { toKebabCase } from "./text-utils";
+
+export type MetadataSeverity = "error" | "warning";
+
+export type MetadataDiagnostic = {
+  /** Repo-relative, `/`-separated path of the contract file. */
+  file: string;
+  line?: number;
+  tag: string;
+  severity: MetadataSeverity;
+  message: string;
+};
+
+export const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+
+/** Chapters examples may be filed under. Add new chapters here before using them in a contract. */
+export const KNOWN_CHAPTERS = [
+  "access-control",
+  "anti-patterns",
+  "arithmetic",
+  "auctions",
+  "basics",
+  "comparisons",
+  "compliance",
+  "decryption-public",
+  "decryption-user",
+  "encryption",
+  "erc7984",
+  "games",
+  "handles",
+  "identity",
+  "input-proofs",
+  "relayer",
+  "swaps",
+  "vesting",
+] as const;
+
+export type MetadataContext = {
+  /** Category folders under `contracts/`. */
+  categories: ReadonlySet<string>;
+  /** Every contract, interface and library name declared in the hub. */
+  contractNames: ReadonlySet<string>;
+  /** Whether a `@custom:test` file name resolves to an existing test. */
+  testExists: (fileName: string) => boolean;
+  /** Constructor lookup used to check `@custom:deploy-plan` arguments. */
+  resolveDeployTarget: DeployTargetResolver;
+};
+
+type TagSchema = {
+  tag: string;
+  required: boolean;
+  /** Returns one message per problem; an empty array means the value is valid. */
+  check?: (value: string, context: MetadataContext) => string[];
+};
+
+const DEPLOY_STEP_KEYS = new Set(["contract", "args", "saveAs", "afterDeploy"]);
+const DEPLOY_ARG_KEYS = new Set(["ref", "signer", "literal", "value", "bool", "expr", "encrypted"]);
+
+/** `afterDeploy` object forms, keyed by verb, with the keys each one allows. */
+const DEPLOY_ACTION_KEYS: Record<string, { required: string[]; optional: string[] }> = {
+  call: { required: [], optional: ["args"] },
+  grantRole: { required: ["on", "to"], optional: [] },
+  mint: { required: ["to", "amount"], optional: [] },
+  log: { required: [], optional: ["value"] },
+  code: { required: [], optional: [] },
+};
+
+function splitList(value: string): string[] {
+  return value.split(",").map((entry) => entry.trim());
+}
+
+function isIdentifier(value: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/u.test(value);
+}
+
+function checkCategory(value: string, context: MetadataContext): string[] {
+  if (context.categories.has(value)) return [];
+  return [
+    `unknown category "${value}" (expected one of: ${[...context.categories].sort().join(", ")})`,
+  ];
+}
+
+function checkChapters(value: string): string[] {
+  const known: readonly string[] = KNOWN_CHAPTERS;
+  return splitList(value).flatMap((entry) => {
+    if (entry.length === 0) return ["empty entry in comma-separated chapter list"];
+    const chapter = toKebabCase(entry);
+    if (known.includes(chapter)) return [];
+    return [
+      `unknown chapter "${entry}" (add it to KNOWN_CHAPTERS in scripts/lib/metadata-schema.ts)`,
+    ];
+  });
+}
+
+function checkDifficulty(value: string): string[] {
+  const known: readonly string[] = DIFFICULTIES;
+  if (known.includes(value.toLowerCase())) return [];
+  return [`unknown difficulty "${value}" (expected one of: ${DIFFICULTIES.join(", ")})`];
+}
+
+function checkDependsOn(value: string, context: MetadataContext): string[] {
+  return splitList(value).flatMap((entry) => {
+    if (entry.length === 0) return ["empty entry in comma-separated contract list"];
+    if (!isIdentifier(entry)) return [`"${entry}" is not a contract name`];
+    if (context.contractNames.has(entry)) return [];
+    return [`"${entry}" does not match any contract under contracts/`];
+  });
+}
+
+function checkDeployArg(arg: unknown, where: string): string[] {
+  if (typeof arg === "string" || typeof arg === "number" || typeof arg === "boolean") return [];
+  if (typeof arg !== "object" || arg === null || Array.isArray(arg)) {
+    return [`${where} must be a string, a number, a boolean or an object`];
+  }
+  const keys = Object.keys(arg);
+  if (keys.length !== 1 || !DEPLOY_ARG_KEYS.has(keys[0])) {
+    return [`${where} must have exactly one of: ${[...DEPLOY_ARG_KEYS].join(", ")}`];
+  }
+  if (keys[0] === "encrypted")
+    return checkEncryptedArg((arg as { encrypted: unknown }).encrypted, where);
+  return [];
+}
+
+function checkEncryptedArg(encrypted: unknown, where: string): string[] {
+  if (typeof encrypted !== "object" || encrypted === null || Array.isArray(encrypted)) {
+    return [`${where} "encrypted" must be an object with "type" and "value"`];
+  }
+  const { type, value, ...rest } = encrypted as Record<string, unknown>;
+  const problems = Object.keys(rest).map((key) => `${where} "encrypted" has unknown key "${key}"`);
+  if (typeof type !== "string" || !(type in ENCRYPTED_INPUT_METHODS)) {
+    problems.push(
+      `${where} encrypted type must be one of: ${Object.keys(ENCRYPTED_INPUT_METHODS).join(", ")}`,
+    );
+  }
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    problems.push(`${where} "encrypted" is missing "value"`);
+  } else {
+    for (const clear of Array.isArray(value) ? value : [value]) {
+      if (typeof clear === "object" && clear !== null && "encrypted" in clear) {
+        problems.push(`${where} encrypted values cannot be nested`);
+      } else {
+        problems.push(...checkDeployArg(clear, `${where} encrypted value`));
+      }
+    }
+  }
+  return problems;
+}
+
+function checkDeployAction(action: unknown, where: string): string[] {
+  if (typeof action === "string") return [];
+  if (typeof action !== "object" || action === null || Array.isArray(action)) {
+    return [`${where} must be a code string or an action object`];
+  }
+  const record = action as Record<string, unknown>;
+  const verbs = Object.keys(record).filter((key) => key in DEPLOY_ACTION_KEYS);
+  if (verbs.length !== 1) {
+    return [`${where} must have exactly one of: ${Object.keys(DEPLOY_ACTION_KEYS).join(", ")}`];
+  }
+
+  const [verb] = verbs;
+  const { required, optional } = DEPLOY_ACTION_KEYS[verb];
+  const problems = Object.keys(record)
+    .filter((key) => key !== verb && !required.includes(key) && !optional.includes(key))
+    .map((key) => `${where} has unknown key "${key}" for ${verb}`);
+  problems.push(
+    ...required
+      .filter((key) => record[key] === undefined)
+      .map((key) => `${where} ${verb} is missing "${key}"`),
+  );
+
+  if (typeof record[verb] !== "string") {
+    problems.push(`${where} "${verb}" must be a string`);
+  } else if (
+    verb === "call" &&
+    !/^[A-Za-z_$][\w$]*\.[A-Za-z_$][\w$]*$/u.test(record.call as string)
+  ) {
+    problems.push(`${where} "call" must look like "variable.method"`);
+  }
+  if (verb === "grantRole" && typeof record.on !== "string") {
+    problems.push(`${where} "on" must name a plan variable`);
+  }
+  if (record.args !== undefined && !Array.isArray(record.args)) {
+    problems.push(`${where} "args" must be an array`);
+  }
+  for (const key of ["to", "amount", "value"]) {
+    if (record[key] !== undefined) problems.push(...checkDeployArg(record[key], `${where} ${key}`));
+  }
+  if (Array.isArray(record.args)) {
+    record.args.forEach((arg, argIndex) => {
+      problems.push(...checkDeployArg(arg, `${where} arg ${argIndex + 1}`));
+    });
+  }
+  return problems;
+}
+
+function checkDeployStep(step: unknown, index: number): string[] {
+  const where = `step ${index + 1}`;
+  if (typeof step !== "object" || step === null || Array.isArray(step)) {
+    return [`${where} must be an object`];
+  }
+  const record = step as Record<string, unknown>;
+  const problems = Object.keys(record)
+    .filter((key) => !DEPLOY_STEP_KEYS.has(key))
+    .map((key) => `${where} has unknown key "${key}"`);
+
+  if (typeof record.contract !== "string" || record.contract.length === 0) {
+    problems.push(`${where} is missing "contract"`);
+  }
+  if (
+    record.saveAs !== undefined &&
+    !(typeof record.saveAs === "string" && isIdentifier(record.saveAs))
+  ) {
+    problems.push(`${where} "saveAs" must be a JavaScript identifier`);
+  }
+  if (record.args !== undefined) {
+    if (Array.isArray(record.args)) {
+      record.args.forEach((arg, argIndex) => {
+        problems.push(...checkDeployArg(arg, `${where} arg ${argIndex + 1}`));
+      });
+    } else {
+      problems.push(`${where} "args" must be an array`);
+    }
+  }
+  if (record.afterDeploy !== undefined) {
+    if (Array.isArray(record.afterDeploy)) {
+      record.afterDeploy.forEach((action, actionIndex) => {
+        problems.push(...checkDeployAction(action, `${where} afterDeploy ${actionIndex + 1}`));
+      });
+    } else {
+      problems.push(`${where} "afterDeploy" must be an array`);
+    }
+  }
+  return problems;
+}
+
+function checkDeployPlan(value: string, context: MetadataContext): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [`invalid JSON: ${message}`];
+  }
+  if (!Array.isArray(parsed)) return ["must be a JSON array of deploy steps"];
+  if (parsed.length === 0) return ["must contain at least one deploy step"];
+  const shapeProblems = parsed.flatMap((step, index) => checkDeployStep(step, index));
+  if (shapeProblems.length > 0) return shapeProblems;
+
+  return validateDeployPlan(
+    (parsed as unknown[]).map((step) => normalizeDeployStep(step)),
+    context.resolveDeployTarget,
+  );
+}
+
+function checkTest(value: string, context: MetadataContext): string[] {
+  if (!value.endsWith(".ts")) return [`"${value}" must be a .ts file name`];
+  if (context.testExists(value)) return [];
+  return [`test file "${value}" not found in the example's test category folders`];
+}
+
+export const METADATA_SCHEMA: TagSchema[] = [
+  { tag: "title", required: true },
+  { tag: "custom:category", required: true, check: checkCategory },
+  { tag: "custom:chapter", required: true, check: checkChapters },
+  { tag: "custom:concept", required: true },
+  { tag: "custom:difficulty", required: true, check: checkDifficulty },
+  { tag: "custom:depends-on", required: false, check: checkDependsOn },
+  { tag: "custom:deploy-plan", required: false, check: checkDeployPlan },
+  { tag: "custom:test", required: false, check: checkTest },
+];
+
+/**
+ * Checks an example's merged NatSpec against `METADATA_SCHEMA`. Missing tags are reported on
+ * `declarationLine` (the primary contract); everything else on the line where the tag starts.
+ */
+export function validateExampleMetadata(
+  file: string,
+  doc: NatSpecDoc,
+  declarationLine: number,
+  context: MetadataContext,
+): MetadataDiagnostic[] {
+  const diagnostics: MetadataDiagnostic[] = [];
+  const knownTags = new Set(METADATA_SCHEMA.map((schema) => schema.tag));
+  const customTags = [...knownTags].filter((tag) => tag.startsWith("custom:"));
+
+  for (const schema of METADATA_SCHEMA) {
+    const value = doc.tags[schema.tag];
+    if (value === undefined) {
+      if (schema.required) {
+        diagnostics.push({
+          file,
+          line: declarationLine,
+          tag: schema.tag,
+          severity: "error",
+          message: "required tag is missing",
+        });
+      }
+      continue;
+    }
+    for (const message of schema.check?.(value, context) ?? []) {
+      diagnostics.push({
+        file,
+        line: doc.lines[schema.tag],
+        tag: schema.tag,
+        severity: "error",
+        message,
+      });
+    }
+  }
+
+  for (const tag of Object.keys(doc.tags)) {
+    if (!tag.startsWith("custom:") || knownTags.has(tag)) continue;
+    diagnostics.push({
+      file,
+      line: doc.lines[tag],
+      tag,
+      severity: "warning",
+      message: `unknown tag (known: ${customTags.map((name) => `@${name}`).join(", ")})`,
+    });
+  }
+
+  return diagnostics;
+}
+
+export function formatDiagnostic(diagnostic: MetadataDiagnostic): string {
+  const location = diagnostic.line ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file;
+  return `${location}  ${diagnostic.severity}  @${diagnostic.tag}: ${diagnostic.message}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Persisted, content-addressed cache for per-file registry parsing.
+ *
+ * Entries are keyed by repo-relative path and invalidated by the SHA-256 of the file content,
+ * so unchanged contracts and tests are never re-parsed. Bumping `version` (parser changes)
+ * discards the whole cache.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export const DEFAULT_REGISTRY_CACHE_FILE = path.join(".cache", "registry.json");
+
+type CacheEntry = {
+  hash: string;
+  value: unknown;
+};
+
+type CacheFile = {
+  version: string;
+  entries: Record<string, CacheEntry>;
+};
+
+export type RegistryCacheStats = {
+  cacheFile?: string;
+  parsed: number;
+  reused: number;
+};
+
+export type RegistryCache = {
+  /** Returns the cached value for `key` when `content` is unchanged, else computes and stores it. */
+  resolve: <T>(key: string, content: string, compute: (content: string) => T) => T;
+  /** Writes the entries used since opening (stale paths are dropped). No-op when disabled. */
+  save: () => void;
+  stats: RegistryCacheStats;
+};
+
+export type RegistryCacheOptions = {
+  /** Absolute cache file path, or undefined to disable persistence entirely. */
+  cacheFile?: string;
+  /** Ignore existing entries but still write a fresh cache. */
+  refresh?: boolean;
+  version: string;
+};
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function readCacheFile(cacheFile: string, version: string): Record<string, CacheEntry> {
+  if (!fs.existsSync(cacheFile)) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cacheFile, "utf8")) as CacheFile;
+    if (parsed.version !== version || typeof parsed.entries !== "object") return {};
+    return parsed.entries;
+  } catch {
+    // A corrupt cache is just a cold cache.
+    return {};
+  }
+}
+
+export function openRegistryCache(options: RegistryCacheOptions): RegistryCache {
+  const { cacheFile, refresh, version } = options;
+  const previous = cacheFile && !refresh ? readCacheFile(cacheFile, version) : {};
+  const next: Record<string, CacheEntry> = {};
+  const stats: RegistryCacheStats = { cacheFile, parsed: 0, reused: 0 };
+
+  return {
+    resolve<T>(key: string, content: string, compute: (content: string) => T): T {
+      const existing = next[key];
+      const hash = hashContent(content);
+      if (existing?.hash === hash) return existing.value as T;
+
+      const cached = previous[key];
+      if (cached?.hash === hash) {
+        stats.reused += 1;
+        next[key] = cached;
+        return cached.value as T;
+      }
+
+      stats.parsed += 1;
+      const value = compute(content);
+      next[key] = { hash, value };
+      return value;
+    },
+    save() {
+      if (!cacheFile) return;
+      const sortedEntries = Object.fromEntries(
+        Object.keys(next)
+          .sort()
+          .map((key) => [key, next[key]]),
+      );
+      const serialized = `${JSON.stringify({ version, entries: sortedEntries }, null, 2)}\n`;
+      if (fs.existsSync(cacheFile) && fs.readFileSync(cacheFile, "utf8") === serialized) return;
+      fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+      fs.writeFileSync(cacheFile, serialized);
+    },
+    stats,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Incremental updates of generated repos.
+ *
+ * Generation records a copy of every file it wrote under `.fhevm-example/baseline/`. An update
+ * regenerates into a scratch directory and three-way merges each file: baseline (last generation),
+ * local (the repo as the user has it) and hub (this generation). Files the user never touched
+ * are replaced; files both sides changed get conflict markers (or, for JSON, keep the local value
+ * of conflicting keys) and are listed in the report.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { CliError } from "./cli";
+import { formatJson, formatPackageJson } from "./json-format";
+import { mergeJson, mergeText } from "./three-way-merge";
+
+export const GENERATION_DIR = ".fhevm-example";
+export const BASELINE_DIR = path.join(GENERATION_DIR, "baseline");
+
+/** Directories never recorded in the baseline nor touched by an update. */
+const SKIPPED_DIRS = new Set([GENERATION_DIR, ".git", "node_modules"]);
+
+export type UpdateConflict = {
+  file: string;
+  reason: string;
+  /** Whether the file now holds `<<<<<<<` conflict markers to resolve. */
+  marked?: boolean;
+};
+
+export type UpdateReport = {
+  /** Files replaced with the hub version (unchanged locally). */
+  updated: string[];
+  /** Files new in the hub version. */
+  added: string[];
+  /** Files the hub no longer generates (unchanged locally). */
+  removed: string[];
+  /** Files changed on both sides and merged cleanly. */
+  merged: string[];
+  /** Files needing attention; text conflicts are marked in the file itself. */
+  conflicts: UpdateConflict[];
+};
+
+/**
+ * Repo-relative paths (forward slashes) of the files under `dir`, sorted. Skips `.git`,
+ * `node_modules` and the generation directory.
+ */
+export function listRepoFiles(dir: string, prefix = ""): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!prefix && SKIPPED_DIRS.has(entry.name)) continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listRepoFiles(path.join(dir, entry.name), relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files.sort();
+}
+
+function readIfExists(file: string): Buffer | undefined {
+  return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+function copyWithMode(src: string, dest: string) {
+  fs.mkdirSync(path.dirname(dest), { recursive: true });
+  fs.copyFileSync(src, dest);
+  fs.chmodSync(dest, fs.statSync(src).mode);
+}
+
+/** Records the files just generated in `repoDir` as the baseline for later updates. */
+export function writeBaseline(repoDir: string, sourceDir: string = repoDir): void {
+  const baselineDir = path.join(repoDir, BASELINE_DIR);
+  fs.rmSync(baselineDir, { recursive: true, force: true });
+  for (const file of listRepoFiles(sourceDir)) {
+    copyWithMode(path.join(sourceDir, file), path.join(baselineDir, file));
+  }
+}
+
+export function hasBaseline(repoDir: string): boolean {
+  return fs.existsSync(path.join(repoDir, BASELINE_DIR));
+}
+
+function mergeFile(base: string, local: string, hub: string, file: string) {
+  if (file.endsWith(".json")) {
+    try {
+      const result = mergeJson(JSON.parse(base), JSON.parse(local), JSON.parse(hub));
+      return {
+        text:
+          path.basename(file) === "package.json"
+            ? formatPackageJson(result.value)
+            : formatJson(result.value),
+        conflict:
+          result.conflicts.length > 0
+            ? `kept local value for ${result.conflicts.join(", ")}`
+            : undefined,
+      };
+    } catch {
+      // Not valid JSON on some side (comments, a half-edited file): merge it as text.
+    }
+  }
+  const result = mergeText(base, local, hub);
+  return {
+    text: result.text,
+    conflict: result.conflicts > 0 ? `${result.conflicts} conflict(s) marked` : undefined,
+    marked: result.conflicts > 0,
+  };
+}
+
+/**
+ * Applies the difference between `repoDir`'s baseline and `generatedDir` (a fresh generation) to
+ * `repoDir`, then makes `generatedDir` the new baseline. Throws when `repoDir` has no baseline.
+ */
+export function applyUpdate(generatedDir: string, repoDir: string): UpdateReport {
+  if (!hasBaseline(repoDir)) {
+    throw new CliError(
+      `No generation baseline in ${repoDir} (${BASELINE_DIR}); only repos generated by this version of the hub can be updated`,
+    );
+  }
+
+  const baselineDir = path.join(repoDir, BASELINE_DIR);
+  const report: UpdateReport = { updated: [], added: [], removed: [], merged: [], conflicts: [] };
+  const files = new Set([...listRepoFiles(baselineDir), ...listRepoFiles(generatedDir)]);
+
+  for (const file of [...files].sort()) {
+    const localPath = path.join(repoDir, file);
+    const hubPath = path.join(generatedDir, file);
+    const base = readIfExists(path.join(baselineDir, file));
+    const local = readIfExists(localPath);
+    const hub = readIfExists(hubPath);
+
+    if (hub && base?.equals(hub)) continue;
+    if (!hub) {
+      if (!local) continue;
+      if (base?.equals(local)) {
+        fs.rmSync(localPath);
+        report.removed.push(file);
+      } else {
+        report.conflicts.push({ file, reason: "no longer generated, but modified locally" });
+      }
+      continue;
+    }
+    if (!local) {
+      if (base) {
+        report.conflicts.push({ file, reason: "deleted locally, but changed upstream" });
+      } else {
+        copyWithMode(hubPath, localPath);
+        report.added.push(file);
+      }
+      continue;
+    }
+    if (local.equals(hub)) continue;
+    if (base?.equals(local)) {
+      copyWithMode(hubPath, localPath);
+      report.updated.push(file);
+      continue;
+    }
+    if (isBinary(local) || isBinary(hub)) {
+      report.conflicts.push({ file, reason: "binary file changed on both sides, kept local" });
+      continue;
+    }
+
+    // A file the user created before it existed upstream merges against an empty baseline.
+    const merged = mergeFile(
+      base?.toString("utf8") ?? "",
+      local.toString("utf8"),
+      hub.toString("utf8"),
+      file,
+    );
+    fs.writeFileSync(localPath, merged.text);
+    if (merged.conflict) {
+      report.conflicts.push({
+        file,
+        reason: merged.conflict,
+        ...(merged.marked ? { marked: true } : {}),
+      });
+    } else {
+      report.merged.push(file);
+    }
+  }
+
+  writeBaseline(repoDir, generatedDir);
+  return report;
+}
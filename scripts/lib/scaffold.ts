@@ -0,0 +1,196 @@
+/**
+ * Scaffolding core shared by `create` and `create:category` (and exported for programmatic use).
+ *
+ * One example repo is: the Hardhat template (minus its sample contracts and tests), the example's
+ * contracts and test copied from the hub, the generator pipeline's files and the generation
+ * manifest. `scaffoldExample` plans all of it and, unless `dryRun` is set, writes it along with
+ * the baseline used by `create --update`.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import type { ExampleMeta } from "../example-registry";
+import { ensureHardhatTemplateDir, findHardhatTemplateDir } from "../template-utils";
+import { CliError } from "./cli";
+import { planExerciseRepo, stripPlannedExerciseMarkers } from "./exercise";
+import {
+  createFilePlan,
+  type FilePlan,
+  planCopy,
+  planDirectory,
+  planGenerated,
+  removePlannedDir,
+  writeFilePlan,
+} from "./file-plan";
+import {
+  buildGenerationManifest,
+  formatGenerationManifest,
+  MANIFEST_FILE,
+} from "./generation-manifest";
+import {
+  type GeneratorStep,
+  planGeneratorSteps,
+  resolveGeneratorSteps,
+} from "./generator-pipeline";
+import { getRootPackageVersions } from "./generators";
+import { consoleLogger, type Logger } from "./logger";
+import { writeBaseline } from "./repo-update";
+
+export type ScaffoldOptions = {
+  /** Hub root: template, package versions and hub config are read from here. */
+  rootDir: string;
+  logger?: Logger;
+  /** Generator steps; defaults to `resolveGeneratorSteps(rootDir)`. Pass them to reuse. */
+  steps?: readonly GeneratorStep[];
+  /** Only plan: nothing is written and `outDir` may be non-empty. */
+  dryRun?: boolean;
+  /** Generate the exercise version: starter contracts and hidden solution tests. */
+  exercise?: boolean;
+  /**
+   * Keep the `@exercise` markers in the copied contracts (the course turns them into starters
+   * itself); other repos ship the solution without them.
+   */
+  keepExerciseMarkers?: boolean;
+  /**
+   * Plan without side effects (`--dry-run`): use the Hardhat template only if it is already
+   * present, without initializing submodules or cloning it, and run no `git` for the manifest.
+   */
+  offline?: boolean;
+};
+
+/** Plans the Hardhat template's files and returns the template directory used. */
+function planBaseTemplate(rootDir: string, plan: FilePlan, offline: boolean): string {
+  const templateDir = offline ? findHardhatTemplateDir(rootDir) : ensureHardhatTemplateDir(rootDir);
+  if (!templateDir) {
+    throw new CliError(
+      "Hardhat template not found and --dry-run does not fetch it. Run `npm run ensure-template` or set FHEVM_TEMPLATE_DIR.",
+    );
+  }
+
+  if (!fs.existsSync(templateDir)) {
+    throw new Error(`Hardhat template directory not found: ${templateDir}`);
+  }
+
+  planDirectory(plan, templateDir, "template");
+  return templateDir;
+}
+
+export function assertEmptyDirectory(dirPath: string) {
+  if (!fs.existsSync(dirPath)) {
+    return;
+  }
+  const entries = fs.readdirSync(dirPath);
+  if (entries.length > 0) {
+    throw new Error(`Output directory is not empty: ${dirPath}`);
+  }
+}
+
+function planExampleFiles(
+  example: ExampleMeta,
+  rootDir: string,
+  steps: readonly GeneratorStep[],
+  logger: Logger,
+  exercise: boolean,
+  keepExerciseMarkers: boolean,
+  offline: boolean,
+): FilePlan {
+  const plan = createFilePlan();
+
+  // Scaffold from shared base template first.
+  const templateDir = planBaseTemplate(rootDir, plan, offline);
+
+  // Remove template example contract/tests to avoid duplicates.
+  removePlannedDir(plan, "contracts");
+  removePlannedDir(plan, "test");
+
+  // Copy main contract
+  const contractName = path.basename(example.contractFile);
+  planCopy(plan, example.contractFile, `contracts/${contractName}`, logger);
+
+  // Copy extra contract dependencies
+  for (const extra of example.extraContractFiles) {
+    if (path.basename(extra) === contractName) {
+      continue;
+    }
+    planCopy(plan, extra, `contracts/${path.basename(extra)}`, logger);
+  }
+
+  // Copy helper contracts (if any)
+  for (const helper of example.helperFiles) {
+    planCopy(plan, helper, `contracts/helpers/${path.basename(helper)}`, logger);
+  }
+
+  // Copy mock contracts (if any)
+  for (const mock of example.mockFiles) {
+    planCopy(plan, mock, `contracts/mocks/${path.basename(mock)}`, logger);
+  }
+
+  // Copy test
+  if (example.testFile) {
+    planCopy(plan, example.testFile, `test/${path.basename(example.testFile)}`, logger);
+  } else {
+    logger.warn(`  Warning: No test file resolved for ${example.slug}.`);
+  }
+
+  // Generated files (package.json, configs, deploy script, DX setup)
+  const rootVersions = getRootPackageVersions(rootDir);
+  planGeneratorSteps(plan, steps, { rootDir, example, rootVersions });
+
+  // Exercise version: starters, solution and its tests under .exercise/; otherwise the solution
+  // without the exercise markers
+  if (exercise) planExerciseRepo(plan, example, logger);
+  else if (!keepExerciseMarkers) stripPlannedExerciseMarkers(plan);
+
+  // Generation manifest (hashes every file planned above)
+  planGenerated(
+    plan,
+    MANIFEST_FILE,
+    formatGenerationManifest(
+      buildGenerationManifest(rootDir, example, plan, templateDir, {
+        mode: exercise ? "exercise" : undefined,
+        offline,
+      }),
+    ),
+  );
+
+  return plan;
+}
+
+/**
+ * Scaffolds `example`'s standalone repository into `outDir` and returns its file plan.
+ * Throws if `outDir` already contains files (unless `dryRun`).
+ */
+export function scaffoldExample(
+  example: ExampleMeta,
+  outDir: string,
+  options: ScaffoldOptions,
+): FilePlan {
+  const {
+    rootDir,
+    logger = consoleLogger,
+    dryRun = false,
+    exercise = false,
+    keepExerciseMarkers = false,
+    offline = false,
+  } = options;
+  const steps = options.steps ?? resolveGeneratorSteps(rootDir);
+
+  if (!dryRun) assertEmptyDirectory(outDir);
+  const plan = planExampleFiles(
+    example,
+    rootDir,
+    steps,
+    logger,
+    exercise,
+    keepExerciseMarkers,
+    offline,
+  );
+  if (dryRun) return plan;
+
+  fs.mkdirSync(outDir, { recursive: true });
+  writeFilePlan(plan, outDir, logger);
+  // Baseline for `create --update`
+  writeBaseline(outDir);
+  return plan;
+}
@@ -0,0 +1,389 @@
+/**
+ * Solidity source metadata for the example registry.
+ *
+ * Contracts, imports, inheritance and functions come from the `@solidity-parser/parser` AST.
+ * NatSpec comments are not part of that AST, so they are collected by a small string-aware
+ * comment scanner and attached to the contract definition that immediately follows them.
+ */
+
+import { parse } from "@solidity-parser/parser";
+import type {
+  BaseASTNode,
+  ContractDefinition,
+  FunctionDefinition,
+  TypeName,
+} from "@solidity-parser/parser/dist/src/ast-types";
+
+export type ContractKind = "contract" | "interface" | "library" | "abstract";
+
+export type NatSpecTags = Record<string, string>;
+
+/** 1-based source line on which each tag starts, keyed like `NatSpecTags`. */
+export type NatSpecLines = Record<string, number>;
+
+export type NatSpecDoc = {
+  tags: NatSpecTags;
+  lines: NatSpecLines;
+};
+
+export type SolidityParameter = {
+  name: string;
+  /**
+   * ABI-style type for elementary types and arrays (`uint256`, `address`, `bytes32[]`).
+   * User-defined types (contracts, interfaces, enums, structs) keep their source name.
+   */
+  type: string;
+};
+
+export type SolidityFunction = {
+  name: string;
+  visibility: "public" | "external";
+  stateMutability?: string;
+  inputs: SolidityParameter[];
+};
+
+export type SolidityContract = {
+  name: string;
+  kind: ContractKind;
+  /** 1-based line of the `contract`/`interface`/`library` keyword. */
+  line: number;
+  /** Direct base contracts, in declaration order. */
+  bases: string[];
+  natspec: NatSpecDoc;
+  /** Public and external functions (constructors, fallback and receive excluded). */
+  functions: SolidityFunction[];
+  /** Parameters of the contract's own constructor; empty when it declares none. */
+  constructorInputs: SolidityParameter[];
+};
+
+export type SolidityImport = {
+  path: string;
+  /** Imported symbol names (`import {A, B as C} from`); empty for whole-file imports. */
+  symbols: string[];
+};
+
+export type SolidityFileInfo = {
+  contracts: SolidityContract[];
+  imports: SolidityImport[];
+  /** NatSpec blocks that are not attached to a contract (file-level docs), in source order. */
+  fileNatspec: NatSpecDoc[];
+};
+
+type Comment = {
+  start: number;
+  end: number;
+  text: string;
+  natspec: boolean;
+};
+
+type NatSpecBlock = {
+  end: number;
+  doc: NatSpecDoc;
+};
+
+/**
+ * Collects comments while skipping string literals, so `"ipfs://..."` is never mistaken for a
+ * line comment.
+ */
+export function scanComments(source: string): Comment[] {
+  const comments: Comment[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '"' || char === "'") {
+      i += 1;
+      while (i < source.length && source[i] !== char && source[i] !== "\n") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (char === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      const text = source.slice(i, stop);
+      comments.push({
+        start: i,
+        end: stop,
+        text,
+        natspec: text.startsWith("///") && !text.startsWith("////"),
+      });
+      i = stop;
+      continue;
+    }
+
+    if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      const text = source.slice(i, stop);
+      comments.push({
+        start: i,
+        end: stop,
+        text,
+        natspec: text.startsWith("/**") && !text.startsWith("/***") && text !== "/**/",
+      });
+      i = stop;
+      continue;
+    }
+
+    i += 1;
+  }
+
+  return comments;
+}
+
+function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i += 1) {
+    if (source[i] === "\n") line += 1;
+  }
+  return line;
+}
+
+function commentBodyLines(comment: Comment): string[] {
+  if (comment.text.startsWith("///")) {
+    return [comment.text.replace(/^\/\/\/ ?/u, "")];
+  }
+  return comment.text
+    .replace(/^\/\*\*/u, "")
+    .replace(/\*\/$/u, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/u, ""));
+}
+
+/**
+ * Parses NatSpec lines into tags. A tag value continues on following lines until a blank line
+ * or the next tag, so long values (e.g. a wrapped `@custom:deploy-plan`) can span lines.
+ * The first occurrence of a tag wins. Untagged leading text is treated as `@notice`.
+ * `lineNumbers[i]` is the source line of `lines[i]` (defaults to `i + 1`).
+ */
+export function parseNatSpec(lines: string[], lineNumbers: number[] = []): NatSpecDoc {
+  const tags: NatSpecTags = {};
+  const tagLines: NatSpecLines = {};
+  let current: { tag: string; value: string; line: number } | undefined;
+
+  const flush = () => {
+    if (current && current.value.length > 0 && !(current.tag in tags)) {
+      tags[current.tag] = current.value;
+      tagLines[current.tag] = current.line;
+    }
+    current = undefined;
+  };
+
+  for (const [index, rawLine] of lines.entries()) {
+    const line = rawLine.trim();
+    const lineNumber = lineNumbers[index] ?? index + 1;
+    const tagMatch = line.match(/^@([\w:-]+)\s*(.*)$/u);
+    if (tagMatch) {
+      flush();
+      current = { tag: tagMatch[1], value: tagMatch[2].trim(), line: lineNumber };
+      continue;
+    }
+    if (line.length === 0) {
+      flush();
+      continue;
+    }
+    if (current) {
+      current.value = current.value ? `${current.value} ${line}` : line;
+    } else if (Object.keys(tags).length === 0) {
+      current = { tag: "notice", value: line, line: lineNumber };
+    }
+  }
+  flush();
+
+  return { tags, lines: tagLines };
+}
+
+/** Groups adjacent `///` lines into one block; each `/** *\/` comment is its own block. */
+function collectNatSpecBlocks(source: string, comments: Comment[]): NatSpecBlock[] {
+  const blocks: NatSpecBlock[] = [];
+  let pendingLines: string[] = [];
+  let pendingLineNumbers: number[] = [];
+  let pendingEnd = -1;
+
+  const flushLines = () => {
+    if (pendingLines.length > 0) {
+      blocks.push({ end: pendingEnd, doc: parseNatSpec(pendingLines, pendingLineNumbers) });
+    }
+    pendingLines = [];
+    pendingLineNumbers = [];
+    pendingEnd = -1;
+  };
+
+  for (const comment of comments) {
+    if (!comment.natspec) continue;
+    if (comment.text.startsWith("///")) {
+      const contiguous =
+        pendingEnd !== -1 && source.slice(pendingEnd, comment.start).trim().length === 0;
+      if (!contiguous) flushLines();
+      pendingLines.push(...commentBodyLines(comment));
+      pendingLineNumbers.push(lineAt(source, comment.start));
+      pendingEnd = comment.end;
+      continue;
+    }
+    flushLines();
+    const bodyLines = commentBodyLines(comment);
+    const firstLine = lineAt(source, comment.start);
+    blocks.push({
+      end: comment.end,
+      doc: parseNatSpec(
+        bodyLines,
+        bodyLines.map((_, index) => firstLine + index),
+      ),
+    });
+  }
+  flushLines();
+
+  return blocks.sort((a, b) => a.end - b.end);
+}
+
+/** True when only whitespace and plain (non-NatSpec) comments sit between `from` and `to`. */
+function onlyTriviaBetween(source: string, comments: Comment[], from: number, to: number): boolean {
+  let cursor = from;
+  for (const comment of comments) {
+    if (comment.natspec || comment.start < from || comment.end > to) continue;
+    if (source.slice(cursor, comment.start).trim().length > 0) return false;
+    cursor = comment.end;
+  }
+  return source.slice(cursor, to).trim().length === 0;
+}
+
+function toContractKind(node: ContractDefinition): ContractKind {
+  const { kind } = node;
+  if (kind === "interface" || kind === "library" || kind === "abstract") return kind;
+  return "contract";
+}
+
+function isFunctionDefinition(node: BaseASTNode): node is FunctionDefinition {
+  return node.type === "FunctionDefinition";
+}
+
+function toTypeString(typeName: TypeName | null): string {
+  if (!typeName) return "unknown";
+  switch (typeName.type) {
+    case "ElementaryTypeName":
+      if (typeName.name === "uint" || typeName.name === "int") return `${typeName.name}256`;
+      return typeName.name;
+    case "UserDefinedTypeName":
+      return typeName.namePath;
+    case "ArrayTypeName": {
+      const { length } = typeName;
+      const size = length && length.type === "NumberLiteral" ? length.number : "";
+      return `${toTypeString(typeName.baseTypeName)}[${size}]`;
+    }
+    case "Mapping":
+      return "mapping";
+    default:
+      return "function";
+  }
+}
+
+function toParameters(fn: FunctionDefinition | undefined): SolidityParameter[] {
+  return (fn?.parameters ?? []).map((parameter) => ({
+    name: parameter.name ?? "",
+    type: toTypeString(parameter.typeName),
+  }));
+}
+
+function collectConstructorInputs(node: ContractDefinition): SolidityParameter[] {
+  return toParameters(node.subNodes.filter(isFunctionDefinition).find((fn) => fn.isConstructor));
+}
+
+function collectFunctions(node: ContractDefinition): SolidityFunction[] {
+  return node.subNodes
+    .filter(isFunctionDefinition)
+    .filter((fn) => !fn.isConstructor && !fn.isFallback && !fn.isReceiveEther && fn.name)
+    .filter((fn) => fn.visibility === "public" || fn.visibility === "external")
+    .map((fn) => ({
+      name: fn.name ?? "",
+      visibility: fn.visibility as SolidityFunction["visibility"],
+      stateMutability: fn.stateMutability ?? undefined,
+      inputs: toParameters(fn),
+    }));
+}
+
+/**
+ * Parses a Solidity source file. Throws with the parser's message on invalid syntax.
+ */
+export function parseSolidityFile(source: string): SolidityFileInfo {
+  const ast = parse(source, { range: true, loc: true });
+  const comments = scanComments(source);
+  const blocks = collectNatSpecBlocks(source, comments);
+  const attached = new Set<NatSpecBlock>();
+  const contractRanges: Array<[number, number]> = [];
+
+  const imports: SolidityImport[] = [];
+  const contracts: SolidityContract[] = [];
+
+  for (const node of ast.children) {
+    if (node.type === "ImportDirective") {
+      imports.push({
+        path: node.path,
+        symbols: (node.symbolAliases ?? []).map(([name]) => name),
+      });
+      continue;
+    }
+    if (node.type !== "ContractDefinition" || !node.range) continue;
+
+    const [start, end] = node.range;
+    contractRanges.push([start, end]);
+    const candidates = blocks.filter(
+      (block) => block.end <= start && onlyTriviaBetween(source, comments, block.end, start),
+    );
+    const docBlock = candidates[candidates.length - 1];
+    if (docBlock) attached.add(docBlock);
+
+    contracts.push({
+      name: node.name,
+      kind: toContractKind(node),
+      line: node.loc?.start.line ?? lineAt(source, start),
+      bases: node.baseContracts.map((base) => base.baseName.namePath),
+      natspec: docBlock?.doc ?? { tags: {}, lines: {} },
+      functions: collectFunctions(node),
+      constructorInputs: collectConstructorInputs(node),
+    });
+  }
+
+  const fileNatspec = blocks
+    .filter((block) => !attached.has(block))
+    .filter((block) => !contractRanges.some(([from, to]) => block.end > from && block.end <= to))
+    .map((block) => block.doc);
+
+  return { contracts, imports, fileNatspec };
+}
+
+/**
+ * Picks the contract an example file is about: the contract named like the file, otherwise the
+ * first concrete (non-abstract) contract. Interfaces, libraries and abstract contracts never
+ * qualify on their own.
+ */
+export function selectPrimaryContract(
+  info: SolidityFileInfo,
+  fileBase: string,
+): SolidityContract | undefined {
+  const concrete = info.contracts.filter((contract) => contract.kind === "contract");
+  return concrete.find((contract) => contract.name === fileBase) ?? concrete[0];
+}
+
+/**
+ * Example-level tags: file-level NatSpec first, then the primary contract's NatSpec.
+ * The first occurrence of a tag wins.
+ */
+export function collectExampleTags(
+  info: SolidityFileInfo,
+  primary: SolidityContract | undefined,
+): NatSpecDoc {
+  const merged: NatSpecDoc = { tags: {}, lines: {} };
+  for (const doc of [...info.fileNatspec, ...(primary ? [primary.natspec] : [])]) {
+    for (const [tag, value] of Object.entries(doc.tags)) {
+      if (tag in merged.tags) continue;
+      merged.tags[tag] = value;
+      merged.lines[tag] = doc.lines[tag];
+    }
+  }
+  return merged;
+}
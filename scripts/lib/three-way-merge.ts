@@ -0,0 +1,202 @@
+/**
+ * Three-way merges used to update generated repos: line-based (diff3 style) for text files and
+ * key-based for JSON objects such as `package.json`.
+ *
+ * `base` is what the hub generated last time, `local` the file as the user has it now, and `hub`
+ * what the hub generates today. Changes made on one side only are applied; overlapping changes
+ * that differ are conflicts.
+ */
+
+export const CONFLICT_MARKERS = {
+  local: "<<<<<<< local",
+  base: "||||||| baseline",
+  separator: "=======",
+  hub: ">>>>>>> hub",
+} as const;
+
+export type TextMergeResult = {
+  text: string;
+  /** Number of conflict blocks written into `text`. */
+  conflicts: number;
+};
+
+export type JsonMergeResult = {
+  value: unknown;
+  /** Dotted paths where both sides changed a value differently (the local value is kept). */
+  conflicts: string[];
+};
+
+/** A changed region: `base[baseStart, baseEnd)` was replaced by `other[otherStart, otherEnd)`. */
+type Hunk = {
+  baseStart: number;
+  baseEnd: number;
+  otherStart: number;
+  otherEnd: number;
+};
+
+/** Changed regions between two line arrays, from their longest common subsequence. */
+function diffHunks(base: string[], other: string[]): Hunk[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = other.slice(prefix, other.length - suffix);
+  const width = b.length + 1;
+  // lcs[i * width + j]: LCS length of a[i..] and b[j..].
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  let open: Hunk | undefined;
+  const close = () => {
+    if (open) hunks.push(open);
+    open = undefined;
+  };
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      close();
+      i += 1;
+      j += 1;
+      continue;
+    }
+    open ??= {
+      baseStart: prefix + i,
+      baseEnd: prefix + i,
+      otherStart: prefix + j,
+      otherEnd: prefix + j,
+    };
+    if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      i += 1;
+      open.baseEnd = prefix + i;
+    } else {
+      j += 1;
+      open.otherEnd = prefix + j;
+    }
+  }
+  close();
+  return hunks;
+}
+
+/** The lines `side` has in place of `base[start, end)`, given its hunks inside that range. */
+function sideLines(side: string[], hunks: Hunk[], base: string[], start: number, end: number) {
+  if (hunks.length === 0) return base.slice(start, end);
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return side.slice(
+    first.otherStart - (first.baseStart - start),
+    last.otherEnd + (end - last.baseEnd),
+  );
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** diff3-style line merge. Conflicting regions are written between `CONFLICT_MARKERS`. */
+export function mergeText(base: string, local: string, hub: string): TextMergeResult {
+  if (local === hub || hub === base) return { text: local, conflicts: 0 };
+  if (local === base) return { text: hub, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const localLines = local.split("\n");
+  const hubLines = hub.split("\n");
+  const tagged = [
+    ...diffHunks(baseLines, localLines).map((hunk) => ({ hunk, side: "local" as const })),
+    ...diffHunks(baseLines, hubLines).map((hunk) => ({ hunk, side: "hub" as const })),
+  ].sort((x, y) => x.hunk.baseStart - y.hunk.baseStart || x.hunk.baseEnd - y.hunk.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let index = 0;
+  while (index < tagged.length) {
+    // Group hunks whose base ranges overlap or touch; each group merges independently.
+    const start = tagged[index].hunk.baseStart;
+    let end = tagged[index].hunk.baseEnd;
+    const group = [tagged[index]];
+    index += 1;
+    while (index < tagged.length && tagged[index].hunk.baseStart <= end) {
+      end = Math.max(end, tagged[index].hunk.baseEnd);
+      group.push(tagged[index]);
+      index += 1;
+    }
+
+    output.push(...baseLines.slice(cursor, start));
+    cursor = end;
+
+    const localHunks = group.filter((entry) => entry.side === "local").map((entry) => entry.hunk);
+    const hubHunks = group.filter((entry) => entry.side === "hub").map((entry) => entry.hunk);
+    const mine = sideLines(localLines, localHunks, baseLines, start, end);
+    const theirs = sideLines(hubLines, hubHunks, baseLines, start, end);
+
+    if (hubHunks.length === 0 || sameLines(mine, theirs)) {
+      output.push(...mine);
+    } else if (localHunks.length === 0) {
+      output.push(...theirs);
+    } else {
+      conflicts += 1;
+      output.push(
+        CONFLICT_MARKERS.local,
+        ...mine,
+        CONFLICT_MARKERS.base,
+        ...baseLines.slice(start, end),
+        CONFLICT_MARKERS.separator,
+        ...theirs,
+        CONFLICT_MARKERS.hub,
+      );
+    }
+  }
+  output.push(...baseLines.slice(cursor));
+
+  return { text: output.join("\n"), conflicts };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Key-wise merge of JSON values. Objects are merged per key (local key order first, new hub keys
+ * appended); any other value is taken from whichever side changed it.
+ */
+export function mergeJson(base: unknown, local: unknown, hub: unknown, at = ""): JsonMergeResult {
+  if (sameJson(local, hub) || sameJson(hub, base)) return { value: local, conflicts: [] };
+  if (sameJson(local, base)) return { value: hub, conflicts: [] };
+  if (!isPlainObject(local) || !isPlainObject(hub)) {
+    return { value: local, conflicts: [at || "(root)"] };
+  }
+
+  const baseObject = isPlainObject(base) ? base : {};
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const keys = [...Object.keys(local), ...Object.keys(hub).filter((key) => !(key in local))];
+  for (const key of keys) {
+    const result = mergeJson(baseObject[key], local[key], hub[key], at ? `${at}.${key}` : key);
+    conflicts.push(...result.conflicts);
+    if (result.value !== undefined) merged[key] = result.value;
+  }
+  return { value: merged, conflicts };
+}
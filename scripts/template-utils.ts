@@ -159,6 +159,14 @@ function pickCloneTarget(rootDir: string): { target: string; url: string } {
   return { target: path.join(rootDir, "base-template"), url: DEFAULT_TEMPLATE_GIT_URL };
 }
 
+/**
+ * The first usable Hardhat template directory already present locally (same resolution order as
+ * `ensureHardhatTemplateDir`), without initializing submodules or cloning anything.
+ */
+export function findHardhatTemplateDir(rootDir: string): string | undefined {
+  return resolveTemplateCandidates(rootDir).find(looksLikeHardhatTemplate);
+}
+
 /**
  * Ensures a usable Hardhat template directory is present locally.
  *
@@ -177,11 +185,10 @@ function pickCloneTarget(rootDir: string): { target: string; url: string } {
  * - `git clone --depth 1` of the official template as a fallback
  */
 export function ensureHardhatTemplateDir(rootDir: string): string {
-  const candidates = resolveTemplateCandidates(rootDir);
-  for (const c of candidates) {
-    if (looksLikeHardhatTemplate(c)) return c;
-  }
+  const found = findHardhatTemplateDir(rootDir);
+  if (found) return found;
 
+  const candidates = resolveTemplateCandidates(rootDir);
   tryInitSubmodules(rootDir);
   for (const c of candidates) {
     if (looksLikeHardhatTemplate(c)) return c;
@@ -1,12 +1,12 @@
-#!/usr/bin/env tsx
 /**
- * @title Update Dependencies Script
+ * @title Update Dependencies
  * @description Updates @fhevm/solidity and other core dependencies across the hub and generated examples
- * @usage npx tsx scripts/update-deps.ts [--check | --apply]
+ * @usage npm run update-deps [-- --apply] (the `deps` command in `fhevm-hub.ts`)
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { formatPackageJson } from "./lib/json-format";
 
 interface PackageJson {
   name?: string;
@@ -14,9 +14,6 @@ interface PackageJson {
   devDependencies?: Record<string, string>;
 }
 
-const ROOT = process.cwd();
-const OUTPUT_DIR = path.join(ROOT, "output");
-
 // Core dependencies to track
 const TRACKED_DEPS = [
   "@fhevm/solidity",
@@ -35,90 +32,77 @@ function getVersion(pkg: PackageJson, dep: string): string | undefined {
   return pkg.dependencies?.[dep] || pkg.devDependencies?.[dep];
 }
 
-function findGeneratedRepos(): string[] {
-  if (!fs.existsSync(OUTPUT_DIR)) return [];
+function findGeneratedRepos(outputDir: string): string[] {
+  if (!fs.existsSync(outputDir)) return [];
   return fs
-    .readdirSync(OUTPUT_DIR, { withFileTypes: true })
+    .readdirSync(outputDir, { withFileTypes: true })
     .filter((d) => d.isDirectory())
-    .map((d) => path.join(OUTPUT_DIR, d.name))
+    .map((d) => path.join(outputDir, d.name))
     .filter((dir) => fs.existsSync(path.join(dir, "package.json")));
 }
 
-function checkDependencies(): void {
-  const rootPkg = readPackageJson(ROOT);
+export type DependencyIssue = {
+  dependency: string;
+  repoVersion: string;
+  hubVersion: string;
+};
+
+export type DependencyReport = {
+  hubVersions: Record<string, string>;
+  repos: Array<{ repo: string; issues: DependencyIssue[] }>;
+};
+
+function readRootPackageJson(rootDir: string): PackageJson {
+  const rootPkg = readPackageJson(rootDir);
   if (!rootPkg) {
-    console.error("Could not read root package.json");
-    process.exit(1);
+    throw new Error(`Could not read root package.json in ${rootDir}`);
   }
+  return rootPkg;
+}
+
+/**
+ * Compares tracked dependency versions of every repo under `<rootDir>/output` with the hub.
+ */
+export function checkDependencies(rootDir: string): DependencyReport {
+  const rootPkg = readRootPackageJson(rootDir);
 
-  console.log("Hub dependency versions:");
-  console.log("========================");
+  const hubVersions: Record<string, string> = {};
   for (const dep of TRACKED_DEPS) {
     const version = getVersion(rootPkg, dep);
     if (version) {
-      console.log(`  ${dep}: ${version}`);
+      hubVersions[dep] = version;
     }
   }
 
-  const repos = findGeneratedRepos();
-  if (repos.length === 0) {
-    console.log("\nNo generated repos found in output/");
-    return;
-  }
-
-  console.log(`\nChecking ${repos.length} generated repos...`);
-
-  let outdated = 0;
-  for (const repo of repos) {
+  const repos: DependencyReport["repos"] = [];
+  for (const repo of findGeneratedRepos(path.join(rootDir, "output"))) {
     const pkg = readPackageJson(repo);
     if (!pkg) continue;
 
-    const repoName = path.basename(repo);
-    const issues: string[] = [];
-
+    const issues: DependencyIssue[] = [];
     for (const dep of TRACKED_DEPS) {
       const hubVersion = getVersion(rootPkg, dep);
       const repoVersion = getVersion(pkg, dep);
 
       if (hubVersion && repoVersion && hubVersion !== repoVersion) {
-        issues.push(`${dep}: ${repoVersion} → ${hubVersion}`);
-      }
-    }
-
-    if (issues.length > 0) {
-      outdated++;
-      console.log(`\n${repoName}:`);
-      for (const issue of issues) {
-        console.log(`  ⚠ ${issue}`);
+        issues.push({ dependency: dep, repoVersion, hubVersion });
       }
     }
+    repos.push({ repo, issues });
   }
 
-  if (outdated === 0) {
-    console.log("\n✓ All generated repos are up to date");
-  } else {
-    console.log(`\n${outdated} repo(s) have outdated dependencies`);
-    console.log("Run with --apply to update, or regenerate repos with:");
-    console.log("  npm run create <name> ./output/<name>");
-  }
+  return { hubVersions, repos };
 }
 
-function applyUpdates(): void {
-  const rootPkg = readPackageJson(ROOT);
-  if (!rootPkg) {
-    console.error("Could not read root package.json");
-    process.exit(1);
-  }
-
-  const repos = findGeneratedRepos();
-  if (repos.length === 0) {
-    console.log("No generated repos found in output/");
-    return;
-  }
-
-  console.log(`Updating ${repos.length} generated repos...`);
+/**
+ * Rewrites tracked dependency versions in generated repos to match the hub.
+ * Returns the repos whose package.json changed.
+ */
+export function applyDependencyUpdates(rootDir: string): string[] {
+  const rootPkg = readRootPackageJson(rootDir);
+  const updatedRepos: string[] = [];
 
-  for (const repo of repos) {
+  for (const repo of findGeneratedRepos(path.join(rootDir, "output"))) {
     const pkgPath = path.join(repo, "package.json");
     const pkg = readPackageJson(repo);
     if (!pkg) continue;
@@ -143,29 +127,10 @@ function applyUpdates(): void {
     }
 
     if (updated) {
-      fs.writeFileSync(pkgPath, `${JSON.stringify(pkg, null, 2)}\n`);
-      console.log(`  ✓ Updated ${path.basename(repo)}`);
+      fs.writeFileSync(pkgPath, formatPackageJson(pkg));
+      updatedRepos.push(repo);
     }
   }
 
-  console.log("\nDone. Run 'npm install' in each repo to apply changes.");
-}
-
-// Main
-const args = process.argv.slice(2);
-const mode = args[0] || "--check";
-
-if (mode === "--help" || mode === "-h") {
-  console.log("Usage: npx tsx scripts/update-deps.ts [--check | --apply]");
-  console.log("");
-  console.log("Options:");
-  console.log("  --check   Show dependency version mismatches (default)");
-  console.log("  --apply   Update package.json in generated repos");
-  process.exit(0);
-}
-
-if (mode === "--apply") {
-  applyUpdates();
-} else {
-  checkDependencies();
+  return updatedRepos;
 }
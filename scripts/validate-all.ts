@@ -1,50 +1,303 @@
-import { spawnSync } from "node:child_process";
+/**
+ * @title Validate All
+ * @description Generates, installs and tests every example's standalone repo
+ * @usage npm run validate:all [-- --workers <n> --examples a,b --bail --offline] (the `validate-all`
+ * command in `fhevm-hub.ts`)
+ *
+ * Examples run concurrently on `workers` slots. They first run one at a time until an install
+ * succeeds: its `package-lock.json` seeds every later install and fills the npm cache, so the rest
+ * install with `--prefer-offline` from a resolved tree. A failing example does not stop the others (unless `bail`); each one gets
+ * its own log, and the run ends with `report.json` and a JUnit `report.xml` in the output dir.
+ */
+
+import { spawn } from "node:child_process";
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 
-const rootDir = path.resolve(__dirname, "..");
-const outputDir = path.join(rootDir, "test-output", "validate-all");
+import { createExample } from "./create-fhevm-example";
+import type { ExampleMeta, ExampleRegistry } from "./example-registry";
+import { consoleLogger, type Logger, silentLogger } from "./lib/logger";
 
-function run(command: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): void {
-  const mergedEnv = env ? { ...process.env, ...env } : process.env;
-  const result = spawnSync(command, args, { cwd, stdio: "inherit", env: mergedEnv });
-  if (result.error) {
-    throw new Error(result.error.message);
-  }
-  if (result.status !== 0) {
-    throw new Error(`${command} ${args.join(" ")} failed with exit code ${result.status}`);
-  }
-}
+export type ValidateAllOptions = {
+  /** Example slugs to validate (default: all). */
+  examples?: string[];
+  /** Examples validated at once (default: half the CPUs, at least 1). */
+  workers?: number;
+  /** Skip the examples not yet started after the first failure. */
+  bail?: boolean;
+  /** Install from the npm cache only (`npm install --offline`). */
+  offline?: boolean;
+  /** npm cache directory shared by every install (default: npm's own). */
+  npmCache?: string;
+  /** Per-step timeout in milliseconds (default: 15 minutes). */
+  timeoutMs?: number;
+  /** Repos, logs and reports (default: `test-output/validate-all`). */
+  outputDir?: string;
+};
+
+export type ExampleStatus = "passed" | "failed" | "skipped";
+
+export type StepResult = {
+  name: "create" | "install" | "test";
+  durationMs: number;
+  exitCode?: number;
+};
+
+export type ExampleResult = {
+  slug: string;
+  category: string;
+  status: ExampleStatus;
+  durationMs: number;
+  steps: StepResult[];
+  /** Log of the example's steps, relative to the output dir. */
+  log?: string;
+  /** Why the example failed or was skipped. */
+  message?: string;
+};
+
+export type ValidateAllReport = {
+  startedAt: string;
+  durationMs: number;
+  workers: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  examples: ExampleResult[];
+};
+
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+const SEED_LOCKFILE = path.join(".shared", "package-lock.json");
 
-function listExamples(): string[] {
-  const result = spawnSync("tsx", ["scripts/list-examples.ts", "--json"], {
-    cwd: rootDir,
-    encoding: "utf8",
+type StepCommand = {
+  name: StepResult["name"];
+  args: string[];
+};
+
+/** Runs `npm <args>` in `cwd`, appending its output to `log`. Resolves with the exit code. */
+function runNpm(
+  args: string[],
+  cwd: string,
+  log: fs.WriteStream,
+  env: NodeJS.ProcessEnv,
+  timeoutMs: number,
+): Promise<number> {
+  return new Promise((resolve) => {
+    log.write(`\n$ npm ${args.join(" ")}\n`);
+    const child = spawn("npm", args, { cwd, env: { ...process.env, ...env } });
+    const timer = setTimeout(() => {
+      log.write(`\nTimed out after ${Math.round(timeoutMs / 1000)}s\n`);
+      child.kill("SIGTERM");
+    }, timeoutMs);
+    child.stdout.pipe(log, { end: false });
+    child.stderr.pipe(log, { end: false });
+    child.on("error", (error) => {
+      log.write(`\n${error.message}\n`);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve(code ?? 1);
+    });
   });
-  if (result.error || result.status !== 0) {
-    throw new Error("Failed to list examples");
-  }
-  try {
-    const parsed = JSON.parse(result.stdout ?? "[]");
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // fallthrough
-  }
-  throw new Error("Examples output is not valid JSON. Use `npm run examples -- --json`.");
 }
 
-if (fs.existsSync(outputDir)) {
+function defaultWorkers(): number {
+  return Math.max(1, Math.floor(os.availableParallelism() / 2));
+}
+
+/**
+ * Validates the selected examples and writes `report.json` and `report.xml` next to their repos
+ * and logs. Never throws for a failing example: check `report.failed`.
+ */
+export async function validateAll(
+  rootDir: string,
+  registry: ExampleRegistry,
+  options: ValidateAllOptions = {},
+  logger: Logger = consoleLogger,
+): Promise<ValidateAllReport> {
+  const outputDir = options.outputDir ?? path.join(rootDir, "test-output", "validate-all");
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const selected = options.examples
+    ? options.examples.flatMap((slug) => registry.bySlug.get(slug) ?? [])
+    : registry.examples;
+  const workers = Math.max(1, Math.min(options.workers ?? defaultWorkers(), selected.length));
+  const env: NodeJS.ProcessEnv = { HUSKY: "0", FORCE_COLOR: "0" };
+  if (options.npmCache) env.npm_config_cache = path.resolve(options.npmCache);
+  const installArgs = [
+    "install",
+    "--no-audit",
+    "--no-fund",
+    options.offline ? "--offline" : "--prefer-offline",
+  ];
+
   fs.rmSync(outputDir, { recursive: true, force: true });
+  fs.mkdirSync(path.join(outputDir, "logs"), { recursive: true });
+  const seedLockfile = path.join(outputDir, SEED_LOCKFILE);
+  let seeded = false;
+  let bailed = false;
+
+  const validateExample = async (example: ExampleMeta): Promise<ExampleResult> => {
+    const base = { slug: example.slug, category: example.category };
+    if (bailed) {
+      return {
+        ...base,
+        status: "skipped",
+        durationMs: 0,
+        steps: [],
+        message: "an earlier example failed (--bail)",
+      };
+    }
+    if (!example.testFile) {
+      return { ...base, status: "skipped", durationMs: 0, steps: [], message: "no test file" };
+    }
+
+    const started = Date.now();
+    const repoDir = path.join(outputDir, example.slug);
+    const logPath = path.join("logs", `${example.slug}.log`);
+    const log = fs.createWriteStream(path.join(outputDir, logPath));
+    const steps: StepResult[] = [];
+    const finish = async (status: ExampleStatus, message?: string): Promise<ExampleResult> => {
+      await new Promise((resolve) => log.end(resolve));
+      return { ...base, status, durationMs: Date.now() - started, steps, log: logPath, message };
+    };
+
+    try {
+      createExample(rootDir, example, repoDir, silentLogger);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.write(`create failed: ${message}\n`);
+      steps.push({ name: "create", durationMs: Date.now() - started });
+      return finish("failed", `create failed: ${message}`);
+    }
+    steps.push({ name: "create", durationMs: Date.now() - started });
+
+    if (seeded) fs.copyFileSync(seedLockfile, path.join(repoDir, "package-lock.json"));
+    const commands: StepCommand[] = [
+      { name: "install", args: installArgs },
+      { name: "test", args: ["run", "test:mocked"] },
+    ];
+    for (const command of commands) {
+      const stepStarted = Date.now();
+      const exitCode = await runNpm(command.args, repoDir, log, env, timeoutMs);
+      steps.push({ name: command.name, durationMs: Date.now() - stepStarted, exitCode });
+      if (exitCode !== 0) {
+        return finish("failed", `npm ${command.args.join(" ")} failed with exit code ${exitCode}`);
+      }
+      if (command.name === "install" && !seeded) {
+        fs.mkdirSync(path.dirname(seedLockfile), { recursive: true });
+        fs.copyFileSync(path.join(repoDir, "package-lock.json"), seedLockfile);
+        seeded = true;
+      }
+    }
+    return finish("passed");
+  };
+
+  const startedAt = new Date();
+  const results: ExampleResult[] = new Array(selected.length);
+  let next = 0;
+  const record = (index: number, result: ExampleResult) => {
+    results[index] = result;
+    if (result.status === "failed" && options.bail) bailed = true;
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    const mark = { passed: "✔", failed: "✘", skipped: "-" }[result.status];
+    const detail = result.message ? `: ${result.message}` : "";
+    logger.info(`${mark} ${result.slug} (${seconds}s)${detail}`);
+  };
+  const worker = async () => {
+    while (next < selected.length) {
+      const index = next++;
+      record(index, await validateExample(selected[index]));
+    }
+  };
+
+  logger.info(`Validating ${selected.length} example(s) with ${workers} worker(s) in ${outputDir}`);
+  // Examples run alone until one installs, seeding the lockfile and the npm cache; an example
+  // failing before its install or skipped (no test) does not release the workers unseeded.
+  while (!seeded && next < selected.length) {
+    const index = next++;
+    record(index, await validateExample(selected[index]));
+  }
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  const count = (status: ExampleStatus) =>
+    results.filter((result) => result.status === status).length;
+  const report: ValidateAllReport = {
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    workers,
+    passed: count("passed"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    examples: results,
+  };
+  fs.writeFileSync(path.join(outputDir, "report.json"), `${JSON.stringify(report, null, 2)}\n`);
+  fs.writeFileSync(path.join(outputDir, "report.xml"), formatJUnitReport(report, outputDir));
+  return report;
+}
+
+/** False for characters XML 1.0 cannot hold, such as the escape bytes of colored npm and mocha output. */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
 }
-fs.mkdirSync(outputDir, { recursive: true });
 
-const examples = listExamples();
+function escapeXml(value: string): string {
+  return [...value]
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function seconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
 
-for (const example of examples) {
-  const dest = path.join(outputDir, example);
-  run("npm", ["run", "create", example, dest], rootDir);
-  run("npm", ["install"], dest, { HUSKY: "0" });
-  run("npm", ["run", "test:mocked"], dest, { HUSKY: "0" });
+/** Last lines of an example's log, for the JUnit failure body. */
+function logTail(outputDir: string, log: string | undefined, lines = 50): string {
+  if (!log || !fs.existsSync(path.join(outputDir, log))) return "";
+  return fs
+    .readFileSync(path.join(outputDir, log), "utf8")
+    .trimEnd()
+    .split("\n")
+    .slice(-lines)
+    .join("\n");
 }
 
-console.log(`Validated ${examples.length} examples.`);
+/**
+ * JUnit XML for `report`: one test suite per category, one test case per example. Failures carry
+ * the tail of the example's log (read from `outputDir`).
+ */
+export function formatJUnitReport(report: ValidateAllReport, outputDir: string): string {
+  const categories = new Map<string, ExampleResult[]>();
+  for (const result of report.examples) {
+    categories.set(result.category, [...(categories.get(result.category) ?? []), result]);
+  }
+
+  const suites = [...categories].map(([category, results]) => {
+    const cases = results.map((result) => {
+      const attributes = `classname="${escapeXml(category)}" name="${escapeXml(result.slug)}" time="${seconds(result.durationMs)}"`;
+      const message = escapeXml(result.message ?? "");
+      if (result.status === "passed") return `    <testcase ${attributes} />`;
+      if (result.status === "skipped") {
+        return `    <testcase ${attributes}>\n      <skipped message="${message}" />\n    </testcase>`;
+      }
+      const body = escapeXml(logTail(outputDir, result.log));
+      return `    <testcase ${attributes}>\n      <failure message="${message}">${body}</failure>\n    </testcase>`;
+    });
+    const count = (status: ExampleStatus) =>
+      results.filter((result) => result.status === status).length;
+    const time = seconds(results.reduce((total, result) => total + result.durationMs, 0));
+    return `  <testsuite name="${escapeXml(category)}" tests="${results.length}" failures="${count("failed")}" skipped="${count("skipped")}" time="${time}">
+${cases.join("\n")}
+  </testsuite>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="validate-all" tests="${report.examples.length}" failures="${report.failed}" skipped="${report.skipped}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">
+${suites.join("\n")}
+</testsuites>
+`;
+}
@@ -1,30 +1,98 @@
 import { spawnSync } from "node:child_process";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { loadExampleRegistry } from "./example-registry";
+import { createExample } from "./create-fhevm-example";
+import type { ExampleRegistry } from "./example-registry";
+import { generateCatalog } from "./generate-catalog";
+import { generateGitbook } from "./generate-gitbook";
+import { generateSummary } from "./generate-summary";
+import { consoleLogger, type Logger, silentLogger } from "./lib/logger";
 import { ensureHardhatTemplateDir } from "./template-utils";
 
+export type ValidateOptions = {
+  scratch?: boolean;
+  clean?: boolean;
+  noDocs?: boolean;
+  noGenerated?: boolean;
+  /** Example slugs to smoke-test as generated repos (default: the first two). */
+  examples?: string[];
+};
+
+export type ValidateStepResult = {
+  name: "template" | "install" | "verify" | "docgen" | "docs" | "create" | "test";
+  /** Example slug, for the generated-repo smoke-test steps. */
+  example?: string;
+  status: "passed" | "failed";
+  durationMs: number;
+  /** Command the step spawned; in-process steps have none. */
+  command?: string;
+  exitCode?: number;
+  /** File holding the command's stdout and stderr, relative to the hub root. */
+  log?: string;
+  /** Why the step failed. */
+  message?: string;
+  /** Last lines of the command's output, when it failed. */
+  outputTail?: string;
+};
+
+export type ValidateReport = {
+  ok: boolean;
+  durationMs: number;
+  /** Steps in the order they ran; the run stops at the first failure. */
+  steps: ValidateStepResult[];
+};
+
+const VALIDATE_DIR = path.join("test-output", "validate");
+const LOGS_DIR = path.join(VALIDATE_DIR, "logs");
+
+type StepOutcome = Partial<Pick<ValidateStepResult, "command" | "exitCode" | "log">> & {
+  /** Set when the step failed without throwing (a command's non-zero exit). */
+  message?: string;
+  outputTail?: string;
+};
+
 type RunOptions = {
+  rootDir: string;
   cwd: string;
   env?: NodeJS.ProcessEnv;
+  /** Log file, relative to the hub root. */
+  log: string;
 };
 
-function run(command: string, args: string[], opts: RunOptions): void {
-  const pretty = `$ ${command} ${args.join(" ")}`.trimEnd();
-  console.log(pretty);
+function tail(text: string, lines = 30): string {
+  return text.trimEnd().split("\n").slice(-lines).join("\n");
+}
 
-  const result = spawnSync(command, args, {
-    cwd: opts.cwd,
-    env: { ...process.env, ...(opts.env ?? {}) },
-    stdio: "inherit",
-  });
+/** Runs `command` with its stdout and stderr written to `opts.log`, never to the console. */
+function run(command: string, args: string[], opts: RunOptions): StepOutcome {
+  const pretty = `${command} ${args.join(" ")}`.trimEnd();
+  const logPath = path.join(opts.rootDir, opts.log);
+  const fd = fs.openSync(logPath, "w");
+  let result: ReturnType<typeof spawnSync>;
+  try {
+    fs.writeSync(fd, `$ ${pretty}\n`);
+    result = spawnSync(command, args, {
+      cwd: opts.cwd,
+      env: { ...process.env, ...(opts.env ?? {}) },
+      stdio: ["ignore", fd, fd],
+    });
+  } finally {
+    fs.closeSync(fd);
+  }
 
+  const outcome: StepOutcome = { command: pretty, log: opts.log };
   if (result.error) {
-    throw result.error;
+    return { ...outcome, message: `${pretty} failed: ${result.error.message}` };
   }
-  if (result.status !== 0) {
-    throw new Error(`${pretty} failed with exit code ${result.status}`);
+  outcome.exitCode = result.status ?? 1;
+  if (outcome.exitCode !== 0) {
+    return {
+      ...outcome,
+      message: `${pretty} failed with exit code ${outcome.exitCode}`,
+      outputTail: tail(fs.readFileSync(logPath, "utf8")),
+    };
   }
+  return outcome;
 }
 
 function removeIfExists(targetPath: string): void {
@@ -32,91 +100,139 @@ function removeIfExists(targetPath: string): void {
   fs.rmSync(targetPath, { recursive: true, force: true });
 }
 
-function parseArgs(argv: string[]) {
-  const args = new Set(argv);
-  const scratch = args.has("--scratch") || args.has("--from-scratch");
-  const clean = scratch || args.has("--clean");
-  const noDocs = args.has("--no-docs");
-  const noGenerated = args.has("--no-generated");
-
-  const examplesArgIndex = argv.indexOf("--examples");
-  const examplesCsv = examplesArgIndex !== -1 ? argv[examplesArgIndex + 1] : undefined;
-
-  const examples =
-    examplesCsv && !examplesCsv.startsWith("--")
-      ? examplesCsv
-          .split(",")
-          .map((s) => s.trim())
-          .filter(Boolean)
-      : undefined;
-
-  return { scratch, clean, noDocs, noGenerated, examples };
-}
-
-function main(): void {
-  const rootDir = path.resolve(__dirname, "..");
-  const { scratch, clean, noDocs, noGenerated, examples } = parseArgs(process.argv.slice(2));
-  const registry = loadExampleRegistry(rootDir);
-  const selectedExamples = examples ?? registry.examples.slice(0, 2).map((ex) => ex.slug);
-
-  console.log("fhEVM Examples: validate");
-  console.log(`- Mode: ${scratch ? "scratch" : clean ? "clean" : "incremental"}`);
-  console.log(`- Docs: ${noDocs ? "skip" : "generate"}`);
-  console.log(`- Generated repos: ${noGenerated ? "skip" : "smoke-test"}`);
-
-  // Ensure template exists (submodule init or clone fallback).
-  const templateDir = ensureHardhatTemplateDir(rootDir);
-  console.log(`- Template: ${templateDir}`);
+/**
+ * Runs the hub validation pipeline: verify, docs and generated-repo smoke tests. Child processes
+ * write to log files under `test-output/validate/logs/`; the docs and the example repos are
+ * generated in-process. Stops at the first failing step and reports it instead of throwing.
+ */
+export function validateHub(
+  rootDir: string,
+  registry: ExampleRegistry,
+  options: ValidateOptions = {},
+  logger: Logger = consoleLogger,
+): ValidateReport {
+  const started = Date.now();
+  const scratch = options.scratch ?? false;
+  const clean = scratch || (options.clean ?? false);
+  const noDocs = options.noDocs ?? false;
+  const noGenerated = options.noGenerated ?? false;
+  const selectedExamples = options.examples ?? registry.examples.slice(0, 2).map((ex) => ex.slug);
+
+  logger.info("fhEVM Examples: validate");
+  logger.info(`- Mode: ${scratch ? "scratch" : clean ? "clean" : "incremental"}`);
+  logger.info(`- Docs: ${noDocs ? "skip" : "generate"}`);
+  logger.info(`- Generated repos: ${noGenerated ? "skip" : "smoke-test"}`);
 
   // Optional cleanup. Avoid `git clean -fdX` because it would delete ignored `.env` files too.
   if (clean) {
-    console.log("Cleaning build artifacts...");
+    logger.info("Cleaning build artifacts...");
     for (const p of [
       "artifacts",
       "cache",
       "fhevmTemp",
       "typechain-types",
       path.join(".husky", "_"),
+      VALIDATE_DIR,
     ]) {
       removeIfExists(path.join(rootDir, p));
     }
-    removeIfExists(path.join(rootDir, "test-output", "validate"));
 
     if (scratch) {
       removeIfExists(path.join(rootDir, "node_modules"));
     }
   }
+  removeIfExists(path.join(rootDir, LOGS_DIR));
+  fs.mkdirSync(path.join(rootDir, LOGS_DIR), { recursive: true });
+
+  const steps: ValidateStepResult[] = [];
+  const report = (): ValidateReport => ({
+    ok: steps.every((step) => step.status === "passed"),
+    durationMs: Date.now() - started,
+    steps,
+  });
+  /** Runs one step and records it; false when it failed (thrown errors included). */
+  const step = (
+    name: ValidateStepResult["name"],
+    example: string | undefined,
+    action: (log: string) => StepOutcome,
+  ): boolean => {
+    const stepStarted = Date.now();
+    const label = example ? `${name} ${example}` : name;
+    const number = String(steps.length + 1).padStart(2, "0");
+    const log = path.join(LOGS_DIR, `${number}-${label.replace(" ", "-")}.log`);
+    let outcome: StepOutcome;
+    try {
+      outcome = action(log);
+    } catch (error) {
+      outcome = { message: error instanceof Error ? error.message : String(error) };
+    }
+    const result: ValidateStepResult = {
+      name,
+      ...(example ? { example } : {}),
+      status: outcome.message ? "failed" : "passed",
+      durationMs: Date.now() - stepStarted,
+      ...outcome,
+    };
+    steps.push(result);
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    const detail = result.message ? `: ${result.message}` : "";
+    logger.info(`${result.message ? "✘" : "✔"} ${label} (${seconds}s)${detail}`);
+    return !result.message;
+  };
+
+  const npm =
+    (args: string[], cwd = rootDir, env?: NodeJS.ProcessEnv) =>
+    (log: string) =>
+      run("npm", args, { rootDir, cwd, env, log });
+
+  // Ensure template exists (submodule init or clone fallback).
+  const templateFound = step("template", undefined, () => {
+    logger.info(`- Template: ${ensureHardhatTemplateDir(rootDir)}`);
+    return {};
+  });
+  if (!templateFound) return report();
 
   // Install deps if needed.
   if (scratch || !fs.existsSync(path.join(rootDir, "node_modules"))) {
-    run("npm", ["install"], { cwd: rootDir });
+    if (!step("install", undefined, npm(["install"]))) return report();
   }
 
   // Core validation (lint + typecheck + compile + tests).
-  run("npm", ["run", "verify"], { cwd: rootDir });
+  if (!step("verify", undefined, npm(["run", "verify"]))) return report();
 
-  // Docs generation (Hardhat docgen + SUMMARY.md).
+  // Docs generation: Hardhat docgen, then the GitBook pages, SUMMARY.md and catalog.json.
   if (!noDocs) {
-    run("npm", ["run", "docs"], { cwd: rootDir });
+    const documented =
+      step("docgen", undefined, npm(["run", "docgen"])) &&
+      step("docs", undefined, () => {
+        generateGitbook(rootDir, registry);
+        generateSummary(path.join(rootDir, "docs"));
+        generateCatalog(rootDir, registry);
+        return {};
+      });
+    if (!documented) return report();
   }
 
   // Generator smoke test: create a couple standalone repos and run their tests.
   if (!noGenerated) {
-    const validateRoot = path.join(rootDir, "test-output", "validate");
-    removeIfExists(validateRoot);
-    fs.mkdirSync(validateRoot, { recursive: true });
-
-    for (const exampleName of selectedExamples) {
-      const outDir = path.join(validateRoot, exampleName);
-      run("npm", ["run", "create", exampleName, outDir], { cwd: rootDir });
-
-      // Generated repos are not git repos; disable husky hooks during install.
-      run("npm", ["install"], { cwd: outDir, env: { HUSKY: "0" } });
-      run("npm", ["run", "test:mocked"], { cwd: outDir, env: { HUSKY: "0" } });
+    // Generated repos are not git repos; disable husky hooks during install.
+    const env = { HUSKY: "0" };
+    for (const slug of selectedExamples) {
+      const outDir = path.join(rootDir, VALIDATE_DIR, slug);
+      const passed =
+        step("create", slug, () => {
+          const example = registry.bySlug.get(slug);
+          if (!example) return { message: `Unknown example: ${slug}` };
+          removeIfExists(outDir);
+          createExample(rootDir, example, outDir, silentLogger);
+          return {};
+        }) &&
+        step("install", slug, npm(["install"], outDir, env)) &&
+        step("test", slug, npm(["run", "test:mocked"], outDir, env));
+      if (!passed) return report();
     }
   }
 
-  console.log("Validation complete ✅");
+  logger.info("Validation complete ✅");
+  return report();
 }
-
-main();
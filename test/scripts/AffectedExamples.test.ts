@@ -0,0 +1,59 @@
+/**
+ * @title Affected Examples Tests
+ * @notice Tests for mapping changed files to the examples they affect (`--since`)
+ * @dev Runs against the hub's own registry; git is only used by `changedFilesSince`
+ */
+
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { loadExampleRegistry } from "../../scripts/example-registry";
+import { changedFilesSince, findAffectedExamples } from "../../scripts/lib/affected-examples";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+describe("affected examples", function () {
+  this.timeout(60_000);
+
+  const registry = loadExampleRegistry(rootDir, { cache: false });
+  const affected = (...files: string[]) =>
+    findAffectedExamples(rootDir, registry, files).examples.map((example) => example.slug);
+
+  it("selects every example using a changed helper", () => {
+    const result = findAffectedExamples(rootDir, registry, [
+      "contracts/auctions/helpers/AuctionPaymentToken.sol",
+    ]);
+    expect(result.examples.map((example) => example.slug)).to.have.members([
+      "blind-auction",
+      "dutch-auction",
+    ]);
+    expect(result.reasons["blind-auction"]).to.deep.equal([
+      "contracts/auctions/helpers/AuctionPaymentToken.sol",
+    ]);
+  });
+
+  it("selects the example of a changed contract or test", () => {
+    expect(affected("contracts/basic/FHECounter.sol")).to.deep.equal(["fhe-counter"]);
+    expect(affected("test/basic/FHECounter.test.ts")).to.deep.equal(["fhe-counter"]);
+  });
+
+  it("selects every example when generators or the template change", () => {
+    const result = findAffectedExamples(rootDir, registry, [
+      "docs/README.md",
+      "scripts/lib/generators.ts",
+    ]);
+    expect(result.global).to.equal("scripts/lib/generators.ts");
+    expect(result.examples).to.have.length(registry.examples.length);
+    expect(affected("base-template")).to.have.length(registry.examples.length);
+  });
+
+  it("selects nothing for docs and tooling tests", () => {
+    expect(affected("docs/basic/FHECounter.md", "test/scripts/FilePlan.test.ts")).to.deep.equal([]);
+  });
+
+  it("rejects unknown refs", () => {
+    expect(() => changedFilesSince(rootDir, "no-such-ref")).to.throw(
+      "Unknown git ref: no-such-ref",
+    );
+  });
+});
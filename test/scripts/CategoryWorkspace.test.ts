@@ -0,0 +1,90 @@
+/**
+ * @title Category Workspace Tests
+ * @notice Tests for combining example repo plans into an npm workspaces monorepo
+ * @dev Pure in-memory file plans; no file system, network or deployment involved
+ */
+
+import { expect } from "chai";
+
+import { planCategoryWorkspace, type WorkspaceMember } from "../../scripts/lib/category-workspace";
+import { createFilePlan, planGenerated } from "../../scripts/lib/file-plan";
+import { MANIFEST_FILE } from "../../scripts/lib/generation-manifest";
+
+const TOKEN = `pragma solidity ^0.8.27;
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+contract Token {}
+`;
+
+function member(slug: string, files: Record<string, string>): WorkspaceMember {
+  const plan = createFilePlan();
+  const pkg = {
+    name: `fhevm-example-${slug}`,
+    scripts: { test: "hardhat test", lint: "biome check .", prepare: "husky" },
+    dependencies: { "@fhevm/solidity": "^0.9.0" },
+    devDependencies: { hardhat: "^2.26.0", [`tool-${slug}`]: "1.0.0" },
+  };
+  planGenerated(plan, "package.json", JSON.stringify(pkg));
+  planGenerated(plan, "hardhat.config.ts", "export default {};");
+  planGenerated(plan, "biome.json", "{}");
+  planGenerated(plan, MANIFEST_FILE, "{}");
+  for (const [file, content] of Object.entries(files)) planGenerated(plan, file, content);
+  return { slug, plan };
+}
+
+const text = (plan: ReturnType<typeof planCategoryWorkspace>, file: string) =>
+  plan.get(file)?.content.toString();
+
+describe("category-workspace", () => {
+  it("hoists dev dependencies and identical configs to the root", () => {
+    const plan = planCategoryWorkspace("auctions", [member("a", {}), member("b", {})]);
+
+    const root = JSON.parse(text(plan, "package.json") ?? "{}");
+    expect(root.private).to.equal(true);
+    expect(root.workspaces).to.deep.equal(["auctions/*"]);
+    expect(root.scripts.test).to.equal("npm run test --workspaces --if-present");
+    expect(root.devDependencies).to.have.keys("hardhat", "tool-a", "tool-b");
+
+    const example = JSON.parse(text(plan, "auctions/a/package.json") ?? "{}");
+    expect(example).to.not.have.property("devDependencies");
+    expect(example.scripts).to.deep.equal({ test: "hardhat test" });
+
+    expect(plan.has("biome.json")).to.equal(true);
+    expect(plan.has("auctions/a/biome.json")).to.equal(false);
+    expect(plan.has(`auctions/a/${MANIFEST_FILE}`)).to.equal(false);
+    expect(text(plan, "hardhat.config.shared.ts")).to.equal("export default {};");
+    expect(text(plan, "auctions/a/hardhat.config.ts")).to.contain(
+      'import config from "../../hardhat.config.shared";',
+    );
+  });
+
+  it("moves helpers shared by several examples into the shared package", () => {
+    const auction = `import {Token} from "./helpers/Token.sol";\nimport "./Local.sol";\n`;
+    const plan = planCategoryWorkspace("auctions", [
+      member("a", { "contracts/A.sol": auction, "contracts/helpers/Token.sol": TOKEN }),
+      member("b", {
+        "contracts/helpers/Token.sol": TOKEN,
+        "contracts/mocks/Only.sol": "contract Only {}",
+      }),
+    ]);
+
+    expect(text(plan, "shared/contracts/helpers/Token.sol")).to.equal(TOKEN);
+    expect(JSON.parse(text(plan, "shared/package.json") ?? "{}").name).to.equal(
+      "@fhevm-category-auctions/shared",
+    );
+    expect(plan.has("auctions/a/contracts/helpers/Token.sol")).to.equal(false);
+    expect(plan.has("auctions/b/contracts/mocks/Only.sol")).to.equal(true);
+
+    expect(text(plan, "auctions/a/contracts/A.sol")).to.equal(
+      `import {Token} from "@fhevm-category-auctions/shared/contracts/helpers/Token.sol";\nimport "./Local.sol";\n`,
+    );
+    expect(text(plan, "auctions/b/contracts/SharedContracts.sol")).to.contain(
+      'import "@fhevm-category-auctions/shared/contracts/helpers/Token.sol";',
+    );
+    const example = JSON.parse(text(plan, "auctions/b/package.json") ?? "{}");
+    expect(example.dependencies).to.include({ "@fhevm-category-auctions/shared": "1.0.0" });
+    expect(JSON.parse(text(plan, "package.json") ?? "{}").workspaces).to.deep.equal([
+      "shared",
+      "auctions/*",
+    ]);
+  });
+});
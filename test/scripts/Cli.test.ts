@@ -0,0 +1,151 @@
+/**
+ * @title CLI Tests
+ * @notice Tests for the `fhevm-hub` argv parser and command dispatch (`scripts/lib/cli.ts`)
+ * @dev Runs throwaway commands through `runCli` with console output captured; no hub access
+ */
+
+import { expect } from "chai";
+
+import {
+  CliError,
+  type CommandDefinition,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  parseArgv,
+  runCli,
+  UsageError,
+} from "../../scripts/lib/cli";
+
+const OPTIONS = [
+  { name: "force", alias: "f", description: "Flag" },
+  { name: "name", valueName: "name", description: "Value" },
+];
+
+type Captured = { exitCode: number; stdout: string[]; stderr: string[] };
+
+/** Runs `argv` against `commands`, capturing `console.log`/`console.warn`/`console.error`. */
+async function run(argv: string[], commands: CommandDefinition[]): Promise<Captured> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const { log, warn, error } = console;
+  console.log = (message: unknown) => stdout.push(String(message));
+  console.warn = (message: unknown) => stderr.push(String(message));
+  console.error = (message: unknown) => stderr.push(String(message));
+  try {
+    const exitCode = await runCli(argv, { program: "hub", commands, defaultRootDir: "/hub" });
+    return { exitCode, stdout, stderr };
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+describe("cli", () => {
+  describe("parseArgv", () => {
+    it("reads flags, aliases and values in both forms", () => {
+      expect(parseArgv(["a", "--force", "--name", "x", "b"], OPTIONS)).to.deep.equal({
+        args: ["a", "b"],
+        options: { force: true, name: "x" },
+      });
+      expect(parseArgv(["-f", "--name=y"], OPTIONS).options).to.deep.equal({
+        force: true,
+        name: "y",
+      });
+    });
+
+    it("treats everything after -- as arguments", () => {
+      expect(parseArgv(["--", "--force", "-x"], OPTIONS)).to.deep.equal({
+        args: ["--force", "-x"],
+        options: {},
+      });
+    });
+
+    it("rejects unknown options, missing values and values on flags", () => {
+      expect(() => parseArgv(["--nope"], OPTIONS)).to.throw(UsageError, "Unknown option: --nope");
+      expect(() => parseArgv(["--name"], OPTIONS)).to.throw(UsageError, "requires a <name> value");
+      expect(() => parseArgv(["--name", "--force"], OPTIONS)).to.throw(UsageError);
+      expect(() => parseArgv(["--force=1"], OPTIONS)).to.throw(UsageError, "does not take a value");
+    });
+  });
+
+  describe("runCli", () => {
+    const echo: CommandDefinition = {
+      name: "echo",
+      summary: "Echo the arguments",
+      arguments: [{ name: "words", description: "Words", required: true, variadic: true }],
+      options: OPTIONS,
+      run(ctx) {
+        ctx.logger.info("progress");
+        ctx.logger.warn("careful");
+        ctx.print(ctx.args.join(" "));
+        return { result: { args: ctx.args, rootDir: ctx.rootDir } };
+      },
+    };
+    const fail: CommandDefinition = {
+      name: "fail",
+      summary: "Fail",
+      run(ctx) {
+        if (ctx.options.usage) throw new UsageError("bad usage");
+        if (ctx.options.crash) throw new Error("boom");
+        throw new CliError("failed");
+      },
+      options: [
+        { name: "usage", description: "Throw a UsageError" },
+        { name: "crash", description: "Throw a plain Error" },
+      ],
+    };
+    const exit: CommandDefinition = {
+      name: "exit",
+      summary: "Exit with 1",
+      run: async () => ({ exitCode: EXIT_FAILURE }),
+    };
+    const commands = [echo, fail, exit];
+
+    it("prints output, logs and warnings in text mode", async () => {
+      const { exitCode, stdout, stderr } = await run(["echo", "a", "b"], commands);
+      expect(exitCode).to.equal(EXIT_OK);
+      expect(stdout).to.deep.equal(["progress", "a b"]);
+      expect(stderr).to.deep.equal(["careful"]);
+    });
+
+    it("prints only the JSON result on stdout with --json", async () => {
+      const { stdout, stderr } = await run(["echo", "a", "--json", "--cwd", "/other"], commands);
+      expect(stdout).to.have.length(1);
+      expect(JSON.parse(stdout[0])).to.deep.equal({ args: ["a"], rootDir: "/other" });
+      expect(stderr).to.deep.equal(["careful"]);
+    });
+
+    it("silences progress logs with --quiet but keeps primary output", async () => {
+      const { stdout } = await run(["echo", "a", "-q"], commands);
+      expect(stdout).to.deep.equal(["a"]);
+    });
+
+    it("maps usage problems to exit code 2", async () => {
+      expect((await run([], commands)).exitCode).to.equal(EXIT_USAGE);
+      expect((await run(["nope"], commands)).exitCode).to.equal(EXIT_USAGE);
+      expect((await run(["help", "nope"], commands)).exitCode).to.equal(EXIT_USAGE);
+      expect((await run(["echo"], commands)).stderr[0]).to.match(/^Missing argument <words>/);
+      expect((await run(["echo", "a", "--bad"], commands)).exitCode).to.equal(EXIT_USAGE);
+      expect((await run(["fail", "--usage"], commands)).exitCode).to.equal(EXIT_USAGE);
+      expect((await run(["exit", "extra"], commands)).stderr).to.deep.equal([
+        "Unexpected argument: extra",
+      ]);
+    });
+
+    it("maps failures to exit code 1 and reports the message", async () => {
+      expect(await run(["fail"], commands)).to.deep.include({
+        exitCode: EXIT_FAILURE,
+        stderr: ["failed"],
+      });
+      expect((await run(["fail", "--crash"], commands)).stderr).to.deep.equal(["boom"]);
+      expect((await run(["exit"], commands)).exitCode).to.equal(EXIT_FAILURE);
+    });
+
+    it("prints help without running the command", async () => {
+      const { exitCode, stdout } = await run(["echo", "--help"], commands);
+      expect(exitCode).to.equal(EXIT_OK);
+      expect(stdout[0]).to.match(/^Usage\n {2}hub echo <words\.\.\.> \[options\]/);
+      expect((await run(["help"], commands)).stdout[0]).to.include("echo <words...>");
+    });
+  });
+});
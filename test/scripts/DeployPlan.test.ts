@@ -0,0 +1,374 @@
+/**
+ * @title Deploy Plan Tests
+ * @notice Tests for checking @custom:deploy-plan steps against constructor ABIs
+ * @dev Pure validation tests; no network or deployment involved
+ */
+
+import { expect } from "chai";
+
+import {
+  type DeployStep,
+  generateDeployScriptForExample,
+  mergeDeployPlans,
+  toVarName,
+} from "../../scripts/deploy-script-generators";
+import {
+  type DeployTarget,
+  normalizeDeployAction,
+  normalizeDeployArg,
+  validateDeployPlan,
+} from "../../scripts/lib/deploy-plan";
+
+const noFunctions = { functions: [], complete: true };
+
+const targets: Record<string, DeployTarget> = {
+  Registry: {
+    kind: "contract",
+    constructorInputs: [],
+    functions: [
+      {
+        name: "setKyc",
+        visibility: "external",
+        inputs: [
+          { name: "account", type: "address" },
+          { name: "approved", type: "bool" },
+        ],
+      },
+    ],
+    complete: true,
+    source: "source",
+  },
+  Token: {
+    kind: "contract",
+    constructorInputs: [
+      { name: "owner", type: "address" },
+      { name: "name", type: "string" },
+      { name: "cap", type: "uint64" },
+    ],
+    functions: [],
+    complete: false,
+    source: "artifact",
+  },
+  Consumer: {
+    kind: "contract",
+    constructorInputs: [{ name: "registry", type: "IRegistry" }],
+    ...noFunctions,
+    source: "source",
+  },
+  Vault: {
+    kind: "contract",
+    constructorInputs: [
+      { name: "cap", type: "externalEuint64" },
+      { name: "inputProof", type: "bytes" },
+    ],
+    functions: [
+      {
+        name: "setWord",
+        visibility: "external",
+        inputs: [
+          { name: "letters", type: "externalEuint8[5]" },
+          { name: "inputProof", type: "bytes" },
+        ],
+      },
+    ],
+    complete: true,
+    source: "source",
+  },
+  IRegistry: { kind: "interface", constructorInputs: [], ...noFunctions, source: "source" },
+};
+
+const resolve = (name: string) => targets[name];
+
+describe("DeployPlan", () => {
+  it("accepts a plan whose args match each constructor", () => {
+    const plan: DeployStep[] = [
+      { contract: "Registry", saveAs: "registry" },
+      {
+        contract: "Token",
+        args: [{ signer: "deployer" }, { literal: "Token" }, { value: 1000 }],
+      },
+      { contract: "Consumer", args: [{ ref: "registry" }] },
+      { contract: "Consumer", args: [{ ref: "Registry" }] },
+    ];
+
+    expect(validateDeployPlan(plan, resolve)).to.deep.equal([]);
+  });
+
+  it("reports arg count mismatches with the constructor signature", () => {
+    const problems = validateDeployPlan(
+      [{ contract: "Token", args: [{ signer: "deployer" }] }],
+      resolve,
+    );
+
+    expect(problems).to.deep.equal([
+      "step 1 passes 1 arg(s) to Token, constructor takes 3 (address owner, string name, uint64 cap)",
+    ]);
+  });
+
+  it("reports args whose kind does not fit the ABI type", () => {
+    const problems = validateDeployPlan(
+      [
+        { contract: "Registry", saveAs: "registry" },
+        {
+          contract: "Token",
+          args: [{ literal: "alice" }, { ref: "registry" }, { value: -1 }],
+        },
+      ],
+      resolve,
+    );
+
+    expect(problems).to.deep.equal([
+      'step 2 arg 1 (owner) expects address (an address), got string "alice"',
+      'step 2 arg 2 (name) expects string, got the address of "@registry"',
+      "step 2 arg 3 (cap) expects uint64, got negative -1",
+    ]);
+  });
+
+  it("requires refs to point at an earlier step", () => {
+    const problems = validateDeployPlan(
+      [
+        { contract: "Consumer", args: [{ ref: "registry" }] },
+        { contract: "Registry", saveAs: "registry" },
+      ],
+      resolve,
+    );
+
+    expect(problems).to.deep.equal([
+      'step 1 arg 1 (registry) references "@registry", which no earlier step saves',
+    ]);
+  });
+
+  it("flags unknown and non-deployable contracts", () => {
+    const problems = validateDeployPlan(
+      [{ contract: "Missing" }, { contract: "IRegistry", args: [{ ref: "nowhere" }] }],
+      resolve,
+    );
+
+    expect(problems).to.deep.equal([
+      'step 1 deploys unknown contract "Missing"',
+      "step 2 deploys IRegistry, which is an interface",
+      'step 2 references "@nowhere", which no earlier step saves',
+    ]);
+  });
+
+  it("leaves #expressions unchecked", () => {
+    const plan: DeployStep[] = [
+      { contract: "Token", args: [{ expr: "owner" }, { expr: "name" }, { expr: "cap" }] },
+    ];
+    expect(validateDeployPlan(plan, resolve)).to.deep.equal([]);
+  });
+
+  it("checks afterDeploy actions against the target's functions", () => {
+    const afterDeploy = [
+      { call: "registry.setKyc", args: ["$deployer", true] },
+      { call: "registry.setKyc", args: ["$deployer"] },
+      { call: "registry.revoke", args: ["$deployer"] },
+      { call: "registry.setKyc", args: ["$deployer", 1] },
+      { mint: "token", to: "@registry", amount: 5 },
+      { log: "Registry", value: "@later" },
+    ].map((entry) => normalizeDeployAction(entry));
+
+    const problems = validateDeployPlan(
+      [{ contract: "Registry", saveAs: "registry", afterDeploy }],
+      resolve,
+    );
+
+    expect(problems).to.deep.equal([
+      "step 1 afterDeploy 2 passes 1 arg(s) to Registry.setKyc, which takes (address account, bool approved)",
+      "step 1 afterDeploy 3 calls Registry.revoke, which does not exist",
+      "step 1 afterDeploy 4 arg 2 (approved) expects bool, got number 1",
+      'step 1 afterDeploy 5 targets "token", which no step saves',
+      'step 1 afterDeploy 6 references "@later", which no earlier step saves',
+    ]);
+  });
+
+  it("assumes unknown methods exist on targets with an incomplete ABI", () => {
+    const afterDeploy = [normalizeDeployAction({ call: "token.approveKyc", args: ["$deployer"] })];
+    const problems = validateDeployPlan(
+      [
+        {
+          contract: "Token",
+          args: [{ signer: "deployer" }, { literal: "Token" }, { value: 1 }],
+          afterDeploy,
+        },
+      ],
+      resolve,
+    );
+    expect(problems).to.deep.equal([]);
+  });
+
+  describe("encrypted args", () => {
+    const cap = normalizeDeployArg({ encrypted: { type: "euint64", value: 1000 } });
+    const word = (letters: number[]) =>
+      normalizeDeployArg({ encrypted: { type: "euint8", value: letters } });
+
+    it("counts the shared inputProof and matches handle types", () => {
+      const plan: DeployStep[] = [
+        {
+          contract: "Vault",
+          args: [cap],
+          afterDeploy: [
+            normalizeDeployAction({ call: "vault.setWord", args: [word([1, 2, 3, 4, 5])] }),
+          ],
+        },
+      ];
+      expect(validateDeployPlan(plan, resolve)).to.deep.equal([]);
+    });
+
+    it("reports wrong encrypted types, array sizes and clear values", () => {
+      const problems = validateDeployPlan(
+        [
+          {
+            contract: "Vault",
+            args: [normalizeDeployArg({ encrypted: { type: "ebool", value: true } })],
+            afterDeploy: [
+              normalizeDeployAction({ call: "vault.setWord", args: [word([1, 2])] }),
+              normalizeDeployAction({ call: "vault.setWord", args: [word([1, 2, 3, 4, -5])] }),
+              normalizeDeployAction({ call: "vault.setWord", args: [cap, "0x"] }),
+            ],
+          },
+        ],
+        resolve,
+      );
+
+      expect(problems).to.deep.equal([
+        "step 1 arg 1 (cap) expects externalEuint64, got encrypted ebool",
+        "step 1 afterDeploy 1 arg 1 (letters) expects externalEuint8[5], got 2 encrypted euint8 value(s)",
+        "step 1 afterDeploy 2 arg 1 (letters) encrypted value expects uint8, got negative -5",
+        "step 1 afterDeploy 3 passes 3 arg(s) (incl. inputProof) to Vault.setWord, which takes (externalEuint8[5] letters, bytes inputProof)",
+      ]);
+    });
+
+    it("renders one encrypted input per call, bound to the target contract", () => {
+      const script = generateDeployScriptForExample({
+        contract: "Vault.sol",
+        deployPlan: [
+          {
+            contract: "Vault",
+            args: [cap],
+            afterDeploy: [normalizeDeployAction({ call: "vault.setWord", args: [word([1, 2])] })],
+          },
+        ],
+      });
+
+      expect(script).to.contain("await hre.fhevm.initializeCLIApi();");
+      expect(script).to.contain("const vaultAddress = hre.ethers.getCreateAddress({");
+      expect(script).to.contain(".createEncryptedInput(vaultAddress, deployer.address)");
+      expect(script).to.contain("return [encryptedInput1.handles[0], encryptedInput1.inputProof];");
+      expect(script).to.contain('key: [{ encrypted: "euint64", value: 1000 }],');
+      expect(script).to.contain(
+        [
+          "      await (",
+          "        await vault.setWord(",
+          "          [encryptedInput2.handles[0], encryptedInput2.handles[1]],",
+          "          encryptedInput2.inputProof,",
+          "        )",
+          "      ).wait();",
+        ].join("\n"),
+      );
+    });
+  });
+
+  it("deploys each step through the manifest, keyed by declared args", () => {
+    const script = generateDeployScriptForExample({
+      contract: "Consumer.sol",
+      deployPlan: [
+        {
+          contract: "Registry",
+          saveAs: "registry",
+          afterDeploy: [
+            normalizeDeployAction({ call: "registry.setKyc", args: ["$deployer", true] }),
+          ],
+        },
+        { contract: "Consumer", args: [{ ref: "registry" }, { expr: "Date.now()" }] },
+      ],
+    });
+
+    expect(script).to.contain("reset: Boolean(process.env.DEPLOY_RESET),");
+    expect(script).to.contain(
+      [
+        "  const registry = await deployStep(manifest, {",
+        '    name: "registry",',
+        '    contract: "Registry",',
+        "    key: [],",
+        "    args: async () => [],",
+        "    setup: async (registry) => {",
+        "      await (await registry.setKyc(deployer.address, true)).wait();",
+        "    },",
+        "  });",
+      ].join("\n"),
+    );
+    expect(script).to.contain(
+      'key: [await registry.getAddress(), "#Date.now()"],\n    args: async () => [await registry.getAddress(), Date.now()],',
+    );
+  });
+
+  it("binds only the steps other steps reference, and the deployer only when used", () => {
+    const script = generateDeployScriptForExample({
+      contract: "Consumer.sol",
+      deployPlan: [
+        { contract: "Registry", saveAs: "registry" },
+        {
+          contract: "Consumer",
+          args: [{ ref: "registry" }],
+          afterDeploy: [normalizeDeployAction({ call: "registry.allow", args: ["@Consumer"] })],
+        },
+      ],
+    });
+
+    expect(script).to.contain("  const registry = await deployStep(manifest, {");
+    expect(script).to.contain('  await deployStep(manifest, {\n    name: "consumer",');
+    expect(script).to.contain("    setup: async (consumer) => {");
+    expect(script).not.to.contain("deployer");
+  });
+
+  it("wraps lists that do not fit the generated repo's line width", () => {
+    const names = ["Alpha", "Beta", "Gamma", "Delta"];
+    const script = generateDeployScriptForExample({
+      contract: "Consumer.sol",
+      deployPlan: [
+        ...names.map((contract) => ({ contract })),
+        { contract: "Consumer", args: names.map((name) => ({ ref: name })) },
+      ],
+    });
+
+    const refs = names.map((name) => `      await ${toVarName(name)}.getAddress(),`);
+    expect(script).to.contain(["    key: [", ...refs, "    ],"].join("\n"));
+    expect(script).to.contain(["    args: async () => [", ...refs, "    ],"].join("\n"));
+    expect(script.split("\n").every((line) => line.length <= 100)).to.equal(true);
+  });
+
+  it("merges plans, renaming variables that clash with an earlier plan", () => {
+    const auction = (contract: string): DeployStep[] => [
+      { contract: "PrizeItem" },
+      {
+        contract,
+        saveAs: "auction",
+        args: [{ ref: "PrizeItem" }],
+        afterDeploy: [
+          { kind: "call", target: "prizeItem", method: "approve", args: [{ ref: "auction" }] },
+        ],
+      },
+    ];
+    const merged = mergeDeployPlans([
+      { id: "blind-auction", steps: auction("BlindAuction") },
+      { id: "dutch-auction", steps: auction("DutchAuction") },
+    ]);
+
+    expect(merged.slice(0, 2)).to.deep.equal(auction("BlindAuction"));
+    expect(merged[2]).to.deep.equal({ contract: "PrizeItem", saveAs: "dutchAuctionPrizeItem" });
+    expect(merged[3]).to.deep.equal({
+      contract: "DutchAuction",
+      saveAs: "dutchAuctionAuction",
+      args: [{ ref: "dutchAuctionPrizeItem" }],
+      afterDeploy: [
+        {
+          kind: "call",
+          target: "dutchAuctionPrizeItem",
+          method: "approve",
+          args: [{ ref: "dutchAuctionAuction" }],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @title Deploy Plan Runner Tests
+ * @notice Tests for executing deploy plans in-process (`deploy-plan run`)
+ * @dev Drives the runner against a fake Hardhat runtime that records deployments and calls
+ */
+
+import { expect } from "chai";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { runDeployPlan } from "../../scripts/deploy-plan-runner";
+import type { ExampleMeta } from "../../scripts/example-registry";
+import { normalizeDeployStep } from "../../scripts/lib/deploy-plan";
+import { silentLogger } from "../../scripts/lib/logger";
+
+const DEPLOYER = "0x00000000000000000000000000000000000000d0";
+
+type Call = { contract: string; method: string; args: unknown[] };
+
+/** A Hardhat runtime whose factories deploy fake contracts at sequential addresses. */
+function fakeHre(options: { failOn?: string } = {}) {
+  const deployments: Call[] = [];
+  const calls: Call[] = [];
+  let nonce = 0;
+  const deployer = { address: DEPLOYER, getNonce: async () => nonce };
+
+  const deploy = (contract: string, args: unknown[]) => {
+    if (contract === options.failOn) throw new Error("execution reverted");
+    deployments.push({ contract, method: "constructor", args });
+    const address = `0x${String(++nonce).padStart(40, "0")}`;
+    const record =
+      (method: string) =>
+      async (...callArgs: unknown[]) => {
+        calls.push({ contract, method, args: callArgs });
+        return { wait: async () => {} };
+      };
+    return {
+      waitForDeployment: async () => {},
+      getAddress: async () => address,
+      setAuthorizedCaller: record("setAuthorizedCaller"),
+      grantRole: record("grantRole"),
+      MINTER_ROLE: async () => "0xminter",
+    };
+  };
+
+  const hre = {
+    run: async () => {},
+    fhevm: { initializeCLIApi: async () => {} },
+    ethers: {
+      getSigners: async () => [deployer],
+      getCreateAddress: () => "0xpredicted",
+      getContractFactory: async (contract: string) => ({
+        deploy: async (...args: unknown[]) => deploy(contract, args),
+      }),
+    },
+  } as unknown as HardhatRuntimeEnvironment;
+  return { hre, deployments, calls };
+}
+
+function exampleWith(deployPlan?: unknown[]): ExampleMeta {
+  return {
+    slug: "token",
+    contractFile: "/hub/contracts/basic/Token.sol",
+    deployPlan: deployPlan?.map(normalizeDeployStep),
+  } as ExampleMeta;
+}
+
+describe("deploy plan runner", () => {
+  it("deploys the main contract when there is no plan", async () => {
+    const { hre, deployments } = fakeHre();
+    const deployed = await runDeployPlan(hre, exampleWith(), silentLogger);
+    expect(deployed).to.deep.equal([
+      {
+        step: 1,
+        contract: "Token",
+        variable: "token",
+        address: "0x0000000000000000000000000000000000000001",
+      },
+    ]);
+    expect(deployments).to.deep.equal([{ contract: "Token", method: "constructor", args: [] }]);
+  });
+
+  it("resolves @refs, $deployer, literals and expressions in order", async () => {
+    const { hre, deployments, calls } = fakeHre();
+    const deployed = await runDeployPlan(
+      hre,
+      exampleWith([
+        { contract: "Registry", saveAs: "registry" },
+        {
+          contract: "Token",
+          args: ["@registry", "$deployer", "Name", 7, "#2n ** 8n"],
+          afterDeploy: [
+            { call: "token.setAuthorizedCaller", args: ["@registry", true] },
+            { grantRole: "MINTER_ROLE", on: "token", to: "$deployer" },
+          ],
+        },
+      ]),
+      silentLogger,
+    );
+
+    expect(deployed.map((entry) => entry.variable)).to.deep.equal(["registry", "token"]);
+    expect(deployments[1].args).to.deep.equal([
+      "0x0000000000000000000000000000000000000001",
+      DEPLOYER,
+      "Name",
+      7,
+      256n,
+    ]);
+    expect(calls).to.deep.equal([
+      {
+        contract: "Token",
+        method: "setAuthorizedCaller",
+        args: ["0x0000000000000000000000000000000000000001", true],
+      },
+      { contract: "Token", method: "grantRole", args: ["0xminter", DEPLOYER] },
+    ]);
+  });
+
+  it("names the failing step", async () => {
+    const { hre } = fakeHre({ failOn: "Token" });
+    const plan = exampleWith([{ contract: "Registry" }, { contract: "Token" }]);
+    let error: Error | undefined;
+    try {
+      await runDeployPlan(hre, plan, silentLogger);
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error?.message).to.equal("Step 2 (Token) failed: execution reverted");
+  });
+
+  it("rejects references to steps not deployed yet", async () => {
+    const { hre, deployments } = fakeHre();
+    const plan = exampleWith([
+      { contract: "Token", args: ["@registry"] },
+      { contract: "Registry", saveAs: "registry" },
+    ]);
+    let error: Error | undefined;
+    try {
+      await runDeployPlan(hre, plan, silentLogger);
+    } catch (caught) {
+      error = caught as Error;
+    }
+    expect(error?.message).to.equal('Step 1 (Token) failed: "@registry" has not been deployed yet');
+    expect(deployments).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @title Detect Drift Tests
+ * @notice Tests for classifying generated files as upstream changes, local edits or both
+ * @dev Pure file-system tests on a temp directory; no network or deployment involved
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { compareRepo, findGeneratedRepos } from "../../scripts/detect-drift";
+import { hashFile, MANIFEST_FILE } from "../../scripts/lib/generation-manifest";
+
+describe("detect-drift", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "drift-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("classifies each file against the recorded and current hashes", () => {
+    const write = (file: string, content: string) => {
+      fs.writeFileSync(path.join(dir, file), content);
+      return hashFile(path.join(dir, file));
+    };
+    const original = write("original.txt", "v1");
+    const v2 = write("v2.txt", "v2");
+    write("same.txt", "v1");
+    write("upstream.txt", "v1");
+    write("local.txt", "mine");
+    write("both.txt", "mine");
+
+    const recorded = {
+      "same.txt": original,
+      "upstream.txt": original,
+      "local.txt": original,
+      "both.txt": original,
+      "deleted.txt": original,
+    };
+    const current = { ...recorded, "upstream.txt": v2, "both.txt": v2, "added.txt": v2 };
+
+    expect(compareRepo(dir, recorded, current)).to.deep.equal([
+      { file: "added.txt", kind: "upstream" },
+      { file: "both.txt", kind: "both" },
+      { file: "deleted.txt", kind: "local" },
+      { file: "local.txt", kind: "local" },
+      { file: "upstream.txt", kind: "upstream" },
+    ]);
+  });
+
+  it("finds repos by their manifest at any depth", () => {
+    for (const repo of ["a", "nested/b", "node_modules/c"]) {
+      fs.mkdirSync(path.join(dir, repo), { recursive: true });
+      fs.writeFileSync(path.join(dir, repo, MANIFEST_FILE), "{}");
+    }
+    expect(findGeneratedRepos([dir])).to.deep.equal([
+      path.join(dir, "a"),
+      path.join(dir, "nested/b"),
+    ]);
+  });
+});
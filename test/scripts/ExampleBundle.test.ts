@@ -0,0 +1,58 @@
+/**
+ * @title Example Bundle Tests
+ * @notice Tests for merging several example repo plans into one bundle repo
+ * @dev Pure in-memory file plans; no file system, network or deployment involved
+ */
+
+import { expect } from "chai";
+
+import type { ExampleMeta } from "../../scripts/example-registry";
+import { mergeExamplePlans } from "../../scripts/lib/example-bundle";
+import { createFilePlan, planGenerated } from "../../scripts/lib/file-plan";
+
+function member(slug: string, files: Record<string, string>) {
+  const plan = createFilePlan();
+  planGenerated(plan, "hardhat.config.ts", "export default {};");
+  planGenerated(plan, "package.json", "{}");
+  for (const [file, content] of Object.entries(files)) planGenerated(plan, file, content);
+  return { example: { slug } as ExampleMeta, plan };
+}
+
+describe("example-bundle", () => {
+  it("writes identical helpers once and moves clashing files under the slug", () => {
+    const { plan, renamed } = mergeExamplePlans([
+      member("blind-auction", {
+        "contracts/BlindAuction.sol": 'import "./helpers/Token.sol";',
+        "contracts/helpers/Token.sol": "contract Token {}",
+        "contracts/Config.sol": "contract Config { uint a; }",
+      }),
+      member("dutch-auction", {
+        "contracts/DutchAuction.sol": 'import "./helpers/Token.sol";\nimport "./Config.sol";',
+        "contracts/helpers/Token.sol": "contract Token {}",
+        "contracts/Config.sol": 'import "./helpers/Token.sol";\ncontract Config { uint b; }',
+      }),
+    ]);
+
+    expect([...plan.keys()].sort()).to.deep.equal([
+      "contracts/BlindAuction.sol",
+      "contracts/Config.sol",
+      "contracts/DutchAuction.sol",
+      "contracts/dutch-auction/Config.sol",
+      "contracts/helpers/Token.sol",
+      "hardhat.config.ts",
+    ]);
+    expect(renamed).to.deep.equal([
+      {
+        slug: "dutch-auction",
+        from: "contracts/Config.sol",
+        to: "contracts/dutch-auction/Config.sol",
+      },
+    ]);
+    expect(plan.get("contracts/DutchAuction.sol")?.content).to.equal(
+      'import "./helpers/Token.sol";\nimport "./dutch-auction/Config.sol";',
+    );
+    expect(plan.get("contracts/dutch-auction/Config.sol")?.content).to.equal(
+      'import "../helpers/Token.sol";\ncontract Config { uint b; }',
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @title Example Graph Tests
+ * @notice Tests for the example dependency graph (`graph` command, GitBook diagrams)
+ * @dev Runs against the hub's own registry; orphans come from leaving examples out of it
+ */
+
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { type ExampleRegistry, loadExampleRegistry } from "../../scripts/example-registry";
+import {
+  buildExampleGraph,
+  exampleSubgraph,
+  examplesShowing,
+  formatDot,
+  formatMermaid,
+} from "../../scripts/lib/example-graph";
+
+const rootDir = path.resolve(__dirname, "../..");
+const PAYMENT_TOKEN = "contracts/auctions/helpers/AuctionPaymentToken.sol";
+
+describe("example graph", function () {
+  this.timeout(60_000);
+
+  const registry = loadExampleRegistry(rootDir, { cache: false });
+  const graph = buildExampleGraph(rootDir, registry);
+
+  it("links examples to the contracts they use and to the examples they build on", () => {
+    const users = graph.edges.filter((edge) => edge.to === PAYMENT_TOKEN).map((edge) => edge.from);
+    expect(users).to.have.members(["blind-auction", "dutch-auction"]);
+    expect(graph.nodes.find((node) => node.id === PAYMENT_TOKEN)?.kind).to.equal("helper");
+    expect(graph.edges).to.deep.include({
+      from: "blind-auction",
+      to: "public-decrypt-single-value",
+      kind: "depends-on",
+    });
+  });
+
+  it("detects dependency cycles", () => {
+    expect(graph.cycles).to.deep.include(["compliance-rules", "compliant-erc20"]);
+  });
+
+  it("reports helpers no example uses as orphans", () => {
+    expect(graph.orphans).to.deep.equal([]);
+    const withoutAuctions: ExampleRegistry = {
+      ...registry,
+      examples: registry.examples.filter((example) => example.category !== "auctions"),
+    };
+    expect(buildExampleGraph(rootDir, withoutAuctions).orphans).to.include(PAYMENT_TOKEN);
+  });
+
+  it("keeps an example's neighbours in its subgraph", () => {
+    const subgraph = exampleSubgraph(graph, "public-decrypt-single-value");
+    expect(subgraph.edges.map((edge) => edge.from)).to.include("blind-auction");
+    expect(subgraph.cycles).to.deep.equal([]);
+    expect(exampleSubgraph(graph, "fhe-counter").edges).to.deep.equal([]);
+  });
+
+  it("finds the examples whose subgraphs show the given ones", () => {
+    expect([...examplesShowing(graph, ["public-decrypt-single-value"])]).to.have.members([
+      "public-decrypt-single-value",
+      "blind-auction",
+    ]);
+    expect(examplesShowing(graph, ["blind-auction"])).to.include("public-decrypt-single-value");
+    expect([...examplesShowing(graph, ["fhe-counter"])]).to.deep.equal(["fhe-counter"]);
+  });
+
+  it("formats DOT and Mermaid", () => {
+    const subgraph = exampleSubgraph(graph, "compliance-rules");
+    const dot = formatDot(subgraph);
+    expect(dot).to.match(/^digraph examples \{/);
+    expect(dot).to.include(
+      '"compliance-rules" -> "compliant-erc20" [label="depends-on", style=dashed, color=red];',
+    );
+
+    const mermaid = formatMermaid(subgraph);
+    expect(mermaid).to.match(/^flowchart LR\n/);
+    expect(mermaid).to.include('compliance_rules(["ComplianceRules"])');
+    expect(mermaid).to.include("compliance_rules -.->|depends-on| compliant_erc20");
+    expect(mermaid).to.match(/linkStyle [\d,]+ stroke:red/);
+  });
+});
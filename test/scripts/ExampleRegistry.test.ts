@@ -0,0 +1,98 @@
+/**
+ * @title Example Registry Tests
+ * @notice Tests for registry loading from a minimal hub (compiled artifacts vs. source ABIs)
+ * @dev Builds a throwaway hub in a temp directory; nothing is compiled
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { loadExampleRegistry } from "../../scripts/example-registry";
+
+const VAULT_SOURCE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title Vault
+ * @notice A vault with a cap
+ * @custom:category basic
+ * @custom:chapter basics
+ * @custom:concept Constructor arguments
+ * @custom:difficulty beginner
+ * @custom:deploy-plan [{"contract":"Vault","saveAs":"vault","args":[100]}]
+ */
+contract Vault {
+    uint256 public cap;
+
+    constructor(uint256 cap_) {
+        cap = cap_;
+    }
+}
+`;
+
+/** An artifact whose constructor takes two arguments, so the one-arg plan no longer fits. */
+const TWO_ARG_ARTIFACT = JSON.stringify({
+  abi: [
+    {
+      type: "constructor",
+      inputs: [
+        { name: "cap_", type: "uint256" },
+        { name: "owner", type: "address" },
+      ],
+    },
+  ],
+});
+
+describe("example registry", () => {
+  let rootDir: string;
+  let sourceFile: string;
+  let artifactFile: string;
+
+  const deployPlanErrors = () =>
+    loadExampleRegistry(rootDir, { cache: false }).diagnostics.filter(
+      (diagnostic) => diagnostic.tag === "custom:deploy-plan" && diagnostic.severity === "error",
+    );
+  /** Sets the artifact's modification time `offsetMs` after the source's. */
+  const touchArtifact = (offsetMs: number) => {
+    const sourceTime = fs.statSync(sourceFile).mtimeMs;
+    const time = new Date(sourceTime + offsetMs);
+    fs.utimesSync(artifactFile, time, time);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "example-registry-"));
+    sourceFile = path.join(rootDir, "contracts", "basic", "Vault.sol");
+    artifactFile = path.join(rootDir, "artifacts", "contracts", "basic", "Vault.sol", "Vault.json");
+    fs.mkdirSync(path.dirname(sourceFile), { recursive: true });
+    fs.mkdirSync(path.dirname(artifactFile), { recursive: true });
+    fs.writeFileSync(sourceFile, VAULT_SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("checks deploy plans against the source without an artifact", () => {
+    expect(deployPlanErrors()).to.deep.equal([]);
+  });
+
+  it("prefers an up-to-date artifact over the source", () => {
+    fs.writeFileSync(artifactFile, TWO_ARG_ARTIFACT);
+    touchArtifact(1000);
+    expect(deployPlanErrors()).to.have.length(1);
+  });
+
+  it("ignores artifacts compiled before the source changed", () => {
+    fs.writeFileSync(artifactFile, TWO_ARG_ARTIFACT);
+    touchArtifact(-1000);
+    expect(deployPlanErrors()).to.deep.equal([]);
+  });
+
+  it("falls back to the source when an artifact is corrupt", () => {
+    fs.writeFileSync(artifactFile, TWO_ARG_ARTIFACT.slice(0, 40));
+    touchArtifact(1000);
+    expect(deployPlanErrors()).to.deep.equal([]);
+  });
+});
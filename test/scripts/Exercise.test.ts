@@ -0,0 +1,132 @@
+/**
+ * @title Exercise Tests
+ * @notice Tests for turning marked exercise regions of a contract into a starter version
+ * @dev Pure string and file plan tests; no compilation involved
+ */
+
+import { expect } from "chai";
+
+import type { ExampleMeta } from "../../scripts/example-registry";
+import {
+  findExerciseRegions,
+  planExerciseRepo,
+  stripExerciseMarkers,
+  toStarter,
+} from "../../scripts/lib/exercise";
+import { createFilePlan, planGenerated } from "../../scripts/lib/file-plan";
+import { silentLogger } from "../../scripts/lib/logger";
+
+const SOLUTION = `contract Counter {
+    uint256 private count;
+
+    function increment() external {
+        // @exercise-begin Add one to \`count\`
+        count += 1;
+        // @exercise-end
+    }
+
+    function reset() external {
+        // @exercise-begin
+        count = 0;
+        // @exercise-end
+    }
+}`;
+
+describe("exercise", () => {
+  it("replaces each region with a TODO carrying its hint", () => {
+    expect(toStarter(SOLUTION)).to.equal(`contract Counter {
+    uint256 private count;
+
+    function increment() external {
+        // TODO: Add one to \`count\`
+    }
+
+    function reset() external {
+        // TODO: implement this part of the exercise
+    }
+}`);
+  });
+
+  it("keeps stub lines as code so the starter still compiles", () => {
+    const source = `    function isZero() external view returns (bool) {
+        // @exercise-begin Compare \`count\` with zero
+        // @exercise-stub return false;
+        return count == 0;
+        // @exercise-end
+    }`;
+    const [region] = findExerciseRegions(source);
+    expect(region.stubs).to.deep.equal(["        return false;"]);
+    expect(region.returnsValue).to.equal(true);
+    expect(toStarter(source)).to.equal(`    function isZero() external view returns (bool) {
+        // TODO: Compare \`count\` with zero
+        return false;
+    }`);
+  });
+
+  it("leaves contracts without regions unchanged", () => {
+    expect(toStarter("contract Empty {}")).to.equal("contract Empty {}");
+  });
+
+  it("strips the markers but keeps the solution code for the docs", () => {
+    const source = `    function isZero() external view returns (bool) {
+        // @exercise-begin Compare \`count\` with zero
+        // @exercise-stub return false;
+        return count == 0;
+        // @exercise-end
+    }`;
+    expect(
+      stripExerciseMarkers(source),
+    ).to.equal(`    function isZero() external view returns (bool) {
+        return count == 0;
+    }`);
+  });
+
+  it("rejects unbalanced markers", () => {
+    expect(() => findExerciseRegions("// @exercise-begin\n// @exercise-begin", "A.sol")).to.throw(
+      "A.sol:2: nested @exercise-begin (open since line 1)",
+    );
+    expect(() => findExerciseRegions("// @exercise-end", "A.sol")).to.throw(
+      "A.sol:1: @exercise-end without @exercise-begin",
+    );
+    expect(() => findExerciseRegions("x\n// @exercise-begin", "A.sol")).to.throw(
+      "A.sol:2: @exercise-begin is never closed",
+    );
+    expect(() => findExerciseRegions("// @exercise-stub return 0;", "A.sol")).to.throw(
+      "A.sol:1: @exercise-stub outside an exercise region",
+    );
+  });
+
+  it("plans an exercise repo with hidden solution tests", () => {
+    const plan = createFilePlan();
+    planGenerated(plan, "contracts/Counter.sol", SOLUTION);
+    planGenerated(plan, "contracts/helpers/Shared.sol", SOLUTION);
+    planGenerated(plan, "test/Counter.test.ts", "// tests");
+    planGenerated(plan, "package.json", JSON.stringify({ scripts: { test: "hardhat test" } }));
+    planGenerated(plan, "README.md", "# Counter\n\nIntro.\n\n## Quick Start\n");
+    const example = { slug: "counter", contractFile: "/hub/contracts/Counter.sol" } as ExampleMeta;
+
+    const exercises = planExerciseRepo(plan, example, silentLogger);
+
+    expect(exercises).to.deep.equal([
+      {
+        file: "contracts/Counter.sol",
+        hints: ["Add one to `count`", "implement this part of the exercise"],
+      },
+    ]);
+    expect(plan.get("contracts/Counter.sol")?.content).to.equal(toStarter(SOLUTION));
+    expect(plan.get(".exercise/solution/Counter.sol")?.content).to.equal(SOLUTION);
+    expect(plan.get("contracts/helpers/Shared.sol")?.content).to.equal(
+      stripExerciseMarkers(SOLUTION),
+    );
+    expect(plan.has(".exercise/solution/helpers/Shared.sol")).to.equal(false);
+    expect(plan.has("test/Counter.test.ts")).to.equal(false);
+    expect(plan.get(".exercise/test/Counter.test.ts")?.content).to.equal("// tests");
+    expect(JSON.parse(String(plan.get("package.json")?.content)).scripts).to.deep.equal({
+      test: "hardhat test",
+      check: "HARDHAT_NETWORK=hardhat hardhat test .exercise/test/Counter.test.ts",
+    });
+    const readme = String(plan.get("README.md")?.content);
+    expect(readme.indexOf("## Exercise")).to.be.greaterThan(readme.indexOf("Intro."));
+    expect(readme.indexOf("## Exercise")).to.be.lessThan(readme.indexOf("## Quick Start"));
+  });
+});
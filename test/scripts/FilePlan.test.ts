@@ -0,0 +1,53 @@
+/**
+ * @title File Plan Tests
+ * @notice Tests for the in-memory file plans behind generation and `--dry-run`
+ * @dev Pure file-system tests on a temp directory; no network or deployment involved
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import {
+  createFilePlan,
+  describeFilePlan,
+  formatFilePlan,
+  planDirectory,
+  planGenerated,
+  removePlannedDir,
+} from "../../scripts/lib/file-plan";
+
+describe("file-plan", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-plan-"));
+    fs.mkdirSync(path.join(dir, "template", "contracts"), { recursive: true });
+    fs.mkdirSync(path.join(dir, "template", ".git"));
+    fs.writeFileSync(path.join(dir, "template", "contracts", "Sample.sol"), "contract Sample {}");
+    fs.writeFileSync(path.join(dir, "template", ".git", "HEAD"), "ref");
+    fs.writeFileSync(path.join(dir, "template", "package.json"), "{}");
+    fs.writeFileSync(path.join(dir, "template", "LICENSE"), "MIT");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lets generated files replace template files and describes each source", () => {
+    const plan = createFilePlan();
+    planDirectory(plan, path.join(dir, "template"), "template");
+    removePlannedDir(plan, "contracts");
+    planGenerated(plan, "package.json", '{ "name": "x" }');
+
+    const entries = describeFilePlan(plan, dir);
+    expect(entries).to.deep.equal([
+      { path: "LICENSE", source: "template", size: 3, from: "template/LICENSE" },
+      { path: "package.json", source: "generated", size: 15 },
+    ]);
+    expect(formatFilePlan(entries)).to.contain(
+      "2 file(s), 18 bytes (1 template, 0 copied, 1 generated)",
+    );
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @title Generator Pipeline Tests
+ * @notice Tests for resolving generator steps from the hub config and plugin modules
+ * @dev Pure file-system tests on a temp hub root; no network or deployment involved
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import {
+  DEFAULT_GENERATOR_STEPS,
+  resolveGeneratorSteps,
+} from "../../scripts/lib/generator-pipeline";
+
+describe("generator-pipeline", () => {
+  let rootDir: string;
+
+  const writeConfig = (config: unknown) =>
+    fs.writeFileSync(path.join(rootDir, "fhevm-hub.config.json"), JSON.stringify(config));
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "generator-pipeline-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("uses the default steps without a hub config", () => {
+    expect(resolveGeneratorSteps(rootDir)).to.deep.equal([...DEFAULT_GENERATOR_STEPS]);
+  });
+
+  it("applies plugins, then file overrides, then disabled ids", () => {
+    fs.writeFileSync(path.join(rootDir, "LICENSE"), "Org license");
+    fs.writeFileSync(
+      path.join(rootDir, "plugin.js"),
+      `module.exports = {
+        steps: [
+          { id: "solhint", path: ".solhint.json", generate: () => "{}" },
+          { id: "codeowners", path: "CODEOWNERS", generate: () => "* @org" },
+        ],
+      };`,
+    );
+    writeConfig({
+      generators: {
+        plugins: ["./plugin.js"],
+        files: { LICENSE: "LICENSE", "README.md": "LICENSE" },
+        disable: ["vscode-extensions", "codeowners"],
+      },
+    });
+
+    const steps = resolveGeneratorSteps(rootDir);
+    const ids = steps.map((step) => step.id);
+
+    expect(ids).to.not.include.members(["readme", "vscode-extensions", "codeowners"]);
+    expect(ids.slice(-2)).to.deep.equal(["file:LICENSE", "file:README.md"]);
+    expect(steps.find((step) => step.id === "solhint")?.generate({} as never)).to.equal("{}");
+  });
+
+  it("rejects an invalid config", () => {
+    writeConfig({ generators: { disable: "biome" } });
+    expect(() => resolveGeneratorSteps(rootDir)).to.throw(/"generators.disable" must be an array/);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * @title JSON Format Tests
+ * @notice Tests for Biome-compatible JSON output (`lib/json-format.ts`)
+ * @dev Pure string tests
+ */
+
+import { expect } from "chai";
+
+import { formatJson, formatPackageJson } from "../../scripts/lib/json-format";
+
+describe("formatJson", () => {
+  it("expands objects and keeps short scalar arrays on one line", () => {
+    expect(formatJson({ name: "x", tags: ["a", "b"], empty: {}, none: [] })).to.equal(
+      '{\n  "name": "x",\n  "tags": ["a", "b"],\n  "empty": {},\n  "none": []\n}\n',
+    );
+  });
+
+  it("breaks arrays that do not fit the line width, counting the key and comma", () => {
+    const value = { list: ["aaaa", "bbbb"], last: 1 };
+    expect(formatJson(value, 27)).to.contain('  "list": ["aaaa", "bbbb"],');
+    expect(formatJson(value, 26)).to.contain('  "list": [\n    "aaaa",\n    "bbbb"\n  ],');
+  });
+
+  it("expands every non-empty array in package.json files", () => {
+    expect(formatPackageJson({ keywords: ["fhe"], files: [] })).to.equal(
+      '{\n  "keywords": [\n    "fhe"\n  ],\n  "files": []\n}\n',
+    );
+  });
+
+  it("always expands arrays holding objects", () => {
+    expect(formatJson([{ a: 1 }])).to.equal('[\n  {\n    "a": 1\n  }\n]\n');
+  });
+
+  it("drops undefined members like JSON.stringify", () => {
+    expect(formatJson({ a: undefined, b: [undefined] })).to.equal('{\n  "b": [null]\n}\n');
+  });
+});
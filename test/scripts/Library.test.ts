@@ -0,0 +1,44 @@
+/**
+ * @title Library Tests
+ * @notice Tests for the programmatic entrypoint (`scripts/index.ts`)
+ * @dev Runs against the hub's own contracts; nothing may be written to disk
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import {
+  buildCatalog,
+  loadExampleRegistry,
+  renderGitbook,
+  validateRegistryMetadata,
+} from "../../scripts";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+describe("library", function () {
+  this.timeout(60_000);
+
+  it("renders docs and the catalog without writing them", () => {
+    const registry = loadExampleRegistry(rootDir, { cache: false });
+    const catalogPath = path.join(rootDir, "docs", "catalog.json");
+    const catalogBefore = fs.statSync(catalogPath).mtimeMs;
+
+    const pages = renderGitbook(rootDir, registry, { examples: ["fhe-counter"] });
+    expect(pages.get("basic/FHECounter.md")).to.match(/^# FHECounter\n/);
+    expect(pages.has("identity/README.md")).to.equal(false);
+
+    const catalog = buildCatalog(registry);
+    const basic = catalog.categories.find((category) => category.name === "basic");
+    expect(basic?.examples.map((example) => example.slug)).to.include("fhe-counter");
+    expect(fs.statSync(catalogPath).mtimeMs).to.equal(catalogBefore);
+  });
+
+  it("reports metadata problems as a result", () => {
+    const report = validateRegistryMetadata(loadExampleRegistry(rootDir, { cache: false }));
+    expect(report.ok).to.equal(true);
+    expect(report.errors).to.equal(0);
+    expect(report.examples).to.be.greaterThan(0);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @title Metadata Schema Tests
+ * @notice Tests for @custom:* tag validation and its diagnostics
+ * @dev Pure validation tests; no network or deployment involved
+ */
+
+import { expect } from "chai";
+
+import { formatDiagnostic, validateExampleMetadata } from "../../scripts/lib/metadata-schema";
+import type { NatSpecDoc } from "../../scripts/lib/solidity-metadata";
+
+const context = {
+  categories: new Set(["basic", "identity"]),
+  contractNames: new Set(["FHECounter", "IdentityRegistry"]),
+  testExists: (fileName: string) => fileName === "FullFlow.test.ts",
+  resolveDeployTarget: (name: string) =>
+    name === "FHECounter"
+      ? {
+          kind: "contract" as const,
+          constructorInputs: [],
+          functions: [],
+          complete: true,
+          source: "source" as const,
+        }
+      : undefined,
+};
+
+function docOf(tags: Record<string, string>): NatSpecDoc {
+  const lines: Record<string, number> = {};
+  Object.keys(tags).forEach((tag, index) => {
+    lines[tag] = index + 2;
+  });
+  return { tags, lines };
+}
+
+const validTags = {
+  title: "FHE Counter",
+  "custom:category": "basic",
+  "custom:chapter": "basics, Arithmetic",
+  "custom:concept": "Encrypted counter",
+  "custom:difficulty": "Beginner",
+};
+
+describe("MetadataSchema", () => {
+  it("accepts a complete, valid tag set", () => {
+    const diagnostics = validateExampleMetadata(
+      "contracts/basic/FHECounter.sol",
+      docOf(validTags),
+      10,
+      context,
+    );
+    expect(diagnostics).to.deep.equal([]);
+  });
+
+  it("reports missing required tags on the contract declaration line", () => {
+    const { "custom:concept": _concept, ...tags } = validTags;
+    const diagnostics = validateExampleMetadata("contracts/basic/A.sol", docOf(tags), 10, context);
+
+    expect(diagnostics).to.deep.equal([
+      {
+        file: "contracts/basic/A.sol",
+        line: 10,
+        tag: "custom:concept",
+        severity: "error",
+        message: "required tag is missing",
+      },
+    ]);
+  });
+
+  it("rejects unknown chapters, difficulties and categories on the tag's line", () => {
+    const doc = docOf({
+      ...validTags,
+      "custom:category": "defi",
+      "custom:chapter": "basics, lending",
+      "custom:difficulty": "expert",
+    });
+    const diagnostics = validateExampleMetadata("contracts/basic/A.sol", doc, 10, context);
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.tag, diagnostic.line])).to.deep.equal([
+      ["custom:category", 3],
+      ["custom:chapter", 4],
+      ["custom:difficulty", 6],
+    ]);
+    expect(diagnostics[1].message).to.contain('unknown chapter "lending"');
+  });
+
+  it("flags dangling depends-on names", () => {
+    const doc = docOf({ ...validTags, "custom:depends-on": "IdentityRegistry, MissingToken" });
+    const [diagnostic] = validateExampleMetadata("contracts/basic/A.sol", doc, 10, context);
+
+    expect(diagnostic.message).to.equal(
+      '"MissingToken" does not match any contract under contracts/',
+    );
+  });
+
+  it("checks deploy plan JSON and step shape", () => {
+    const invalidJson = docOf({ ...validTags, "custom:deploy-plan": '[{"contract":}]' });
+    expect(validateExampleMetadata("a.sol", invalidJson, 1, context)[0].message).to.match(
+      /^invalid JSON/,
+    );
+
+    const badSteps = docOf({
+      ...validTags,
+      "custom:deploy-plan":
+        '[{"contract":"Nope","saveAs":"a-b","args":[null],"extra":1,"afterDeploy":[{"call":"x","to":1}]}]',
+    });
+    expect(
+      validateExampleMetadata("a.sol", badSteps, 1, context).map(
+        (diagnostic) => diagnostic.message,
+      ),
+    ).to.deep.equal([
+      'step 1 has unknown key "extra"',
+      'step 1 "saveAs" must be a JavaScript identifier',
+      "step 1 arg 1 must be a string, a number, a boolean or an object",
+      'step 1 afterDeploy 1 has unknown key "to" for call',
+      'step 1 afterDeploy 1 "call" must look like "variable.method"',
+    ]);
+
+    const unknownContract = docOf({ ...validTags, "custom:deploy-plan": '[{"contract":"Nope"}]' });
+    expect(validateExampleMetadata("a.sol", unknownContract, 1, context)[0].message).to.equal(
+      'step 1 deploys unknown contract "Nope"',
+    );
+  });
+
+  it("warns about unknown custom tags and formats diagnostics", () => {
+    const doc = docOf({ ...validTags, "custom:dificulty": "hard" });
+    const [diagnostic] = validateExampleMetadata("contracts/basic/A.sol", doc, 10, context);
+
+    expect(diagnostic.severity).to.equal("warning");
+    expect(formatDiagnostic(diagnostic)).to.match(
+      /^contracts\/basic\/A\.sol:7 {2}warning {2}@custom:dificulty: unknown tag/,
+    );
+  });
+});
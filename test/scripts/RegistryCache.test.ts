@@ -0,0 +1,85 @@
+/**
+ * @title Registry Cache Tests
+ * @notice Tests for the content-addressed cache behind registry loading (`lib/registry-cache.ts`)
+ * @dev Pure file-system tests on a temp cache file
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { openRegistryCache, type RegistryCacheOptions } from "../../scripts/lib/registry-cache";
+
+describe("registry cache", () => {
+  let dir: string;
+  let cacheFile: string;
+  let computed: string[];
+  const compute = (content: string) => {
+    computed.push(content);
+    return { length: content.length };
+  };
+
+  /** Opens the cache, resolves `files` (key → content) and saves it. */
+  const load = (files: Record<string, string>, options: Partial<RegistryCacheOptions> = {}) => {
+    const cache = openRegistryCache({ cacheFile, version: "1", ...options });
+    const values = Object.entries(files).map(([key, content]) =>
+      cache.resolve(key, content, compute),
+    );
+    cache.save();
+    return { values, stats: cache.stats };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-cache-"));
+    cacheFile = path.join(dir, ".cache", "registry.json");
+    computed = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reuses unchanged entries and recomputes changed ones", () => {
+    load({ "a.sol": "a", "b.sol": "b" });
+    const { values, stats } = load({ "a.sol": "a", "b.sol": "b2" });
+    expect(values).to.deep.equal([{ length: 1 }, { length: 2 }]);
+    expect(stats).to.include({ parsed: 1, reused: 1 });
+    expect(computed).to.deep.equal(["a", "b", "b2"]);
+  });
+
+  it("drops entries for files no longer resolved", () => {
+    load({ "a.sol": "a", "b.sol": "b" });
+    load({ "a.sol": "a" });
+    const saved = JSON.parse(fs.readFileSync(cacheFile, "utf8"));
+    expect(Object.keys(saved.entries)).to.deep.equal(["a.sol"]);
+  });
+
+  it("discards the whole file when the version changes", () => {
+    load({ "a.sol": "a" });
+    const { stats } = load({ "a.sol": "a" }, { version: "2" });
+    expect(stats).to.include({ parsed: 1, reused: 0 });
+    expect(JSON.parse(fs.readFileSync(cacheFile, "utf8")).version).to.equal("2");
+  });
+
+  it("ignores cached entries on refresh but writes a fresh cache", () => {
+    load({ "a.sol": "a" });
+    expect(load({ "a.sol": "a" }, { refresh: true }).stats).to.include({ parsed: 1, reused: 0 });
+    expect(load({ "a.sol": "a" }).stats).to.include({ parsed: 0, reused: 1 });
+  });
+
+  it("falls back to a clean load when the cache file is corrupt", () => {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(cacheFile, '{"version": "1", "entries": {');
+    const { values, stats } = load({ "a.sol": "a" });
+    expect(values).to.deep.equal([{ length: 1 }]);
+    expect(stats).to.include({ parsed: 1, reused: 0 });
+    expect(JSON.parse(fs.readFileSync(cacheFile, "utf8")).entries).to.have.key("a.sol");
+  });
+
+  it("never writes when persistence is disabled", () => {
+    const { stats } = load({ "a.sol": "a" }, { cacheFile: undefined });
+    expect(stats.parsed).to.equal(1);
+    expect(fs.existsSync(cacheFile)).to.equal(false);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @title Repo Update Tests
+ * @notice Tests for the three-way merges behind `create --update`
+ * @dev Pure file-system tests on temp directories; no network or deployment involved
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { updateExample } from "../../scripts/create-fhevm-example";
+import type { ExampleMeta } from "../../scripts/example-registry";
+import { UsageError } from "../../scripts/lib/cli";
+import { MANIFEST_FILE } from "../../scripts/lib/generation-manifest";
+import { silentLogger } from "../../scripts/lib/logger";
+import { applyUpdate, BASELINE_DIR, writeBaseline } from "../../scripts/lib/repo-update";
+import { mergeJson, mergeText } from "../../scripts/lib/three-way-merge";
+
+function lines(...values: string[]): string {
+  return values.join("\n");
+}
+
+function writeTree(dir: string, files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+}
+
+describe("mergeText", () => {
+  const base = lines("a", "b", "c", "d", "e");
+
+  it("applies non-overlapping changes from both sides", () => {
+    const local = lines("a", "B", "c", "d", "e");
+    const hub = lines("a", "b", "c", "d", "E", "f");
+    expect(mergeText(base, local, hub)).to.deep.equal({
+      text: lines("a", "B", "c", "d", "E", "f"),
+      conflicts: 0,
+    });
+  });
+
+  it("accepts identical changes on both sides", () => {
+    const changed = lines("a", "x", "c", "d", "e");
+    expect(mergeText(base, changed, changed).conflicts).to.equal(0);
+  });
+
+  it("marks overlapping changes that differ", () => {
+    const result = mergeText(
+      base,
+      lines("a", "b", "local", "d", "e"),
+      lines("a", "b", "hub", "d", "e"),
+    );
+    expect(result.conflicts).to.equal(1);
+    expect(result.text).to.equal(
+      lines(
+        "a",
+        "b",
+        "<<<<<<< local",
+        "local",
+        "||||||| baseline",
+        "c",
+        "=======",
+        "hub",
+        ">>>>>>> hub",
+        "d",
+        "e",
+      ),
+    );
+  });
+});
+
+describe("mergeJson", () => {
+  it("merges package.json changes per key", () => {
+    const base = { scripts: { test: "hardhat test" }, dependencies: { a: "1.0.0" } };
+    const local = {
+      scripts: { test: "hardhat test", lint: "biome check" },
+      dependencies: { a: "1.0.0" },
+    };
+    const hub = { scripts: { test: "hardhat test" }, dependencies: { a: "1.1.0", b: "2.0.0" } };
+    expect(mergeJson(base, local, hub)).to.deep.equal({
+      value: {
+        scripts: { test: "hardhat test", lint: "biome check" },
+        dependencies: { a: "1.1.0", b: "2.0.0" },
+      },
+      conflicts: [],
+    });
+  });
+
+  it("keeps the local value of conflicting keys", () => {
+    const result = mergeJson({ version: "1" }, { version: "local" }, { version: "hub" });
+    expect(result).to.deep.equal({ value: { version: "local" }, conflicts: ["version"] });
+  });
+});
+
+describe("applyUpdate", () => {
+  let repoDir: string;
+  let generatedDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "repo-update-"));
+    generatedDir = fs.mkdtempSync(path.join(os.tmpdir(), "repo-update-hub-"));
+    writeTree(repoDir, {
+      "contracts/Counter.sol": lines("contract Counter {", "  uint x;", "}"),
+      "test/Counter.ts": "it('counts')",
+      "README.md": "old readme",
+      "old.txt": "dropped upstream",
+    });
+    writeBaseline(repoDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(generatedDir, { recursive: true, force: true });
+  });
+
+  it("updates untouched files and reports conflicts in edited ones", () => {
+    writeTree(repoDir, {
+      "test/Counter.ts": "it('counts twice')",
+      "notes.md": "mine",
+    });
+    writeTree(generatedDir, {
+      "contracts/Counter.sol": lines("contract Counter {", "  uint64 x;", "}"),
+      "test/Counter.ts": "it('counts up')",
+      "README.md": "old readme",
+      "scripts/deploy.ts": "deploy()",
+    });
+
+    const report = applyUpdate(generatedDir, repoDir);
+
+    expect(report.updated).to.deep.equal(["contracts/Counter.sol"]);
+    expect(report.added).to.deep.equal(["scripts/deploy.ts"]);
+    expect(report.removed).to.deep.equal(["old.txt"]);
+    expect(report.conflicts).to.deep.equal([
+      { file: "test/Counter.ts", reason: "1 conflict(s) marked", marked: true },
+    ]);
+    expect(fs.readFileSync(path.join(repoDir, "test/Counter.ts"), "utf8")).to.contain(
+      "<<<<<<< local",
+    );
+    expect(fs.readFileSync(path.join(repoDir, "notes.md"), "utf8")).to.equal("mine");
+    expect(fs.existsSync(path.join(repoDir, "old.txt"))).to.equal(false);
+    expect(fs.readFileSync(path.join(repoDir, BASELINE_DIR, "test/Counter.ts"), "utf8")).to.equal(
+      "it('counts up')",
+    );
+  });
+
+  it("writes merged package.json files in the generated layout", () => {
+    const pkg = (keywords: string[], scripts: Record<string, string>) =>
+      JSON.stringify({ keywords, scripts });
+    writeTree(repoDir, { "package.json": pkg(["fhe"], {}) });
+    writeBaseline(repoDir);
+    writeTree(repoDir, { "package.json": pkg(["fhe"], { lint: "biome check ." }) });
+    writeTree(generatedDir, { "package.json": pkg(["fhe", "zama"], {}) });
+
+    expect(applyUpdate(generatedDir, repoDir).merged).to.include("package.json");
+    expect(fs.readFileSync(path.join(repoDir, "package.json"), "utf8")).to.equal(
+      '{\n  "keywords": [\n    "fhe",\n    "zama"\n  ],\n  "scripts": {\n    "lint": "biome check ."\n  }\n}\n',
+    );
+  });
+
+  it("reports deleted files changed upstream without markers", () => {
+    fs.rmSync(path.join(repoDir, "README.md"));
+    writeTree(generatedDir, { "README.md": "new readme" });
+
+    expect(applyUpdate(generatedDir, repoDir).conflicts).to.deep.equal([
+      { file: "README.md", reason: "deleted locally, but changed upstream" },
+    ]);
+  });
+
+  it("refuses repos without a baseline", () => {
+    expect(() => applyUpdate(generatedDir, generatedDir)).to.throw(/No generation baseline/);
+  });
+});
+
+describe("updateExample", () => {
+  const counter = { slug: "fhe-counter" } as ExampleMeta;
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "update-example-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("refuses directories without a generation manifest", () => {
+    expect(() => updateExample("/hub", counter, repoDir, silentLogger)).to.throw(
+      UsageError,
+      `No ${MANIFEST_FILE} in ${repoDir}`,
+    );
+  });
+
+  it("refuses repos generated from another example", () => {
+    writeTree(repoDir, { [MANIFEST_FILE]: JSON.stringify({ example: { slug: "fhe-add" } }) });
+    expect(() => updateExample("/hub", counter, repoDir, silentLogger)).to.throw(
+      UsageError,
+      "was generated from fhe-add, not fhe-counter",
+    );
+  });
+});
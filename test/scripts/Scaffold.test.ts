@@ -0,0 +1,145 @@
+/**
+ * @title Scaffold Tests
+ * @notice Tests that `create` and `create:category` scaffold identical example repos, free of exercise markers
+ * @dev Generates into temp directories from a minimal fake Hardhat template; no network involved
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { createCategory } from "../../scripts/create-fhevm-category";
+import { createExample, planExample } from "../../scripts/create-fhevm-example";
+import { loadExampleRegistry } from "../../scripts/example-registry";
+import { describeFilePlan } from "../../scripts/lib/file-plan";
+import { MANIFEST_FILE } from "../../scripts/lib/generation-manifest";
+import { silentLogger } from "../../scripts/lib/logger";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+/** Every file under `dir` (baseline included) with its content and mode. */
+function snapshot(dir: string, prefix = ""): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      Object.assign(files, snapshot(dir, relative));
+    } else {
+      const mode = (fs.statSync(path.join(dir, relative)).mode & 0o777).toString(8);
+      files[relative] = `${mode} ${fs.readFileSync(path.join(dir, relative), "utf8")}`;
+    }
+  }
+  return files;
+}
+
+/** Files of a snapshot still holding exercise markers. */
+function withExerciseMarkers(files: Record<string, string>): string[] {
+  return Object.keys(files).filter((file) => files[file].includes("@exercise-"));
+}
+
+describe("scaffoldExample", function () {
+  this.timeout(60_000);
+
+  const previousTemplateDir = process.env.FHEVM_TEMPLATE_DIR;
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "scaffold-"));
+    const templateDir = path.join(workDir, "template");
+    fs.mkdirSync(path.join(templateDir, "contracts"), { recursive: true });
+    fs.mkdirSync(path.join(templateDir, "tasks"));
+    fs.writeFileSync(path.join(templateDir, "package.json"), "{}");
+    fs.writeFileSync(path.join(templateDir, "hardhat.config.ts"), "export default {};");
+    fs.writeFileSync(path.join(templateDir, "contracts", "Sample.sol"), "contract Sample {}");
+    fs.writeFileSync(path.join(templateDir, "tasks", "accounts.ts"), "// task");
+    fs.writeFileSync(path.join(templateDir, "LICENSE"), "BSD-3-Clause-Clear");
+    process.env.FHEVM_TEMPLATE_DIR = templateDir;
+  });
+
+  after(() => {
+    if (previousTemplateDir === undefined) {
+      delete process.env.FHEVM_TEMPLATE_DIR;
+    } else {
+      process.env.FHEVM_TEMPLATE_DIR = previousTemplateDir;
+    }
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("produces identical repos from create and create:category", () => {
+    const registry = loadExampleRegistry(rootDir);
+    const examples = (registry.categories.get("basic") ?? []).slice(0, 2);
+    expect(examples).to.have.length(2);
+
+    const bundleDir = path.join(workDir, "bundle");
+    createCategory(rootDir, "basic", examples, bundleDir, silentLogger);
+
+    for (const example of examples) {
+      const standaloneDir = path.join(workDir, example.slug);
+      createExample(rootDir, example, standaloneDir, silentLogger);
+
+      const standalone = snapshot(standaloneDir);
+      expect(standalone).to.include.keys(
+        "LICENSE",
+        "tasks/accounts.ts",
+        ".fhevm-example.json",
+        ".fhevm-example/baseline/package.json",
+      );
+      expect(standalone).to.not.have.property("contracts/Sample.sol");
+      expect(withExerciseMarkers(standalone)).to.deep.equal([]);
+      const inCategory = snapshot(path.join(bundleDir, "basic", example.slug));
+      expect(withExerciseMarkers(inCategory)).to.deep.equal([]);
+      expect(inCategory).to.deep.equal(standalone);
+    }
+  });
+
+  it("ships the solution without the exercise markers of its contracts", () => {
+    const example = loadExampleRegistry(rootDir).bySlug.get("dutch-auction");
+    if (!example) throw new Error("dutch-auction is missing from the registry");
+    expect(fs.readFileSync(example.contractFile, "utf8")).to.include("@exercise-begin");
+
+    const outDir = path.join(workDir, "solution");
+    createExample(rootDir, example, outDir, silentLogger);
+    const contract = fs.readFileSync(path.join(outDir, "contracts", "DutchAuction.sol"), "utf8");
+    expect(contract).to.include("euint64 actualPrice = FHE.select(");
+    expect(withExerciseMarkers(snapshot(outDir))).to.deep.equal([]);
+  });
+
+  it("plans exactly the files it writes", () => {
+    const example = loadExampleRegistry(rootDir).bySlug.get("fhe-counter");
+    if (!example) throw new Error("fhe-counter is missing from the registry");
+
+    const outDir = path.join(workDir, "planned");
+    createExample(rootDir, example, outDir, silentLogger);
+    const planned = describeFilePlan(planExample(rootDir, example, silentLogger), rootDir);
+
+    const written = Object.keys(snapshot(outDir)).filter(
+      (file) => !file.startsWith(".fhevm-example/"),
+    );
+    expect(planned.map((entry) => entry.path).sort()).to.deep.equal(written.sort());
+  });
+
+  it("plans offline (--dry-run) without git details or fetching a missing template", () => {
+    const example = loadExampleRegistry(rootDir).bySlug.get("fhe-counter");
+    if (!example) throw new Error("fhe-counter is missing from the registry");
+
+    const plan = planExample(rootDir, example, silentLogger, { offline: true });
+    const manifest = JSON.parse(String(plan.get(MANIFEST_FILE)?.content));
+    expect(manifest.hub).to.not.have.property("commit");
+    expect(manifest.template).to.deep.equal({ source: process.env.FHEVM_TEMPLATE_DIR });
+
+    // A hub without any template: the offline plan fails instead of cloning one.
+    const emptyHub = path.join(workDir, "empty-hub");
+    fs.mkdirSync(emptyHub);
+    fs.writeFileSync(path.join(emptyHub, "package.json"), "{}");
+    process.env.FHEVM_TEMPLATE_DIR = path.join(emptyHub, "base-template");
+    try {
+      expect(() => planExample(emptyHub, example, silentLogger, { offline: true })).to.throw(
+        "Hardhat template not found and --dry-run does not fetch it",
+      );
+      expect(fs.existsSync(path.join(emptyHub, "base-template"))).to.equal(false);
+    } finally {
+      process.env.FHEVM_TEMPLATE_DIR = path.join(workDir, "template");
+    }
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @title Solidity Metadata Tests
+ * @notice Tests for the AST-based metadata extraction behind the example registry
+ * @dev Pure parsing tests; no network or deployment involved
+ */
+
+import { expect } from "chai";
+
+import {
+  collectExampleTags,
+  parseNatSpec,
+  parseSolidityFile,
+  selectPrimaryContract,
+} from "../../scripts/lib/solidity-metadata";
+
+describe("SolidityMetadata", () => {
+  describe("NatSpec", () => {
+    it("continues a tag value across lines until the next tag", () => {
+      const { tags } = parseNatSpec([
+        "@title Wrapped",
+        "@custom:deploy-plan [{",
+        '  "contract": "Token"',
+        "}]",
+        "@custom:category tokens",
+      ]);
+
+      expect(tags.title).to.equal("Wrapped");
+      expect(tags["custom:deploy-plan"]).to.equal('[{ "contract": "Token" }]');
+      expect(tags["custom:category"]).to.equal("tokens");
+    });
+
+    it("keeps the first occurrence of a tag", () => {
+      const { tags } = parseNatSpec(["@title First", "@title Second"]);
+      expect(tags.title).to.equal("First");
+    });
+
+    it("attaches a multi-line block comment to the following contract", () => {
+      const info = parseSolidityFile(`
+pragma solidity ^0.8.24;
+
+/**
+ * @title Counter
+ * @notice Counts things
+ *   across two lines
+ * @custom:category basic
+ */
+contract Counter {}
+`);
+
+      expect(info.contracts[0].natspec).to.deep.equal({
+        tags: {
+          title: "Counter",
+          notice: "Counts things across two lines",
+          "custom:category": "basic",
+        },
+        lines: { title: 5, notice: 6, "custom:category": 8 },
+      });
+    });
+
+    it("groups contiguous triple-slash lines into one block", () => {
+      const info = parseSolidityFile(`
+/// @title Vault
+/// @custom:difficulty
+///   advanced
+contract Vault {}
+`);
+
+      expect(info.contracts[0].natspec).to.deep.equal({
+        tags: { title: "Vault", "custom:difficulty": "advanced" },
+        lines: { title: 2, "custom:difficulty": 3 },
+      });
+    });
+
+    it("ignores comment markers inside string literals", () => {
+      const info = parseSolidityFile(`
+/// @title Metadata
+contract Metadata {
+    string public constant URI = "ipfs://not-a-comment";
+    string public constant TAG = "/// @title Fake";
+}
+`);
+
+      expect(info.contracts[0].natspec.tags.title).to.equal("Metadata");
+      expect(info.fileNatspec).to.deep.equal([]);
+    });
+
+    it("keeps unattached top-of-file NatSpec as file-level tags", () => {
+      const info = parseSolidityFile(`
+/**
+ * @title Transient Access
+ * @custom:category advanced
+ */
+pragma solidity ^0.8.24;
+
+/// @notice Registry docs
+contract TransientAccessRegistry {}
+`);
+      const primary = selectPrimaryContract(info, "TransientAccessControl");
+
+      expect(primary?.name).to.equal("TransientAccessRegistry");
+      expect(collectExampleTags(info, primary).tags).to.deep.equal({
+        title: "Transient Access",
+        "custom:category": "advanced",
+        notice: "Registry docs",
+      });
+    });
+  });
+
+  describe("imports", () => {
+    it("reads symbol imports spanning several lines", () => {
+      const info = parseSolidityFile(`
+import {
+    FHE,
+    euint64 as Amount,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
+import "./helpers/Shared.sol";
+`);
+
+      expect(info.imports).to.deep.equal([
+        { path: "@fhevm/solidity/lib/FHE.sol", symbols: ["FHE", "euint64", "externalEuint64"] },
+        { path: "./helpers/Shared.sol", symbols: [] },
+      ]);
+    });
+  });
+
+  describe("contracts", () => {
+    const source = `
+interface ICounter { function count() external view returns (uint256); }
+
+abstract contract Base is ICounter {
+    function count() public view virtual returns (uint256);
+}
+
+library Math { function add(uint256 a, uint256 b) internal pure returns (uint256) { return a + b; } }
+
+contract Counter is Base, Ownable {
+    uint256 private value;
+    constructor() Ownable(msg.sender) {}
+    function count() public view override returns (uint256) { return value; }
+    function increment() external { value += 1; }
+    function bump() internal {}
+    receive() external payable {}
+}
+`;
+
+    it("reports kinds, bases and public functions", () => {
+      const info = parseSolidityFile(source);
+
+      expect(info.contracts.map((contract) => [contract.name, contract.kind])).to.deep.equal([
+        ["ICounter", "interface"],
+        ["Base", "abstract"],
+        ["Math", "library"],
+        ["Counter", "contract"],
+      ]);
+      const counter = info.contracts[3];
+      expect(counter.bases).to.deep.equal(["Base", "Ownable"]);
+      expect(counter.functions).to.deep.equal([
+        { name: "count", visibility: "public", stateMutability: "view", inputs: [] },
+        { name: "increment", visibility: "external", stateMutability: undefined, inputs: [] },
+      ]);
+    });
+
+    it("reads constructor parameters as ABI-style types", () => {
+      const info = parseSolidityFile(`
+contract Sale {
+    constructor(IERC20 token, uint price, bytes32[2] memory roots, address payable sink) {}
+}
+`);
+
+      expect(info.contracts[0].constructorInputs).to.deep.equal([
+        { name: "token", type: "IERC20" },
+        { name: "price", type: "uint256" },
+        { name: "roots", type: "bytes32[2]" },
+        { name: "sink", type: "address" },
+      ]);
+    });
+
+    it("never selects an abstract contract, interface or library as primary", () => {
+      const info = parseSolidityFile(source);
+      expect(selectPrimaryContract(info, "Base")?.name).to.equal("Counter");
+    });
+
+    it("prefers the contract named like the file", () => {
+      const info = parseSolidityFile("contract Helper {}\ncontract Example {}\n");
+      expect(selectPrimaryContract(info, "Example")?.name).to.equal("Example");
+    });
+
+    it("throws on invalid syntax", () => {
+      expect(() => parseSolidityFile("contract Broken {")).to.throw();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @title Test Coverage Tests
+ * @notice Tests for the registry's test-to-contract mapping and its `@custom:test` warnings
+ * @dev Runs against the hub's own contracts and tests
+ */
+
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { loadExampleRegistry, validateRegistryMetadata } from "../../scripts/example-registry";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+describe("test coverage", function () {
+  this.timeout(60_000);
+
+  const registry = loadExampleRegistry(rootDir, { cache: false });
+  const example = (slug: string) => {
+    const meta = registry.bySlug.get(slug);
+    if (!meta) throw new Error(`missing example ${slug}`);
+    return meta;
+  };
+  const warnings = registry.diagnostics.filter((diagnostic) => diagnostic.tag === "custom:test");
+
+  it("records the contracts each test deploys", () => {
+    expect(registry.testDeploys.get("test/identity/FullFlow.test.ts")).to.deep.equal([
+      "IdentityRegistry",
+      "ComplianceRules",
+      "CompliantERC20",
+    ]);
+    expect(registry.testDeploys.has("test/identity/OwnershipTransfers.test.ts")).to.equal(true);
+    const testFiles = [...registry.testDeploys.keys()];
+    expect(testFiles.filter((file) => file.startsWith("test/scripts/"))).to.deep.equal([]);
+    expect(example("fhe-counter").testDeploys).to.deep.equal(["FHECounter"]);
+  });
+
+  it("classifies dedicated, shared and indirect tests", () => {
+    expect(example("fhe-counter").testCoverage).to.equal("dedicated");
+    expect(example("compliance-rules").testCoverage).to.equal("shared");
+    expect(example("compliant-erc20").testCoverage).to.equal("shared");
+    expect(example("vesting-wallet-confidential").testCoverage).to.equal("indirect");
+  });
+
+  it("warns about examples without a dedicated test", () => {
+    expect(warnings.map((diagnostic) => diagnostic.file)).to.have.members([
+      "contracts/identity/ComplianceRules.sol",
+      "contracts/identity/CompliantERC20.sol",
+      "contracts/identity/VestingWalletConfidentialExample.sol",
+    ]);
+    expect(warnings.every((diagnostic) => diagnostic.severity === "warning")).to.equal(true);
+    const shared = warnings.find((diagnostic) => diagnostic.file.endsWith("ComplianceRules.sol"));
+    expect(shared?.message).to.equal(
+      "test/identity/FullFlow.test.ts is shared with compliant-erc20; no dedicated test; deployed by test/identity/OwnershipTransfers.test.ts",
+    );
+  });
+
+  it("counts examples per coverage in the metadata report", () => {
+    const report = validateRegistryMetadata(registry);
+    expect(report.testCoverage.shared).to.equal(2);
+    expect(report.testCoverage.indirect).to.equal(1);
+    expect(Object.values(report.testCoverage).reduce((total, count) => total + count, 0)).to.equal(
+      report.examples,
+    );
+    expect(validateRegistryMetadata(registry, { strict: true }).ok).to.equal(false);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @title Validate Tests
+ * @notice Tests for the step report of `validateHub` (`fhevm-hub validate`)
+ * @dev Runs against a throwaway hub whose `verify` script fails at once; nothing is installed
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import type { ExampleRegistry } from "../../scripts/example-registry";
+import { silentLogger } from "../../scripts/lib/logger";
+import { validateHub } from "../../scripts/validate";
+
+describe("validateHub", function () {
+  this.timeout(60_000);
+
+  let rootDir: string;
+  const registry = { examples: [], bySlug: new Map() } as unknown as ExampleRegistry;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "validate-"));
+    const verify = "node -e \"console.log('lint broke'); process.exit(3)\"";
+    fs.writeFileSync(
+      path.join(rootDir, "package.json"),
+      JSON.stringify({ name: "hub", private: true, scripts: { verify } }),
+    );
+    fs.mkdirSync(path.join(rootDir, "node_modules"));
+    fs.mkdirSync(path.join(rootDir, "base-template"));
+    fs.writeFileSync(path.join(rootDir, "base-template", "package.json"), "{}");
+    fs.writeFileSync(path.join(rootDir, "base-template", "hardhat.config.ts"), "");
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("stops at the first failing step and reports its captured output", () => {
+    const report = validateHub(rootDir, registry, {}, silentLogger);
+
+    expect(report.ok).to.equal(false);
+    expect(report.steps.map((step) => [step.name, step.status])).to.deep.equal([
+      ["template", "passed"],
+      ["verify", "failed"],
+    ]);
+    const verify = report.steps[1];
+    expect(verify).to.deep.include({
+      command: "npm run verify",
+      exitCode: 3,
+      log: path.join("test-output", "validate", "logs", "02-verify.log"),
+      message: "npm run verify failed with exit code 3",
+    });
+    expect(verify.outputTail).to.contain("lint broke");
+    expect(fs.readFileSync(path.join(rootDir, verify.log ?? ""), "utf8")).to.contain("lint broke");
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @title Validate All Tests
+ * @notice Tests for the JUnit report of `validate-all`
+ * @dev Builds reports by hand; no example is generated or installed
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expect } from "chai";
+
+import { formatJUnitReport, type ValidateAllReport } from "../../scripts/validate-all";
+
+describe("validate-all", () => {
+  it("writes one suite per category with failures, skips and escaped log tails", () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "fhevm-validate-all-"));
+    try {
+      fs.mkdirSync(path.join(outputDir, "logs"));
+      fs.writeFileSync(
+        path.join(outputDir, "logs", "blind-auction.log"),
+        '$ npm run test:mocked\n\u001b[31m1 failing\u001b[0m: expected <"a"> & more\n',
+      );
+      const report: ValidateAllReport = {
+        startedAt: "2026-01-01T00:00:00.000Z",
+        durationMs: 4500,
+        workers: 2,
+        passed: 1,
+        failed: 1,
+        skipped: 1,
+        examples: [
+          { slug: "fhe-counter", category: "basic", status: "passed", durationMs: 1500, steps: [] },
+          {
+            slug: "fhe-add",
+            category: "basic",
+            status: "skipped",
+            durationMs: 0,
+            steps: [],
+            message: "an earlier example failed (--bail)",
+          },
+          {
+            slug: "blind-auction",
+            category: "auctions",
+            status: "failed",
+            durationMs: 3000,
+            steps: [],
+            log: path.join("logs", "blind-auction.log"),
+            message: "npm run test:mocked failed with exit code 1",
+          },
+        ],
+      };
+
+      const xml = formatJUnitReport(report, outputDir);
+
+      expect(xml).to.include(
+        '<testsuites name="validate-all" tests="3" failures="1" skipped="1" time="4.500"',
+      );
+      expect(xml).to.include(
+        '<testsuite name="basic" tests="2" failures="0" skipped="1" time="1.500">',
+      );
+      expect(xml).to.include('<testcase classname="basic" name="fhe-counter" time="1.500" />');
+      expect(xml).to.include('<skipped message="an earlier example failed (--bail)" />');
+      expect(xml).to.include(
+        '<failure message="npm run test:mocked failed with exit code 1">$ npm run test:mocked\n[31m1 failing[0m: expected &lt;&quot;a&quot;&gt; &amp; more</failure>',
+      );
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});